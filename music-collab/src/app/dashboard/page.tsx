@@ -2,9 +2,12 @@
 
 import { useState, useEffect, Suspense } from 'react';
 import { apiUrl } from '@/lib/api';
+import { uploadInChunks, UPLOAD_CHUNK_SIZE } from '@/lib/upload';
 import LyricsGenerator from '@/components/lyrics-generator';
 import AudioClustering from '@/components/audio-clustering';
 import TimelineCard from '@/components/timeline-card';
+import Waveform from '@/components/waveform';
+import SongTakes from '@/components/song-takes';
 
 // Force dynamic rendering for this page
 export const dynamic = 'force-dynamic';
@@ -19,20 +22,48 @@ interface DropboxFile {
   server_modified?: string;
 }
 
+interface DuplicateFile {
+  name: string;
+  path: string;
+  size: number;
+  uploadedAt: string;
+  canonical: boolean;
+}
+
+// Files with the same content_hash, and the copy that stays
+interface DuplicateGroup {
+  contentHash: string;
+  size: number;
+  keep: string;
+  files: DuplicateFile[];
+}
+
+// POST /api/dropbox/duplicates
+interface DuplicatesResponse {
+  message: string;
+  groups: DuplicateGroup[];
+  summary: { groups: number; duplicates: number; redundantBytes: number; filesScanned: number; success: number; errors: number };
+  error?: string;
+}
+
 function DashboardContent() {
   const [files, setFiles] = useState<DropboxFile[]>([]);
   const [currentPath, setCurrentPath] = useState('');
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{fileName: string, uploadedBytes: number, totalBytes: number} | null>(null);
   const [showInitialAnimation, setShowInitialAnimation] = useState(true);
   const [previewFile, setPreviewFile] = useState<{name: string, content: string, type: 'text' | 'audio', url?: string} | null>(null);
   const [folderCache, setFolderCache] = useState<Map<string, {files: DropboxFile[], timestamp: number}>>(new Map());
   const [playingAudio, setPlayingAudio] = useState<{[filePath: string]: {url: string, isPlaying: boolean}}>({});
+  // Files whose other takes (from archive clustering) are shown
+  const [showTakes, setShowTakes] = useState<{[filePath: string]: boolean}>({});
   const [audioElements, setAudioElements] = useState<{[filePath: string]: HTMLAudioElement}>({});
   const [audioAnalysis, setAudioAnalysis] = useState<{[filePath: string]: {
     bpm?: number;
     key?: string;
-    mood?: string;
+    // Integrated loudness, LUFS
+    loudness?: number | null;
     quality?: string;
     suggestedName?: string;
     isProcessing?: boolean;
@@ -220,65 +251,91 @@ function DashboardContent() {
   };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const selected = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (selected.length === 0) return;
+
+    // Determine target folder based on current location or file type
+    let targetFolder = '/Music/Fiasco Total/Live Recordings/2025';
+
+    if (currentPath.includes('/New Uploads')) {
+      targetFolder = '/Music/Fiasco Total/New Uploads';
+    } else if (currentPath.includes('/Lyrics')) {
+      targetFolder = '/Music/Fiasco Total/Lyrics/2025';
+    } else if (currentPath.includes('/Live Recordings')) {
+      targetFolder = currentPath;
+    }
+
+    const totalBytes = selected.reduce((sum, file) => sum + file.size, 0);
+    let completedBytes = 0;
+    const uploadedNames: string[] = [];
 
     setUploading(true);
+    setUploadProgress({ fileName: selected[0].name, uploadedBytes: 0, totalBytes });
     try {
-      // Generate organized filename with date and time
-      const now = new Date();
-      const dateStr = now.toISOString().slice(0, 10).replace(/-/g, ''); // YYYYMMDD
-      const timeStr = now.toTimeString().slice(0, 5).replace(':', ''); // HHMM
-      
-      // Extract original filename without extension
-      const originalName = file.name.replace(/\.[^/.]+$/, '');
-      const extension = file.name.split('.').pop();
-      
-      // Create organized filename: YYYYMMDD_HHMM_OriginalName.ext
-      const organizedName = `${dateStr}_${timeStr}_${originalName}.${extension}`;
-
-      const formData = new FormData();
-      formData.append('file', file);
-      
-      // Determine target folder based on current location or file type
-      let targetFolder = '/Music/Fiasco Total/Live Recordings/2025';
-      
-      if (currentPath.includes('/New Uploads')) {
-        targetFolder = '/Music/Fiasco Total/New Uploads';
-      } else if (currentPath.includes('/Lyrics')) {
-        targetFolder = '/Music/Fiasco Total/Lyrics/2025';
-      } else if (currentPath.includes('/Live Recordings')) {
-        targetFolder = currentPath;
-      }
-      
-      const uploadPath = `${targetFolder}/${organizedName}`;
-      formData.append('path', uploadPath);
-      const response = await fetch(apiUrl('/api/dropbox/files'), {
-        method: 'POST',
-        body: formData,
-        credentials: 'include',
-      });
-
-      if (response.ok) {
-        // Clear cache for affected folders
-        clearCacheForPath(targetFolder);
-        if (currentPath !== targetFolder) {
-          clearCacheForPath(currentPath);
-        }
-        
-        // Navigate to the folder where file was uploaded if not already there
-        if (currentPath !== targetFolder) {
-          loadFiles(targetFolder);
+      for (const file of selected) {
+        // Generate organized filename with date and time
+        const now = new Date();
+        const dateStr = now.toISOString().slice(0, 10).replace(/-/g, ''); // YYYYMMDD
+        const timeStr = now.toTimeString().slice(0, 5).replace(':', ''); // HHMM
+
+        // Extract original filename without extension
+        const originalName = file.name.replace(/\.[^/.]+$/, '');
+        const extension = file.name.split('.').pop();
+
+        // Create organized filename: YYYYMMDD_HHMM_OriginalName.ext
+        const organizedName = `${dateStr}_${timeStr}_${originalName}.${extension}`;
+        const uploadPath = `${targetFolder}/${organizedName}`;
+
+        if (file.size > UPLOAD_CHUNK_SIZE) {
+          // Big WAVs and stems go through an upload session so they can exceed 150 MB
+          await uploadInChunks(file, uploadPath, (uploadedBytes) => {
+            setUploadProgress({ fileName: file.name, uploadedBytes: completedBytes + uploadedBytes, totalBytes });
+          });
         } else {
-          // Reload files in current directory
-          loadFiles(currentPath);
+          const formData = new FormData();
+          formData.append('file', file);
+          formData.append('path', uploadPath);
+          const response = await fetch(apiUrl('/api/dropbox/files'), {
+            method: 'POST',
+            body: formData,
+            credentials: 'include',
+          });
+          if (!response.ok) {
+            const data = await response.json();
+            throw new Error(data.error || `Failed to upload ${file.name}`);
+          }
         }
-        alert(`File uploaded as: ${organizedName}`);
+
+        completedBytes += file.size;
+        uploadedNames.push(organizedName);
+        setUploadProgress({ fileName: file.name, uploadedBytes: completedBytes, totalBytes });
       }
     } catch (error) {
       console.error('Error uploading file:', error);
+      alert(`Upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setUploading(false);
+      setUploadProgress(null);
+    }
+
+    if (uploadedNames.length > 0) {
+      // Clear cache for affected folders
+      clearCacheForPath(targetFolder);
+      if (currentPath !== targetFolder) {
+        clearCacheForPath(currentPath);
+      }
+
+      // Navigate to the folder where file was uploaded if not already there
+      if (currentPath !== targetFolder) {
+        loadFiles(targetFolder);
+      } else {
+        // Reload files in current directory
+        loadFiles(currentPath);
+      }
+      alert(uploadedNames.length === 1
+        ? `File uploaded as: ${uploadedNames[0]}`
+        : `Uploaded ${uploadedNames.length} files to ${targetFolder}`);
     }
   };
 
@@ -534,7 +591,7 @@ function DashboardContent() {
           [filePath]: {
             bpm: analysis.audioAnalysis?.bpm,
             key: analysis.audioAnalysis?.key,
-            mood: analysis.audioAnalysis?.mood,
+            loudness: analysis.levels?.integratedLufs,
             quality: analysis.aiAnalysis?.musicalContent?.recordingQuality,
             suggestedName: analysis.aiAnalysis?.suggestions?.suggestedName,
             isProcessing: false
@@ -556,7 +613,8 @@ function DashboardContent() {
     }
   };
 
-  const processNewUploads = async (action: 'preview' | 'process') => {
+  // Preview asks for a dry-run plan; confirming it applies exactly that plan
+  const processNewUploads = async (action: 'preview' | 'process', plan?: unknown) => {
     setLoading(true);
     try {
       const response = await fetch(apiUrl('/api/dropbox/process-uploads'), {
@@ -565,7 +623,9 @@ function DashboardContent() {
           'Content-Type': 'application/json',
         },
         credentials: 'include',
-        body: JSON.stringify({ action }),
+        body: JSON.stringify(
+          action === 'preview' ? { dryRun: true } : plan ? { action: 'apply', plan } : { action }
+        ),
       });
 
       const result = await response.json();
@@ -608,8 +668,19 @@ function DashboardContent() {
             previewMessage += `\n⚠️ ${result.skipped} files will be skipped (unknown types)\n`;
           }
 
+          const moves: { fileName: string; category: string; newPath: string }[] = result.plan?.moves || [];
+          if (moves.length > 0) {
+            previewMessage += '\n📦 Planned moves:\n';
+            moves.slice(0, 10).forEach(move => {
+              previewMessage += `  • ${move.fileName} → [${move.category}] ${move.newPath.split('/').slice(-2).join('/')}\n`;
+            });
+            if (moves.length > 10) {
+              previewMessage += `  • ... and ${moves.length - 10} more\n`;
+            }
+          }
+
           if (confirm(previewMessage + '\nProceed with processing?')) {
-            processNewUploads('process');
+            processNewUploads('process', result.plan);
           }
         } else {
           let successMessage = `Success: ${result.message}`;
@@ -732,6 +803,58 @@ function DashboardContent() {
     }
   };
 
+  const resolveDuplicates = async (action: 'preview' | 'resolve') => {
+    setLoading(true);
+    try {
+      const response = await fetch(apiUrl('/api/dropbox/duplicates'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ action, keep: 'canonical' }),
+      });
+
+      const result: DuplicatesResponse = await response.json();
+
+      if (response.ok) {
+        if (action === 'preview') {
+          if (result.groups.length === 0) {
+            alert(`No duplicates found in ${result.summary.filesScanned} files`);
+            return;
+          }
+
+          let previewMessage = `${result.message}\n\n`;
+          result.groups.slice(0, 5).forEach(group => {
+            previewMessage += `✅ Keep ${group.keep}\n`;
+            group.files.filter(file => file.path !== group.keep).forEach(file => {
+              previewMessage += `   📦 ${file.path} (uploaded ${new Date(file.uploadedAt).toLocaleString()})\n`;
+            });
+          });
+          if (result.groups.length > 5) {
+            previewMessage += `... and ${result.groups.length - 5} more groups\n`;
+          }
+
+          if (confirm(previewMessage + '\nMove the extra copies to _Duplicates?')) {
+            resolveDuplicates('resolve');
+          }
+        } else {
+          alert(result.message);
+          // Clear cache and reload
+          clearCacheForPath(currentPath);
+          loadFiles(currentPath);
+        }
+      } else {
+        alert(`Error: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Error resolving duplicates:', error);
+      alert('Failed to scan for duplicates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleInlineAudioPlay = async (file: DropboxFile) => {
     
     const filePath = file.path_display;
@@ -869,6 +992,19 @@ function DashboardContent() {
             >
               📝
             </button>
+            <label
+              className={`px-3 py-1 text-xs bg-yellow-600 hover:bg-yellow-500 text-white border border-yellow-400 font-bold rounded shadow-lg hover:shadow-yellow-500/50 transition-all ${uploading ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}
+              title="Upload recordings"
+            >
+              📤
+              <input
+                type="file"
+                multiple
+                className="hidden"
+                onChange={handleFileUpload}
+                disabled={uploading}
+              />
+            </label>
             {currentPath && (
               <button
                 onClick={goBack}
@@ -886,9 +1022,48 @@ function DashboardContent() {
           </div>
         </div>
 
+        {/* Upload Progress */}
+        {uploadProgress && (
+          <div className="mb-4 bg-black/60 backdrop-blur-sm border border-yellow-500/50 rounded-lg p-3 shadow-lg shadow-yellow-500/20">
+            <div className="flex justify-between text-xs text-cyan-200 mb-1">
+              <span>📤 Uploading {uploadProgress.fileName}</span>
+              <span>
+                {(uploadProgress.uploadedBytes / 1024 / 1024).toFixed(1)} / {(uploadProgress.totalBytes / 1024 / 1024).toFixed(1)} MB
+              </span>
+            </div>
+            <div className="w-full h-2 bg-gray-800 rounded">
+              <div
+                className="h-2 bg-yellow-500 rounded transition-all"
+                style={{ width: `${uploadProgress.totalBytes ? Math.round(uploadProgress.uploadedBytes / uploadProgress.totalBytes * 100) : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Activity Timeline Card */}
         <TimelineCard className="mb-4" />
 
+        {/* Duplicate Scan - identical uploads anywhere in the archive */}
+        <div className="mb-4 bg-black/60 backdrop-blur-sm border border-orange-500/50 rounded-lg p-4 shadow-lg shadow-orange-500/20">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-orange-400 font-bold mb-1 drop-shadow-lg">🧬 DUPLICATE UPLOADS</h3>
+              <p className="text-xs text-cyan-200">
+                Find byte-identical copies of the same file across the whole archive
+              </p>
+              <p className="text-xs text-gray-400 mt-1">
+                • Keeps the filed copy • Moves the rest to _Duplicates • Logged to the timeline
+              </p>
+            </div>
+            <button
+              onClick={() => resolveDuplicates('preview')}
+              className="px-3 py-1 text-xs bg-orange-600 hover:bg-orange-500 text-white border border-orange-400 font-bold rounded shadow-lg hover:shadow-orange-500/50 transition-all"
+            >
+              [SCAN]
+            </button>
+          </div>
+        </div>
+
         {/* Process New Uploads Button - Show only when in New Uploads folder */}
         {currentPath.toLowerCase().includes('new uploads') && files.length > 0 && (
           <div className="mb-4 bg-black/60 backdrop-blur-sm border border-yellow-500/50 rounded-lg p-4 shadow-lg shadow-yellow-500/20">
@@ -1099,10 +1274,40 @@ function DashboardContent() {
                            audioAnalysis[file.path_display]?.bpm ? 'ANALYZED' : 'PROCESS'}
                         </span>
                       </button>
+
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setShowTakes(prev => ({...prev, [file.path_display]: !prev[file.path_display]}));
+                        }}
+                        className={`px-2 py-1 text-xs rounded border transition-all duration-200 flex items-center space-x-1 ${
+                          showTakes[file.path_display]
+                            ? 'bg-purple-500 text-white border-purple-300 shadow-lg shadow-purple-500/30'
+                            : 'bg-black/40 hover:bg-purple-600 text-purple-300 hover:text-white border-purple-400/50'
+                        }`}
+                        title="All takes of this song across the archive"
+                      >
+                        <span>🎼</span>
+                        <span className="font-bold">TAKES</span>
+                      </button>
                     </div>
                   )}
                 </div>
                 
+                {/* Waveform of the file being played */}
+                {isAudioFile(file.name) && playingAudio[file.path_display]?.isPlaying && (
+                  <div className="px-3 pb-2">
+                    <Waveform filePath={file.path_display} audio={audioElements[file.path_display]} />
+                  </div>
+                )}
+
+                {/* Other takes of the song, from archive clustering */}
+                {isAudioFile(file.name) && showTakes[file.path_display] && (
+                  <div className="px-3 pb-2">
+                    <SongTakes filePath={file.path_display} onOpenFolder={navigateToFolder} />
+                  </div>
+                )}
+
                 {/* Audio analysis results */}
                 {isAudioFile(file.name) && audioAnalysis[file.path_display] && !audioAnalysis[file.path_display].isProcessing && audioAnalysis[file.path_display].bpm && (
                   <div className="px-3 pb-3">
@@ -1117,8 +1322,10 @@ function DashboardContent() {
                           <div className="text-gray-400">Key</div>
                         </div>
                         <div className="text-center">
-                          <div className="text-yellow-400 font-bold capitalize">{audioAnalysis[file.path_display].mood || 'Unknown'}</div>
-                          <div className="text-gray-400">Mood</div>
+                          <div className="text-yellow-400 font-bold">
+                            {audioAnalysis[file.path_display].loudness != null ? `${audioAnalysis[file.path_display].loudness} LUFS` : 'Unknown'}
+                          </div>
+                          <div className="text-gray-400">Loudness</div>
                         </div>
                         <div className="text-center">
                           <div className={`font-bold ${
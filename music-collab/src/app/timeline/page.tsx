@@ -13,6 +13,7 @@ interface ActivityLogEntry {
   filePath: string;
   oldPath?: string;
   newPath?: string;
+  batchId?: string;
   details: {
     originalName?: string;
     newName?: string;
@@ -23,6 +24,9 @@ interface ActivityLogEntry {
     analysisResults?: any;
     fileSize?: number;
     duration?: number;
+    duplicateOf?: string;
+    contentHash?: string;
+    undoOf?: string;
   };
   metadata?: {
     userId?: string;
@@ -31,6 +35,25 @@ interface ActivityLogEntry {
   };
 }
 
+// One file of a batch being moved back
+interface UndoResult {
+  fromPath: string;
+  toPath: string;
+  status: 'restored' | 'would_restore' | 'conflict' | 'error';
+  message: string;
+}
+
+// POST /api/timeline/undo
+interface UndoResponse {
+  message: string;
+  batchId: string;
+  undoBatchId?: string;
+  results: UndoResult[];
+  removedFolders: string[];
+  summary: { total: number; restored: number; conflicts: number; errors: number };
+  error?: string;
+}
+
 interface TimelineStats {
   totalActivities: number;
   actionCounts: {[key: string]: number};
@@ -46,6 +69,7 @@ export default function Timeline() {
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<string>('');
   const [limit, setLimit] = useState(50);
+  const [undoing, setUndoing] = useState<string | null>(null);
   const router = useRouter();
 
   useEffect(() => {
@@ -86,6 +110,52 @@ export default function Timeline() {
     }
   };
 
+  const undoBatch = async (batchId: string, action: 'preview' | 'undo') => {
+    setUndoing(batchId);
+    try {
+      const response = await fetch(apiUrl('/api/timeline/undo'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ batchId, action }),
+      });
+
+      const result: UndoResponse = await response.json();
+
+      if (!response.ok) {
+        alert(`Error: ${result.error}`);
+        return;
+      }
+
+      const conflicts = result.results.filter(r => r.status === 'conflict' || r.status === 'error');
+      let message = `${result.message}\n`;
+      conflicts.slice(0, 10).forEach(r => {
+        message += `\n⚠️ ${r.fromPath}: ${r.message}`;
+      });
+      if (conflicts.length > 10) {
+        message += `\n... and ${conflicts.length - 10} more`;
+      }
+
+      if (action === 'preview') {
+        if (result.summary.restored === 0) {
+          alert(message);
+        } else if (confirm(`${message}\n\nMove these files back?`)) {
+          await undoBatch(batchId, 'undo');
+        }
+      } else {
+        alert(message);
+        loadActivities();
+      }
+    } catch (error) {
+      console.error('Error undoing batch:', error);
+      alert('Failed to undo');
+    } finally {
+      setUndoing(null);
+    }
+  };
+
   const getActionIcon = (action: string) => {
     const icons = {
       rename: '✏️',
@@ -159,6 +229,9 @@ export default function Timeline() {
             {details.category && (
               <div className="text-xs text-cyan-400 mt-1">Category: {details.category}</div>
             )}
+            {details.duplicateOf && (
+              <div className="text-xs text-orange-400">Duplicate of: {details.duplicateOf}</div>
+            )}
           </div>
         );
 
@@ -337,6 +410,16 @@ export default function Timeline() {
                         </div>
                       </div>
                     </div>
+                    {activity.batchId && activity.oldPath && activity.newPath && (
+                      <button
+                        onClick={() => undoBatch(activity.batchId!, 'preview')}
+                        disabled={undoing !== null}
+                        className="px-2 py-1 text-xs bg-orange-700 hover:bg-orange-600 text-white border border-orange-500 rounded disabled:opacity-50"
+                        title="Move every file of this run back to where it was"
+                      >
+                        {undoing === activity.batchId ? '...' : '↩️ UNDO RUN'}
+                      </button>
+                    )}
                   </div>
                 </div>
               ))
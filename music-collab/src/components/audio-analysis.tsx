@@ -20,16 +20,12 @@ interface AudioAnalysisResult {
   
   audioAnalysis: {
     bpm?: number;
+    bpmConfidence?: number;
     key?: string;
-    energy?: number;
-    mood?: string[];
-    genre?: string[];
-    hasVocals?: boolean;
-    isInstrumental?: boolean;
+    keyConfidence?: number;
   };
   
   aiAnalysis?: {
-    extractedLyrics?: string;
     songStructure?: {
       hasIntro?: boolean;
       hasVerses?: boolean;
@@ -41,6 +37,7 @@ interface AudioAnalysisResult {
       dominantInstruments?: string[];
       complexity?: 'Simple' | 'Moderate' | 'Complex';
       recordingQuality?: 'Demo' | 'Professional' | 'High-Quality';
+      recordingQualityEvidence?: string[];
     };
     suggestions?: {
       suggestedName?: string;
@@ -50,6 +47,16 @@ interface AudioAnalysisResult {
     };
   };
   
+  levels?: {
+    integratedLufs: number | null;
+    truePeakDb: number | null;
+    loudnessRange: number | null;
+    clippedSamples: number;
+    leadingSilence: number;
+    trailingSilence: number | null;
+    analyzedSeconds: number;
+  };
+  
   confidence: number;
   analysisTimestamp: string;
 }
@@ -297,19 +304,61 @@ export default function AudioAnalysis({ currentPath, files, onAnalysisComplete }
                         <span className="text-gray-400">Key:</span> 
                         <span className="ml-1 text-purple-300">{selectedFile.audioAnalysis.key || 'Unknown'}</span>
                       </div>
-                      <div>
-                        <span className="text-gray-400">Mood:</span> 
-                        <span className="ml-1 text-yellow-300 capitalize">{selectedFile.audioAnalysis.mood || 'Unknown'}</span>
-                      </div>
-                      <div>
-                        <span className="text-gray-400">Type:</span> 
-                        <span className="ml-1 text-blue-300">
-                          {selectedFile.audioAnalysis.hasVocals ? '🎤 Vocal' : '🎸 Instrumental'}
-                        </span>
-                      </div>
                     </div>
                   </div>
 
+                  {/* Levels */}
+                  {selectedFile.levels && (
+                    <div className="bg-gray-900/50 rounded p-3">
+                      <h4 className="font-medium text-white mb-2">📊 Levels</h4>
+                      <div className="grid grid-cols-2 gap-2 text-sm">
+                        <div>
+                          <span className="text-gray-400">Quality:</span> 
+                          <span className={`ml-1 font-medium ${getQualityColor(selectedFile.aiAnalysis?.musicalContent?.recordingQuality)}`}>
+                            {selectedFile.aiAnalysis?.musicalContent?.recordingQuality || 'Unknown'}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-400">Loudness:</span> 
+                          <span className="ml-1 text-cyan-300 font-mono">
+                            {selectedFile.levels.integratedLufs !== null ? `${selectedFile.levels.integratedLufs} LUFS` : 'Silent'}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-400">True peak:</span> 
+                          <span className={`ml-1 font-mono ${(selectedFile.levels.truePeakDb ?? -Infinity) > -1 ? 'text-yellow-300' : 'text-cyan-300'}`}>
+                            {selectedFile.levels.truePeakDb !== null ? `${selectedFile.levels.truePeakDb} dBTP` : '-'}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-400">Dynamic range:</span> 
+                          <span className="ml-1 text-cyan-300 font-mono">
+                            {selectedFile.levels.loudnessRange !== null ? `${selectedFile.levels.loudnessRange} LU` : '-'}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-400">Clipping:</span> 
+                          <span className={`ml-1 font-mono ${selectedFile.levels.clippedSamples > 0 ? 'text-red-400' : 'text-green-300'}`}>
+                            {selectedFile.levels.clippedSamples > 0 ? `${selectedFile.levels.clippedSamples} samples` : 'None'}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-400">Silence:</span> 
+                          <span className="ml-1 text-cyan-300 font-mono">
+                            {selectedFile.levels.leadingSilence}s / {selectedFile.levels.trailingSilence ?? '?'}s
+                          </span>
+                        </div>
+                      </div>
+                      {selectedFile.aiAnalysis?.musicalContent?.recordingQualityEvidence && (
+                        <ul className="mt-2 text-xs text-gray-400 list-disc list-inside">
+                          {selectedFile.aiAnalysis.musicalContent.recordingQualityEvidence.map((item, i) => (
+                            <li key={i}>{item}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
                   {/* AI Analysis */}
                   {selectedFile.aiAnalysis && (
                     <>
@@ -317,12 +366,6 @@ export default function AudioAnalysis({ currentPath, files, onAnalysisComplete }
                       <div className="bg-gray-900/50 rounded p-3">
                         <h4 className="font-medium text-white mb-2">🤖 AI Analysis</h4>
                         <div className="grid grid-cols-2 gap-2 text-sm">
-                          <div>
-                            <span className="text-gray-400">Quality:</span> 
-                            <span className={`ml-1 font-medium ${getQualityColor(selectedFile.aiAnalysis.musicalContent?.recordingQuality)}`}>
-                              {selectedFile.aiAnalysis.musicalContent?.recordingQuality || 'Unknown'}
-                            </span>
-                          </div>
                           <div>
                             <span className="text-gray-400">Complexity:</span> 
                             <span className={`ml-1 font-medium ${getComplexityColor(selectedFile.aiAnalysis.musicalContent?.complexity)}`}>
@@ -354,16 +397,6 @@ export default function AudioAnalysis({ currentPath, files, onAnalysisComplete }
                         )}
                       </div>
 
-                      {/* Lyrics */}
-                      {selectedFile.aiAnalysis.extractedLyrics && (
-                        <div className="bg-gray-900/50 rounded p-3">
-                          <h4 className="font-medium text-white mb-2">🎤 Extracted Lyrics</h4>
-                          <div className="bg-black/40 rounded p-2 text-sm text-gray-300 whitespace-pre-line font-mono max-h-32 overflow-y-auto">
-                            {selectedFile.aiAnalysis.extractedLyrics}
-                          </div>
-                        </div>
-                      )}
-
                       {/* Suggestions */}
                       {selectedFile.aiAnalysis.suggestions?.improvements && (
                         <div className="bg-gray-900/50 rounded p-3">
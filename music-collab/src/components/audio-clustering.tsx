@@ -1,18 +1,22 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { apiUrl } from '@/lib/api';
 
+// A fingerprint from the analysis; the whole object goes back with cluster feedback
+interface ClusterFile {
+  filePath: string;
+  fileName: string;
+  duration: number;
+  tempo?: number;
+  key?: string;
+  [field: string]: unknown;
+}
+
 interface AudioCluster {
   id: string;
   name: string;
-  files: Array<{
-    filePath: string;
-    fileName: string;
-    duration: number;
-    tempo?: number;
-    key?: string;
-  }>;
+  files: ClusterFile[];
   averageTempo?: number;
   dominantKey?: string;
   averageDuration: number;
@@ -20,6 +24,21 @@ interface AudioCluster {
   suggestedCategory: 'same_song_takes' | 'similar_ideas' | 'same_session' | 'unrelated';
 }
 
+interface ArchiveJob {
+  status: 'idle' | 'running' | 'success' | 'error';
+  message?: string;
+  finishedAt?: string;
+  stats?: { scanned: number; fingerprinted: number; remaining: number };
+}
+
+interface FeedbackSummary {
+  weights: { [term: string]: number };
+  isDefault: boolean;
+  pairs: { same: number; different: number };
+}
+
+type ClusterEdit = 'merge' | 'split' | 'remove' | 'rename';
+
 interface AudioClusteringProps {
   currentPath: string;
   onClose: () => void;
@@ -34,6 +53,128 @@ export default function AudioClustering({ currentPath, onClose, onOrganizeComple
   const [organizing, setOrganizing] = useState(false);
   const [progressMessages, setProgressMessages] = useState<string[]>([]);
   const [analysisStats, setAnalysisStats] = useState<any>(null);
+  const [feedback, setFeedback] = useState<FeedbackSummary | null>(null);
+  const [archiveJob, setArchiveJob] = useState<ArchiveJob | null>(null);
+
+  useEffect(() => {
+    fetch(apiUrl('/api/audio-analysis/cluster/feedback'), { credentials: 'include' })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => data && setFeedback(data))
+      .catch(error => console.error('Error loading cluster feedback:', error));
+  }, []);
+
+  const loadArchiveJob = () =>
+    fetch(apiUrl('/api/audio-analysis/archive-clusters'), { credentials: 'include' })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => data && setArchiveJob(data.job))
+      .catch(error => console.error('Error loading archive clustering status:', error));
+
+  useEffect(() => {
+    loadArchiveJob();
+  }, []);
+
+  // Poll while an archive run is in progress
+  useEffect(() => {
+    if (archiveJob?.status !== 'running') return;
+    const timer = setInterval(loadArchiveJob, 5000);
+    return () => clearInterval(timer);
+  }, [archiveJob?.status]);
+
+  const startArchiveClustering = async () => {
+    try {
+      const response = await fetch(apiUrl('/api/audio-analysis/archive-clusters'), {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setArchiveJob(data.job);
+      } else {
+        alert(`Archive clustering failed: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error starting archive clustering:', error);
+      alert('Failed to start archive clustering');
+    }
+  };
+
+  // Corrections are sent as labeled groups so future clustering weighs features the way the band does
+  const recordEdit = async (edit: ClusterEdit, groups: ClusterFile[][]) => {
+    try {
+      const response = await fetch(apiUrl('/api/audio-analysis/cluster/feedback'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ edit, groups }),
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setFeedback(data);
+      } else {
+        console.error('Recording cluster feedback failed:', data.error);
+      }
+    } catch (error) {
+      console.error('Error recording cluster feedback:', error);
+    }
+  };
+
+  const resetFeedback = async () => {
+    if (!confirm('Forget all cluster corrections and go back to the default weights?')) return;
+    try {
+      const response = await fetch(apiUrl('/api/audio-analysis/cluster/feedback'), {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setFeedback(data);
+      } else {
+        alert(`Reset failed: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Error resetting cluster feedback:', error);
+      alert('Failed to reset cluster weights');
+    }
+  };
+
+  const renameCluster = (cluster: AudioCluster) => {
+    const name = prompt('Cluster name', cluster.name)?.trim();
+    if (!name || name === cluster.name) return;
+    setClusters(prev => prev.map(c => (c.id === cluster.id ? { ...c, name } : c)));
+    recordEdit('rename', [cluster.files]);
+  };
+
+  const removeFile = (cluster: AudioCluster, file: ClusterFile) => {
+    const rest = cluster.files.filter(f => f.filePath !== file.filePath);
+    // A single file left over is no longer a cluster
+    setClusters(prev => rest.length > 1
+      ? prev.map(c => (c.id === cluster.id ? { ...c, files: rest } : c))
+      : prev.filter(c => c.id !== cluster.id));
+    recordEdit('remove', [[file], rest]);
+  };
+
+  // Files are listed oldest first, so a split separates earlier takes from later ones
+  const splitCluster = (cluster: AudioCluster, index: number) => {
+    const before = cluster.files.slice(0, index);
+    const after = cluster.files.slice(index);
+    const parts = [
+      { ...cluster, files: before },
+      { ...cluster, id: `${cluster.id}_split_${Date.now()}`, name: `${cluster.name} (split)`, files: after }
+    ].filter(part => part.files.length > 1);
+    setClusters(prev => prev.flatMap(c => (c.id === cluster.id ? parts : [c])));
+    recordEdit('split', [before, after]);
+  };
+
+  const mergeClusters = (cluster: AudioCluster, otherId: string) => {
+    const other = clusters.find(c => c.id === otherId);
+    if (!other) return;
+    setClusters(prev => prev
+      .filter(c => c.id !== other.id)
+      .map(c => (c.id === cluster.id ? { ...c, files: [...c.files, ...other.files] } : c)));
+    recordEdit('merge', [cluster.files, other.files]);
+  };
 
   const analyzeClusters = async () => {
     setAnalyzing(true);
@@ -198,6 +339,19 @@ export default function AudioClustering({ currentPath, onClose, onOrganizeComple
           <div className="flex items-center justify-between">
             <div className="text-sm text-cyan-200">
               <p>🤖 Smart clustering automatically selects the optimal similarity threshold for best results</p>
+              {feedback && (
+                <p className="text-xs text-gray-400 mt-1">
+                  {feedback.isDefault
+                    ? `Default weights (${feedback.pairs.same + feedback.pairs.different} corrections so far)`
+                    : `Weights learned from ${feedback.pairs.same + feedback.pairs.different} corrections: ` +
+                      Object.entries(feedback.weights).map(([term, weight]) => `${term} ${weight.toFixed(2)}`).join(', ')}
+                  {feedback.pairs.same + feedback.pairs.different > 0 && (
+                    <button onClick={resetFeedback} className="ml-2 text-orange-400 hover:text-white">
+                      [RESET]
+                    </button>
+                  )}
+                </p>
+              )}
             </div>
             <button
               onClick={analyzeClusters}
@@ -213,6 +367,33 @@ export default function AudioClustering({ currentPath, onClose, onOrganizeComple
           </div>
         </div>
 
+        {/* Archive-wide clustering */}
+        <div className="mb-6 bg-black/40 border border-purple-500/20 rounded-lg p-4">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-cyan-200">
+              <p>🗄️ Relate takes across every folder of the archive (use 🎼 TAKES on a file to see them)</p>
+              {archiveJob && archiveJob.status !== 'idle' && (
+                <p className="text-xs text-gray-400 mt-1">
+                  {archiveJob.status === 'running'
+                    ? `Running... ${archiveJob.stats?.fingerprinted || 0} new files fingerprinted`
+                    : archiveJob.message}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={startArchiveClustering}
+              disabled={archiveJob?.status === 'running'}
+              className={`px-4 py-2 text-sm rounded border font-bold transition-all ${
+                archiveJob?.status === 'running'
+                  ? 'bg-gray-600 text-gray-300 border-gray-500 cursor-not-allowed'
+                  : 'bg-purple-600 hover:bg-purple-500 text-white border-purple-400 shadow-lg hover:shadow-purple-500/30'
+              }`}
+            >
+              {archiveJob?.status === 'running' ? '🔄 CLUSTERING ARCHIVE...' : '🗄️ CLUSTER ARCHIVE'}
+            </button>
+          </div>
+        </div>
+
         {/* Progress Messages */}
         {(analyzing || progressMessages.length > 0) && (
           <div className="mb-6 bg-black/40 border border-yellow-500/20 rounded-lg p-4">
@@ -258,6 +439,13 @@ export default function AudioClustering({ currentPath, onClose, onOrganizeComple
                     <h4 className="text-lg font-bold text-white flex items-center space-x-2">
                       <span>{getCategoryIcon(cluster.suggestedCategory)}</span>
                       <span>{cluster.name}</span>
+                      <button
+                        onClick={() => renameCluster(cluster)}
+                        className="text-xs text-cyan-400 hover:text-white px-1 rounded hover:bg-cyan-500/20"
+                        title="Rename (confirms these files belong together)"
+                      >
+                        ✏️
+                      </button>
                     </h4>
                     <div className="flex items-center space-x-4 text-xs mt-1">
                       <span className={`font-bold ${getCategoryColor(cluster.suggestedCategory)}`}>
@@ -281,23 +469,37 @@ export default function AudioClustering({ currentPath, onClose, onOrganizeComple
                       )}
                     </div>
                   </div>
-                  <button
-                    onClick={() => organizeCluster(cluster)}
-                    disabled={organizing && selectedCluster === cluster.id}
-                    className={`px-3 py-1 text-xs rounded border font-bold transition-all ${
-                      organizing && selectedCluster === cluster.id
-                        ? 'bg-gray-600 text-gray-300 border-gray-500 cursor-not-allowed'
-                        : 'bg-green-600 hover:bg-green-500 text-white border-green-400 shadow-lg hover:shadow-green-500/30'
-                    }`}
-                  >
-                    {organizing && selectedCluster === cluster.id ? '📁 ORGANIZING...' : '📁 ORGANIZE'}
-                  </button>
+                  <div className="flex items-center space-x-2">
+                    {clusters.length > 1 && (
+                      <select
+                        value=""
+                        onChange={(e) => mergeClusters(cluster, e.target.value)}
+                        className="px-2 py-1 text-xs bg-black/60 text-cyan-300 border border-cyan-500/40 rounded"
+                      >
+                        <option value="">🔗 Merge with...</option>
+                        {clusters.filter(c => c.id !== cluster.id).map(c => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={() => organizeCluster(cluster)}
+                      disabled={organizing && selectedCluster === cluster.id}
+                      className={`px-3 py-1 text-xs rounded border font-bold transition-all ${
+                        organizing && selectedCluster === cluster.id
+                          ? 'bg-gray-600 text-gray-300 border-gray-500 cursor-not-allowed'
+                          : 'bg-green-600 hover:bg-green-500 text-white border-green-400 shadow-lg hover:shadow-green-500/30'
+                      }`}
+                    >
+                      {organizing && selectedCluster === cluster.id ? '📁 ORGANIZING...' : '📁 ORGANIZE'}
+                    </button>
+                  </div>
                 </div>
 
                 {/* File list */}
                 <div className="grid gap-2">
                   {cluster.files.map((file, idx) => (
-                    <div key={idx} className="bg-black/40 border border-gray-600/30 rounded p-2 flex justify-between items-center">
+                    <div key={file.filePath} className="bg-black/40 border border-gray-600/30 rounded p-2 flex justify-between items-center">
                       <div className="flex items-center space-x-3">
                         <span className="text-cyan-300 text-sm font-mono">
                           {file.fileName}
@@ -317,6 +519,22 @@ export default function AudioClustering({ currentPath, onClose, onOrganizeComple
                             {file.key}
                           </span>
                         )}
+                        {idx > 0 && (
+                          <button
+                            onClick={() => splitCluster(cluster, idx)}
+                            className="text-gray-400 hover:text-white px-1 rounded hover:bg-cyan-500/20"
+                            title="Split the cluster here"
+                          >
+                            ✂️
+                          </button>
+                        )}
+                        <button
+                          onClick={() => removeFile(cluster, file)}
+                          className="text-red-400 hover:text-white px-1 rounded hover:bg-red-500/20"
+                          title="Not part of this cluster"
+                        >
+                          ✕
+                        </button>
                       </div>
                     </div>
                   ))}
@@ -327,6 +545,7 @@ export default function AudioClustering({ currentPath, onClose, onOrganizeComple
             <div className="text-xs text-gray-400 text-center mt-4">
               <p>💡 Tip: Organizing will create a new subfolder and move similar files into it.</p>
               <p>Files are grouped by filename similarity, tempo, key, and creation time.</p>
+              <p>Renaming, merging, splitting and removing files teaches the clustering what belongs together.</p>
             </div>
           </div>
         )}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { apiUrl } from '@/lib/api';
+
+interface TakeFile {
+  filePath: string;
+  fileName: string;
+  folder: string;
+  modifiedDate: string;
+  duration: number;
+  tempo?: number;
+  key?: string;
+}
+
+interface ArchiveCluster {
+  id: string;
+  name: string;
+  files: TakeFile[];
+}
+
+interface SongTakesProps {
+  filePath: string;
+  // Open the folder a take lives in
+  onOpenFolder?: (folderPath: string) => void;
+  className?: string;
+}
+
+// Every take of the song `filePath` belongs to, across the whole archive
+export default function SongTakes({ filePath, onOpenFolder, className = '' }: SongTakesProps) {
+  const [cluster, setCluster] = useState<ArchiveCluster | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetch(apiUrl(`/api/audio-analysis/archive-clusters?path=${encodeURIComponent(filePath)}`), { credentials: 'include' })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load takes');
+        if (!cancelled) setCluster(data.cluster);
+      })
+      .catch(err => {
+        console.error('Song takes error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load takes');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath]);
+
+  if (loading) {
+    return <div className={`text-xs text-cyan-500 animate-pulse ${className}`}>Looking for other takes...</div>;
+  }
+
+  if (error) {
+    return <div className={`text-xs text-gray-500 ${className}`}>Takes unavailable</div>;
+  }
+
+  if (!cluster) {
+    return (
+      <div className={`text-xs text-gray-400 ${className}`}>
+        No other takes found. Run archive clustering from the cluster view to relate files across folders.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`bg-black/40 border border-purple-500/20 rounded-lg p-3 ${className}`}>
+      <div className="text-xs text-purple-300 font-bold mb-2">
+        🎼 {cluster.name} · {cluster.files.length} takes
+      </div>
+      <div className="space-y-1">
+        {cluster.files.map(take => (
+          <div key={take.filePath} className="flex justify-between items-center text-xs">
+            <span className={take.filePath === filePath ? 'text-white font-bold' : 'text-cyan-300'}>
+              {take.fileName}
+            </span>
+            <span className="flex items-center space-x-2 text-gray-400">
+              {take.tempo && <span className="text-purple-400">{Math.round(take.tempo)} BPM</span>}
+              {take.key && <span className="text-yellow-400">{take.key}</span>}
+              <span>{new Date(take.modifiedDate).toLocaleDateString()}</span>
+              {onOpenFolder ? (
+                <button onClick={() => onOpenFolder(take.folder)} className="text-cyan-400 hover:text-white" title={take.folder}>
+                  📁 {take.folder.split('/').slice(-2).join('/')}
+                </button>
+              ) : (
+                <span title={take.folder}>📁 {take.folder.split('/').slice(-2).join('/')}</span>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { apiUrl } from '@/lib/api';
+
+// audiowaveform JSON (version 2, 8-bit): a min and a max per pixel
+interface WaveformData {
+  sample_rate: number;
+  samples_per_pixel: number;
+  length: number;
+  data: number[];
+}
+
+interface WaveformProps {
+  filePath: string;
+  // The element playing this file; clicking the waveform seeks it
+  audio?: HTMLAudioElement;
+  height?: number;
+  className?: string;
+}
+
+export default function Waveform({ filePath, audio, height = 48, className = '' }: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(null);
+    setError(null);
+
+    fetch(apiUrl(`/api/audio/waveform?path=${encodeURIComponent(filePath)}`), { credentials: 'include' })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load waveform');
+        if (!cancelled) setWaveform(data);
+      })
+      .catch(err => {
+        console.error('Waveform error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load waveform');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filePath]);
+
+  // Follow playback position
+  useEffect(() => {
+    if (!audio) return;
+    const update = () => setProgress(audio.duration ? audio.currentTime / audio.duration : 0);
+    update();
+    audio.addEventListener('timeupdate', update);
+    audio.addEventListener('seeked', update);
+    return () => {
+      audio.removeEventListener('timeupdate', update);
+      audio.removeEventListener('seeked', update);
+    };
+  }, [audio]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !waveform) return;
+
+    const width = canvas.clientWidth;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.clearRect(0, 0, width, height);
+
+    const middle = height / 2;
+    const playedUntil = progress * width;
+    for (let x = 0; x < width; x++) {
+      // Several peaks can land on one screen pixel; keep their extremes
+      const first = Math.floor((x / width) * waveform.length);
+      const last = Math.max(first + 1, Math.floor(((x + 1) / width) * waveform.length));
+      let min = 0;
+      let max = 0;
+      for (let i = first; i < last && i < waveform.length; i++) {
+        min = Math.min(min, waveform.data[i * 2]);
+        max = Math.max(max, waveform.data[i * 2 + 1]);
+      }
+      const top = middle - (max / 128) * middle;
+      const bottom = middle - (min / 128) * middle;
+      context.fillStyle = x < playedUntil ? '#ec4899' : '#22d3ee';
+      context.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }, [waveform, progress, height]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!audio || !audio.duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    audio.currentTime = fraction * audio.duration;
+  };
+
+  if (error) {
+    return <div className={`text-xs text-gray-500 ${className}`}>Waveform unavailable</div>;
+  }
+
+  if (!waveform) {
+    return (
+      <div className={`text-xs text-cyan-500 animate-pulse ${className}`} style={{ height }}>
+        Loading waveform...
+      </div>
+    );
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      className={`w-full ${audio ? 'cursor-pointer' : ''} ${className}`}
+      style={{ height }}
+      title={audio ? 'Click to seek' : undefined}
+    />
+  );
+}
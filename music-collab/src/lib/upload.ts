@@ -0,0 +1,80 @@
+import { apiUrl } from '@/lib/api';
+
+// Each chunk is one request body to the backend, and serverless hosts cap those
+// (Vercel at 4.5 MB). Dropbox takes any size for sequential appends.
+export const UPLOAD_CHUNK_SIZE = 3 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;
+
+interface SessionResponse {
+  sessionId?: string;
+  offset?: number;
+  correctOffset?: number;
+  error?: string;
+  file?: { name: string; path_display?: string };
+}
+
+async function sendChunk(params: Record<string, string>, chunk: Blob): Promise<{ status: number; data: SessionResponse }> {
+  const response = await fetch(apiUrl(`/api/dropbox/upload-session?${new URLSearchParams(params).toString()}`), {
+    method: 'POST',
+    body: chunk,
+    credentials: 'include',
+  });
+  return { status: response.status, data: await response.json() };
+}
+
+/**
+ * Upload a file through /api/dropbox/upload-session one chunk at a time.
+ * Failed chunks are retried; when the server reports a different offset
+ * (an earlier attempt landed after all) the upload resumes from there.
+ */
+export async function uploadInChunks(
+  file: File,
+  path: string,
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void
+): Promise<SessionResponse['file']> {
+  const start = await sendChunk({ action: 'start' }, file.slice(0, UPLOAD_CHUNK_SIZE));
+  if (start.status !== 200 || !start.data.sessionId) {
+    throw new Error(start.data.error || 'Failed to start upload');
+  }
+
+  const sessionId = start.data.sessionId;
+  let offset = start.data.offset ?? 0;
+  let retries = 0;
+  onProgress?.(offset, file.size);
+
+  while (true) {
+    const isLast = file.size - offset <= UPLOAD_CHUNK_SIZE;
+    const chunk = file.slice(offset, offset + UPLOAD_CHUNK_SIZE);
+    const params: Record<string, string> = isLast
+      ? { action: 'finish', sessionId, offset: String(offset), path }
+      : { action: 'append', sessionId, offset: String(offset) };
+
+    let result: { status: number; data: SessionResponse };
+    try {
+      result = await sendChunk(params, chunk);
+    } catch (error) {
+      // Network hiccup: try the same chunk again
+      if (++retries > MAX_CHUNK_RETRIES) throw error;
+      continue;
+    }
+
+    if (result.status === 409 && result.data.correctOffset !== undefined) {
+      offset = result.data.correctOffset;
+      continue;
+    }
+    if (result.status !== 200) {
+      if (++retries > MAX_CHUNK_RETRIES) {
+        throw new Error(result.data.error || 'Failed to upload chunk');
+      }
+      continue;
+    }
+
+    retries = 0;
+    if (isLast) {
+      onProgress?.(file.size, file.size);
+      return result.data.file;
+    }
+    offset = result.data.offset ?? offset + chunk.size;
+    onProgress?.(offset, file.size);
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { archiveClusterer } from '@/lib/archive-clustering';
+
+// GET: With ?path=, the archive cluster that file belongs to (all takes of the
+// song, from any folder); without it, every cluster. Both include the job status.
+export async function GET(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const filePath = request.nextUrl.searchParams.get('path');
+    const job = await archiveClusterer.getStatus();
+
+    if (filePath) {
+      const cluster = await archiveClusterer.getClusterFor(filePath);
+      return NextResponse.json({ cluster, job }, { headers: getCorsHeaders() });
+    }
+
+    const clusters = await archiveClusterer.listClusters();
+    return NextResponse.json({ clusters, job }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error reading archive clusters:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read archive clusters' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+// POST: Start an archive clustering run in the background; poll GET for progress
+export async function POST(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    if (archiveClusterer.isRunning()) {
+      return NextResponse.json(
+        { message: 'Archive clustering is already running', job: await archiveClusterer.getStatus() },
+        { status: 202, headers: getCorsHeaders() }
+      );
+    }
+
+    // Fingerprinting takes minutes, so answer right away and keep working after the response
+    const run = archiveClusterer.run(authTokens.access_token);
+    after(() => run);
+
+    return NextResponse.json(
+      { message: 'Archive clustering started', job: await archiveClusterer.getStatus() },
+      { status: 202, headers: getCorsHeaders() }
+    );
+  } catch (error) {
+    console.error('Error starting archive clustering:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start archive clustering' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
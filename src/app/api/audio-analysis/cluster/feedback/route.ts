@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders, MUSIC_BASE_PATH } from '@/lib/config';
+import { getAuthFromCookies } from '@/lib/session';
+import { AudioClusteringService, AudioFingerprint } from '@/lib/audio-clustering';
+import { ClusterEdit, clusterFeedbackStore, LabeledPair } from '@/lib/cluster-feedback';
+
+const CLUSTER_EDITS: ClusterEdit[] = ['merge', 'split', 'remove', 'rename'];
+
+/**
+ * Fingerprints come back from the client as JSON; restore the date and make
+ * sure the fields similarity needs are there
+ */
+function toFingerprint(value: unknown): AudioFingerprint | null {
+  const fingerprint = value as AudioFingerprint | null;
+  if (!fingerprint || typeof fingerprint.filePath !== 'string' || !Array.isArray(fingerprint.features?.filenameTokens)) {
+    return null;
+  }
+  const modifiedDate = new Date(fingerprint.modifiedDate);
+  if (isNaN(modifiedDate.getTime())) return null;
+  return { ...fingerprint, modifiedDate };
+}
+
+/**
+ * What an edit says about pairs of files. Merging puts the two groups together
+ * and renaming accepts a cluster as it is, so those pairs belong together;
+ * splitting a cluster or removing a file from it says the sides don't.
+ */
+function labelPairs(
+  service: AudioClusteringService,
+  edit: ClusterEdit,
+  groups: AudioFingerprint[][]
+): LabeledPair[] {
+  const createdAt = new Date().toISOString();
+  const label = (a: AudioFingerprint, b: AudioFingerprint, same: boolean): LabeledPair => ({
+    a: a.filePath,
+    b: b.filePath,
+    same,
+    edit,
+    features: service.similarityFeatures(a, b),
+    createdAt
+  });
+
+  const pairs: LabeledPair[] = [];
+  if (edit === 'rename') {
+    for (const group of groups) {
+      group.forEach((a, i) => group.slice(i + 1).forEach(b => pairs.push(label(a, b, true))));
+    }
+    return pairs;
+  }
+
+  // Every pair across the groups
+  groups.forEach((group, i) => {
+    for (const other of groups.slice(i + 1)) {
+      for (const a of group) {
+        for (const b of other) {
+          if (a.filePath !== b.filePath) pairs.push(label(a, b, edit === 'merge'));
+        }
+      }
+    }
+  });
+  return pairs;
+}
+
+// GET: Similarity weights clustering currently uses, and how many corrections they were fit to
+export async function GET(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const summary = await clusterFeedbackStore.getSummary(MUSIC_BASE_PATH);
+
+    return NextResponse.json(summary, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error reading cluster feedback:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read cluster feedback' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+// POST: Record a cluster correction and refit the weights. Body is
+// { edit, groups } with the fingerprints from the analysis response:
+// merge/split take the two sides, remove takes [[removed file], rest of the cluster],
+// rename takes [cluster files]
+export async function POST(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { edit, groups } = await request.json();
+    if (!CLUSTER_EDITS.includes(edit)) {
+      return NextResponse.json(
+        { error: `edit must be one of ${CLUSTER_EDITS.join(', ')}` },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const fingerprints: (AudioFingerprint | null)[][] = Array.isArray(groups)
+      ? groups.map((group: unknown) => (Array.isArray(group) ? group.map(toFingerprint) : [null]))
+      : [];
+    if (fingerprints.length === 0 || fingerprints.some(group => group.some(fingerprint => !fingerprint))) {
+      return NextResponse.json(
+        { error: 'groups must be arrays of fingerprints from the cluster analysis' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const storage = createStorageProvider(authTokens.access_token);
+    const pairs = labelPairs(new AudioClusteringService(storage), edit, fingerprints as AudioFingerprint[][]);
+    const summary = await clusterFeedbackStore.addPairs(MUSIC_BASE_PATH, pairs);
+
+    return NextResponse.json({
+      message: `Recorded ${pairs.length} labeled pairs from ${edit}`,
+      ...summary
+    }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error recording cluster feedback:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record cluster feedback' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+// DELETE: Forget all corrections and go back to the default weights
+export async function DELETE(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const summary = await clusterFeedbackStore.reset(MUSIC_BASE_PATH);
+
+    return NextResponse.json({ message: 'Reset clustering weights to defaults', ...summary }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error resetting cluster feedback:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to reset cluster feedback' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
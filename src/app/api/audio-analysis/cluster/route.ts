@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
-import { getCorsHeaders } from '@/lib/config';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders, MUSIC_BASE_PATH } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
 import { AudioClusteringService, AudioFingerprint, AudioCluster } from '@/lib/audio-clustering';
-import { activityLogger } from '@/lib/activity-log';
+import { activityLogger, createBatchId } from '@/lib/activity-log';
+import { clusterFeedbackStore } from '@/lib/cluster-feedback';
+
+// Fingerprinting is per-file work, so cap how many entries one request reads
+const LISTING_LIMIT = 500;
 
 // Helper function to generate smart cluster folder names
 function generateClusterFolderName(cluster: AudioCluster, files: string[], existingFolders: string[] = []): string {
@@ -132,6 +137,7 @@ export async function POST(request: NextRequest) {
     const {
       folderPath,
       action = 'analyze',
+      recursive = false,
       cluster_id,
       files,
       cluster_name,
@@ -146,12 +152,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const dropboxService = new DropboxService(authTokens.access_token);
-    const clusteringService = new AudioClusteringService(dropboxService);
+    const storage = createStorageProvider(authTokens.access_token);
+    // Weights fit to the corrections people made to earlier suggestions
+    const clusteringService = new AudioClusteringService(storage, await clusterFeedbackStore.getWeights(MUSIC_BASE_PATH));
 
     if (action === 'analyze') {
       // Get audio files from folder or use provided files
       let audioFiles;
+      let listing: { limit: number; returned: number; truncated: boolean } | undefined;
 
       if (files && Array.isArray(files)) {
         // Use provided file paths
@@ -164,7 +172,13 @@ export async function POST(request: NextRequest) {
         }));
       } else {
         // Get files from folder
-        const filesResponse = await dropboxService.listFiles(folderPath);
+        const listingResult = await storage.listAllFiles(folderPath, { recursive, limit: LISTING_LIMIT });
+        const filesResponse = listingResult.entries;
+        listing = {
+          limit: LISTING_LIMIT,
+          returned: filesResponse.length,
+          truncated: listingResult.truncated
+        };
         audioFiles = filesResponse.filter((entry: any) => {
           if (entry['.tag'] !== 'file') return false;
           const fileName = entry.name.toLowerCase();
@@ -178,7 +192,8 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
           message: 'Need at least 2 audio files to perform clustering',
           fingerprints: [],
-          clusters: []
+          clusters: [],
+          listing
         }, { headers: getCorsHeaders() });
       }
 
@@ -267,6 +282,7 @@ export async function POST(request: NextRequest) {
         clusters,
         errors: errors.length > 0 ? errors : undefined,
         progressMessages,
+        listing,
         statistics: {
           totalFiles: audioFiles.length,
           analyzedFiles: fingerprints.length,
@@ -299,7 +315,7 @@ export async function POST(request: NextRequest) {
           // Get metadata for the files to help with folder naming
           for (const filePath of files) {
             const fileName = filePath.split('/').pop() || '';
-            const fileMetadata = await dropboxService.getFileMetadata(filePath);
+            const fileMetadata = await storage.getFileMetadata(filePath);
 
             const fingerprint = await clusteringService.extractFingerprint(
               filePath,
@@ -327,7 +343,7 @@ export async function POST(request: NextRequest) {
       const basePath = folderPath || files[0].split('/').slice(0, -1).join('/');
       let existingFolders: string[] = [];
       try {
-        const existingFiles = await dropboxService.listFiles(basePath);
+        const existingFiles = await storage.listFiles(basePath);
         existingFolders = existingFiles
           .filter((entry: any) => entry['.tag'] === 'folder')
           .map((entry: any) => entry.name);
@@ -344,10 +360,19 @@ export async function POST(request: NextRequest) {
 
       const results = [];
       const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, ''); // YYYYMMDD
+      const batchId = createBatchId();
 
       try {
         // Create cluster folder
-        await dropboxService.createFolder(clusterFolderPath);
+        await storage.createFolder(clusterFolderPath);
+        await activityLogger.logActivity({
+          action: 'create_folder',
+          filePath: clusterFolderPath,
+          batchId,
+          details: {
+            folderCreated: clusterFolderName
+          }
+        });
 
         // Sort files by creation date for consistent "379 ch" numbering
         const sortedFiles = [...files].sort((a, b) => {
@@ -362,11 +387,26 @@ export async function POST(request: NextRequest) {
             const newFileName = generateNewFileName(filePath, dateStr, i);
             const newPath = `${clusterFolderPath}/${newFileName}`;
 
-            await dropboxService.moveFile(filePath, newPath);
+            const moved = await storage.moveFile(filePath, newPath);
+            const movedTo = moved.metadata.path_display || newPath;
+
+            await activityLogger.logActivity({
+              action: 'organize',
+              filePath: movedTo,
+              oldPath: filePath,
+              newPath: movedTo,
+              batchId,
+              details: {
+                originalName: filePath.split('/').pop(),
+                newName: moved.metadata.name,
+                category: clusterFolderName,
+                contentHash: 'content_hash' in moved.metadata ? moved.metadata.content_hash : undefined
+              }
+            });
 
             results.push({
               originalPath: filePath,
-              newPath,
+              newPath: movedTo,
               newFileName,
               status: 'success',
               renamed: newFileName !== filePath.split('/').pop()
@@ -387,6 +427,7 @@ export async function POST(request: NextRequest) {
         await activityLogger.logActivity({
           action: 'organize_audio_cluster',
           filePath: clusterFolderPath,
+          batchId,
           details: {
             clusterId: cluster_id,
             clusterFolderName,
@@ -409,7 +450,8 @@ export async function POST(request: NextRequest) {
           message,
           clusterFolderPath,
           clusterFolderName,
-          results
+          results,
+          batchId
         }, { headers: getCorsHeaders() });
 
       } catch (error) {
@@ -418,7 +460,7 @@ export async function POST(request: NextRequest) {
           error: 'Failed to organize cluster',
           details: error instanceof Error ? error.message : 'Unknown error',
           results
-        }, { status: 500, headers: getCorsHeaders() });
+        }, { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } });
       }
 
     } else {
@@ -435,7 +477,7 @@ export async function POST(request: NextRequest) {
         error: 'Failed to perform audio clustering',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -460,10 +502,12 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const dropboxService = new DropboxService(authTokens.access_token);
+    const storage = createStorageProvider(authTokens.access_token);
 
     // Get audio files from folder
-    const filesResponse = await dropboxService.listFiles(folderPath);
+    const recursive = searchParams.get('recursive') === 'true';
+    const listingResult = await storage.listAllFiles(folderPath, { recursive, limit: LISTING_LIMIT });
+    const filesResponse = listingResult.entries;
     const audioFiles = filesResponse.filter((entry: any) => {
       if (entry['.tag'] !== 'file') return false;
       const fileName = entry.name.toLowerCase();
@@ -479,7 +523,12 @@ export async function GET(request: NextRequest) {
         path: file.path_display,
         size: file.size,
         modified: file.server_modified
-      }))
+      })),
+      listing: {
+        limit: LISTING_LIMIT,
+        returned: filesResponse.length,
+        truncated: listingResult.truncated
+      }
     }, { headers: getCorsHeaders() });
 
   } catch (error) {
@@ -489,7 +538,7 @@ export async function GET(request: NextRequest) {
         error: 'Failed to list audio files',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
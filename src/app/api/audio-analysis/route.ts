@@ -1,9 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
+import { createStorageProvider, StorageProvider } from '@/lib/storage';
 import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
+import { audioCache } from '@/lib/audio-cache';
+import { AudioClusteringService } from '@/lib/audio-clustering';
+import { decodeAudioExcerpt } from '@/lib/audio-decode';
+import { estimateKey, KeyEstimate, KeyMode } from '@/lib/audio-key';
+import { assessRecordingQuality, LevelReport, measureLevels } from '@/lib/audio-loudness';
+import { estimateTempo, TempoEstimate } from '@/lib/audio-tempo';
 import OpenAI from 'openai';
 
+// Level measurements download and decode at most this much of a recording (about 200 MB of stereo samples)
+const LEVELS_MAX_SECONDS = 10 * 60;
+
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
@@ -25,17 +35,17 @@ interface AudioAnalysisResult {
   // Advanced analysis
   audioAnalysis: {
     bpm?: number;
+    // 0-1, how clearly the beat stands out
+    bpmConfidence?: number;
+    // "A Minor"
     key?: string;
-    energy?: number;
-    mood?: string[];
-    genre?: string[];
-    hasVocals?: boolean;
-    isInstrumental?: boolean;
+    keyMode?: KeyMode;
+    // 0-1, how clearly the best key beats the runner-up
+    keyConfidence?: number;
   };
   
   // AI-powered understanding
   aiAnalysis?: {
-    extractedLyrics?: string;
     songStructure?: {
       hasIntro?: boolean;
       hasVerses?: boolean;
@@ -46,7 +56,9 @@ interface AudioAnalysisResult {
     musicalContent?: {
       dominantInstruments?: string[];
       complexity?: 'Simple' | 'Moderate' | 'Complex';
+      // Derived from the measured levels, not from the model
       recordingQuality?: 'Demo' | 'Professional' | 'High-Quality';
+      recordingQualityEvidence?: string[];
     };
     suggestions?: {
       suggestedName?: string;
@@ -56,81 +68,107 @@ interface AudioAnalysisResult {
     };
   };
   
+  // Loudness, peak, clipping and silence, measured from the decoded audio
+  levels?: LevelReport;
+  
   confidence: number;
   analysisTimestamp: string;
 }
 
-// Mock audio analysis function (would be replaced with actual libraries)
-async function analyzeAudioContent(audioBuffer: Buffer, fileName: string): Promise<Partial<AudioAnalysisResult['audioAnalysis']>> {
-  // This would use libraries like:
-  // - realtime-bpm-analyzer for BPM
-  // - music-metadata for basic metadata
-  // - Custom Web Audio API analysis for key/mood
-  
-  const mockAnalysis = {
-    bpm: Math.floor(Math.random() * 60) + 80, // 80-140 BPM
-    key: ['C', 'D', 'E', 'F', 'G', 'A', 'B'][Math.floor(Math.random() * 7)] + 
-         [' Major', ' Minor'][Math.floor(Math.random() * 2)],
-    energy: Math.random(),
-    mood: ['energetic', 'mellow', 'dark', 'bright', 'emotional'][Math.floor(Math.random() * 5)],
-    genre: ['rock', 'folk', 'electronic', 'jazz', 'pop'][Math.floor(Math.random() * 5)],
-    hasVocals: fileName.toLowerCase().includes('vocal') || Math.random() > 0.5,
-    isInstrumental: fileName.toLowerCase().includes('instrumental') || Math.random() > 0.3,
+interface AudioMeasurements {
+  tempo: TempoEstimate | null;
+  key: KeyEstimate | null;
+  levels: LevelReport | null;
+}
+
+// Only what is measured from the decoded audio; nothing here detects mood, genre or vocals
+function analyzeAudioContent({ tempo, key }: AudioMeasurements): AudioAnalysisResult['audioAnalysis'] {
+  return {
+    bpm: tempo?.bpm,
+    bpmConfidence: tempo?.confidence,
+    key: key?.label,
+    keyMode: key?.mode,
+    keyConfidence: key?.confidence
   };
-  
-  return mockAnalysis;
 }
 
-// Use OpenAI Whisper for lyrics extraction
-async function extractLyricsWithWhisper(audioBuffer: Buffer): Promise<string | null> {
-  try {
-    // Convert buffer to a format Whisper can process
-    // This would require audio format conversion in a real implementation
-    
-    // For now, return mock lyrics based on common patterns
-    const mockLyrics = [
-      "Verse 1:\nIn the quiet of the night\nI hear your voice calling\n\nChorus:\nWe're stronger together\nNothing can break us apart",
-      null, // Instrumental
-      "Verse 1:\nWalking down this empty road\nLooking for a sign\n\nChorus:\nTomorrow's just a heartbeat away",
-      "Verse 1:\nFeel the rhythm in your bones\nLet the music take control",
-    ];
-    
-    return mockLyrics[Math.floor(Math.random() * mockLyrics.length)];
-  } catch (error) {
-    console.error('Whisper analysis error:', error);
-    return null;
+/**
+ * Decode the recording once for tempo, key and levels. Only the first
+ * LEVELS_MAX_SECONDS are downloaded, with a ranged read sized from the
+ * bitrate in its headers. Results are shared with clustering through the
+ * audio cache, so a file is only measured again when its content changes.
+ */
+async function measureAudio(
+  storage: StorageProvider,
+  filePath: string,
+  fileInfo: { size?: number; content_hash?: string }
+): Promise<AudioMeasurements> {
+  const contentHash = fileInfo.content_hash;
+  const cached = contentHash ? await audioCache.get(contentHash) : undefined;
+  if (cached && cached.tempo !== undefined && cached.key !== undefined && cached.levels !== undefined) {
+    return { tempo: cached.tempo, key: cached.key, levels: cached.levels };
+  }
+
+  const technical = await new AudioClusteringService(storage).getTechnicalInfo(filePath, fileInfo);
+  const audio = await decodeAudioExcerpt(storage, filePath, LEVELS_MAX_SECONDS, {
+    fileSize: fileInfo.size,
+    bitrate: technical?.bitrate
+  });
+  if (!audio) return { tempo: null, key: null, levels: null };
+
+  const measurements: AudioMeasurements = {
+    tempo: estimateTempo(audio),
+    key: estimateKey(audio),
+    // Truncated when there was more of the file than was measured
+    levels: measureLevels(audio, { truncated: audio.truncated })
+  };
+
+  if (contentHash) {
+    await audioCache.update(contentHash, {
+      tempo: measurements.tempo,
+      key: measurements.key,
+      levels: measurements.levels ?? undefined
+    });
   }
+  return measurements;
 }
 
 // AI-powered content understanding using GPT
 async function analyzeMusicalContent(
   fileName: string, 
-  audioAnalysis: any, 
-  extractedLyrics?: string
+  audioAnalysis: AudioAnalysisResult['audioAnalysis'], 
+  levels?: LevelReport | null
 ): Promise<AudioAnalysisResult['aiAnalysis']> {
+  // Quality comes from the measurements; the model only sees them as context
+  const quality = levels ? assessRecordingQuality(levels) : undefined;
+  const withMeasuredQuality = (analysis: NonNullable<AudioAnalysisResult['aiAnalysis']>): AudioAnalysisResult['aiAnalysis'] => ({
+    ...analysis,
+    musicalContent: {
+      ...analysis.musicalContent,
+      recordingQuality: quality?.quality,
+      recordingQualityEvidence: quality?.evidence
+    }
+  });
+
   try {
     const analysisPrompt = `
 Analyze this music file and provide insights:
 
 File Name: ${fileName}
-BPM: ${audioAnalysis.bpm}
-Key: ${audioAnalysis.key}
-Mood: ${audioAnalysis.mood}
-Has Vocals: ${audioAnalysis.hasVocals}
-${extractedLyrics ? `\nLyrics:\n${extractedLyrics}` : 'No lyrics detected (instrumental)'}
+BPM: ${audioAnalysis.bpm ?? 'unknown'}
+Key: ${audioAnalysis.key ?? 'unknown'}
+${quality ? `Measured levels: ${quality.evidence.join('; ')}` : ''}
 
 Based on this information, provide:
 1. Suggested descriptive song name (if current name is generic)
 2. Musical tags that describe this recording
-3. Recording quality assessment
-4. Suggestions for improvement or grouping with similar tracks
-5. Song structure analysis (verse/chorus/bridge detection)
+3. Suggestions for improvement or grouping with similar tracks
+4. Song structure analysis (verse/chorus/bridge detection)
 
 Respond in JSON format matching this structure:
 {
   "suggestedName": "Descriptive song title",
   "tags": ["tag1", "tag2", "tag3"],
-  "recordingQuality": "Demo|Professional|High-Quality",
   "songStructure": {
     "hasIntro": boolean,
     "hasVerses": boolean,
@@ -168,10 +206,7 @@ Respond in JSON format matching this structure:
     if (aiResponse) {
       try {
         const parsedAnalysis = JSON.parse(aiResponse);
-        return {
-          extractedLyrics,
-          ...parsedAnalysis
-        };
+        return withMeasuredQuality(parsedAnalysis);
       } catch (parseError) {
         console.error('Failed to parse AI analysis:', parseError);
       }
@@ -181,8 +216,7 @@ Respond in JSON format matching this structure:
   }
 
   // Fallback analysis
-  return {
-    extractedLyrics,
+  return withMeasuredQuality({
     songStructure: {
       hasIntro: true,
       hasVerses: true,
@@ -192,8 +226,7 @@ Respond in JSON format matching this structure:
     },
     musicalContent: {
       dominantInstruments: ['guitar', 'vocals'],
-      complexity: 'Moderate',
-      recordingQuality: 'Demo'
+      complexity: 'Moderate'
     },
     suggestions: {
       suggestedName: fileName.replace(/\.(mp3|wav|m4a|aac|ogg|flac)$/i, ''),
@@ -201,7 +234,7 @@ Respond in JSON format matching this structure:
       groupWith: ['similar BPM tracks'],
       improvements: ['Consider professional mixing', 'Add harmonies']
     }
-  };
+  });
 }
 
 export async function POST(request: NextRequest) {
@@ -218,15 +251,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
     }
 
-    // Initialize Dropbox service
-    const dropboxService = new DropboxService(authTokens.access_token);
+    // Initialize storage backend
+    const storage = createStorageProvider(authTokens.access_token);
     
-    // Download audio file for analysis
-    const audioBuffer = await dropboxService.downloadFile(filePath);
     const fileName = filePath.split('/').pop() || 'unknown.mp3';
     
     // Get file metadata
-    const fileMetadata = await dropboxService.getFileMetadata(filePath);
+    const fileMetadata = await storage.getFileMetadata(filePath);
     
     const basicMetadata = {
       duration: undefined, // Would be extracted with music-metadata
@@ -238,16 +269,12 @@ export async function POST(request: NextRequest) {
     };
 
     // Perform audio content analysis
-    const audioAnalysis = await analyzeAudioContent(audioBuffer, fileName);
-    
-    // Extract lyrics if vocals are detected
-    let extractedLyrics: string | null = null;
-    if (audioAnalysis.hasVocals) {
-      extractedLyrics = await extractLyricsWithWhisper(audioBuffer);
-    }
+    const fileInfo = 'size' in fileMetadata ? { size: fileMetadata.size, content_hash: fileMetadata.content_hash } : {};
+    const measurements = await measureAudio(storage, filePath, fileInfo);
+    const audioAnalysis = analyzeAudioContent(measurements);
     
     // Get AI-powered insights
-    const aiAnalysis = await analyzeMusicalContent(fileName, audioAnalysis, extractedLyrics || undefined);
+    const aiAnalysis = await analyzeMusicalContent(fileName, audioAnalysis, measurements.levels);
     
     const result: AudioAnalysisResult = {
       fileName,
@@ -255,6 +282,7 @@ export async function POST(request: NextRequest) {
       basicMetadata,
       audioAnalysis,
       aiAnalysis,
+      levels: measurements.levels ?? undefined,
       confidence: 0.8, // Would be calculated based on analysis quality
       analysisTimestamp: new Date().toISOString()
     };
@@ -268,7 +296,7 @@ export async function POST(request: NextRequest) {
     console.error('Audio analysis error:', error);
     return NextResponse.json(
       { error: 'Failed to analyze audio file', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -329,7 +357,7 @@ export async function PUT(request: NextRequest) {
     console.error('Batch audio analysis error:', error);
     return NextResponse.json(
       { error: 'Failed to perform batch audio analysis' },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
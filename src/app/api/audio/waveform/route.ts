@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { audioCache } from '@/lib/audio-cache';
+import { UnsupportedAudioError } from '@/lib/audio-decode';
+import { computeWaveform, DEFAULT_WAVEFORM_WIDTH } from '@/lib/audio-waveform';
+
+const MIN_WIDTH = 50;
+const MAX_WIDTH = 4000;
+
+/**
+ * Min/max peaks of an audio file in audiowaveform JSON format.
+ * `?path=` selects the file, `?width=` the number of peak pairs (default
+ * 1000). Default-width results are cached by content_hash.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const path = searchParams.get('path');
+    if (!path) {
+      return NextResponse.json({ error: 'Path is required' }, { status: 400, headers: getCorsHeaders() });
+    }
+    const requestedWidth = parseInt(searchParams.get('width') || String(DEFAULT_WAVEFORM_WIDTH));
+    const width = Math.min(MAX_WIDTH, Math.max(MIN_WIDTH, isNaN(requestedWidth) ? DEFAULT_WAVEFORM_WIDTH : requestedWidth));
+
+    const storage = createStorageProvider(authTokens.access_token);
+    const metadata = await storage.getFileMetadata(path);
+    const contentHash = width === DEFAULT_WAVEFORM_WIDTH && 'content_hash' in metadata ? metadata.content_hash : undefined;
+
+    if (contentHash) {
+      const cached = await audioCache.get(contentHash);
+      if (cached?.waveform) {
+        return NextResponse.json(cached.waveform, { headers: getCorsHeaders() });
+      }
+    }
+
+    const data = await storage.downloadFile(path);
+    const waveform = await computeWaveform(data, path.split('/').pop() || path, width);
+    if (contentHash) {
+      await audioCache.update(contentHash, { waveform });
+    }
+
+    return NextResponse.json(waveform, { headers: getCorsHeaders() });
+  } catch (error) {
+    if (error instanceof UnsupportedAudioError) {
+      return NextResponse.json({ error: error.message }, { status: 415, headers: getCorsHeaders() });
+    }
+    console.error('Waveform error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate waveform', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
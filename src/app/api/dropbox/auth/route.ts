@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { Dropbox } from 'dropbox';
 import { getCorsHeaders } from '@/lib/config';
 import { setAuthCookies } from '@/lib/session';
+import { accountStore } from '@/lib/account-store';
 
 const CLIENT_ID = process.env.DROPBOX_CLIENT_ID!;
 const CLIENT_SECRET = process.env.DROPBOX_CLIENT_SECRET!;
@@ -81,6 +82,16 @@ export async function GET(request: NextRequest) {
       throw new Error(result.error_description || 'Failed to get access token');
     }
 
+    // Remember the account's tokens so webhook notifications can act on its behalf
+    if (result.account_id) {
+      await accountStore.saveAccount({
+        accountId: result.account_id,
+        accessToken: result.access_token,
+        refreshToken: result.refresh_token,
+        expiresAt: Date.now() + (result.expires_in || 14400) * 1000
+      });
+    }
+
     // Create response with redirect
     const redirectResponse = NextResponse.redirect(
       `${process.env.FRONTEND_ORIGIN || 'http://localhost:3000'}/dashboard`
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { changeTracker, getWatchedFolders, WatchedFolder } from '@/lib/change-tracker';
+
+// GET: Entries added/modified/deleted since the last sync of each watched folder
+export async function GET(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const folder = searchParams.get('folder');
+    const peek = searchParams.get('peek') === 'true';
+
+    const folders: WatchedFolder[] = folder
+      ? [{ path: folder, recursive: searchParams.get('recursive') === 'true' }]
+      : getWatchedFolders();
+
+    const storage = createStorageProvider(authTokens.access_token);
+    const changes = [];
+
+    for (const watched of folders) {
+      changes.push(await changeTracker.getChanges(storage, watched, { peek }));
+    }
+
+    return NextResponse.json({
+      changes,
+      summary: {
+        folders: changes.length,
+        added: changes.reduce((sum, c) => sum + c.added.length, 0),
+        modified: changes.reduce((sum, c) => sum + c.modified.length, 0),
+        deleted: changes.reduce((sum, c) => sum + c.deleted.length, 0)
+      }
+    }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error fetching changes:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch changes' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+// DELETE: Forget the cursor for a folder so the next sync starts from a full listing
+export async function DELETE(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const folder = request.nextUrl.searchParams.get('folder');
+    if (!folder) {
+      return NextResponse.json({ error: 'folder is required' }, { status: 400, headers: getCorsHeaders() });
+    }
+
+    await changeTracker.resetFolder(createStorageProvider(authTokens.access_token), folder);
+
+    return NextResponse.json({ message: `Reset sync state for ${folder}` }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error resetting changes:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to reset sync state' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
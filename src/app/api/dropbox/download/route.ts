@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
+import { createStorageProvider } from '@/lib/storage';
 import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
 
 export async function GET(request: NextRequest) {
@@ -17,8 +18,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Path is required' }, { status: 400, headers: getCorsHeaders() });
     }
 
-    const dropboxService = new DropboxService(authTokens.access_token);
-    const fileBuffer = await dropboxService.downloadFile(path);
+    const storage = createStorageProvider(authTokens.access_token);
+    const fileBuffer = await storage.downloadFile(path);
 
     // Determine content type based on file extension
     const extension = path.split('.').pop()?.toLowerCase();
@@ -41,7 +42,7 @@ export async function GET(request: NextRequest) {
     console.error('Error downloading file:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to download file' },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider, RelocationPair } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { activityLogger, createBatchId } from '@/lib/activity-log';
+import { chooseKeeper, duplicatesPathFor, DuplicateFile, findDuplicates, KeepStrategy } from '@/lib/duplicates';
+
+interface DuplicateResolution {
+  contentHash: string;
+  kept: string;
+  originalPath: string;
+  newPath: string;
+  status: 'success' | 'error';
+  message?: string;
+}
+
+// POST: Find files with identical content (Dropbox content_hash) anywhere under
+// the music base path. With action 'resolve', keep one copy per group and move
+// the others to the _Duplicates folder.
+export async function POST(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { action = 'preview', keep = 'oldest', contentHashes } = await request.json();
+    if (keep !== 'oldest' && keep !== 'canonical') {
+      return NextResponse.json(
+        { error: "keep must be 'oldest' or 'canonical'" },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const storage = createStorageProvider(authTokens.access_token);
+    const scan = await findDuplicates(storage);
+    const strategy: KeepStrategy = keep;
+
+    // Optionally limit resolving to the groups the user picked from a preview
+    const selected = Array.isArray(contentHashes) ? new Set<string>(contentHashes) : null;
+    const groups = scan.groups
+      .filter(group => !selected || selected.has(group.contentHash))
+      .map(group => ({ ...group, keep: chooseKeeper(group, strategy).path }));
+
+    console.log(`Found ${scan.groups.length} duplicate groups in ${scan.filesScanned} files`);
+
+    const resolutions: DuplicateResolution[] = [];
+    const batchId = createBatchId();
+
+    if (action === 'resolve') {
+      const moves: (RelocationPair & { contentHash: string; kept: DuplicateFile })[] = [];
+      for (const group of groups) {
+        const kept = group.files.find(file => file.path === group.keep)!;
+        for (const file of group.files) {
+          if (file === kept) continue;
+          moves.push({ fromPath: file.path, toPath: duplicatesPathFor(file.path), contentHash: group.contentHash, kept });
+        }
+      }
+
+      const outcomes = await storage.moveFiles(moves.map(({ fromPath, toPath }) => ({ fromPath, toPath })));
+
+      for (const [index, outcome] of outcomes.entries()) {
+        const { fromPath, toPath, contentHash, kept } = moves[index];
+
+        if (outcome.status === 'error') {
+          console.error(`Error moving duplicate ${fromPath}:`, outcome.error);
+          resolutions.push({
+            contentHash,
+            kept: kept.path,
+            originalPath: fromPath,
+            newPath: toPath,
+            status: 'error',
+            message: outcome.error || 'Failed to move'
+          });
+          continue;
+        }
+
+        const newPath = outcome.metadata?.path_display || toPath;
+        resolutions.push({
+          contentHash,
+          kept: kept.path,
+          originalPath: fromPath,
+          newPath,
+          status: 'success',
+          message: `Duplicate of ${kept.path}`
+        });
+
+        await activityLogger.logActivity({
+          action: 'move',
+          filePath: newPath,
+          oldPath: fromPath,
+          newPath,
+          batchId,
+          details: {
+            originalName: fromPath.split('/').pop(),
+            newName: outcome.metadata?.name,
+            category: 'Duplicates',
+            duplicateOf: kept.path,
+            fileSize: kept.size,
+            contentHash
+          }
+        });
+      }
+    }
+
+    const successCount = resolutions.filter(r => r.status === 'success').length;
+    const errorCount = resolutions.filter(r => r.status === 'error').length;
+    const redundantCopies = groups.reduce((sum, group) => sum + group.files.length - 1, 0);
+    const redundantBytes = groups.reduce((sum, group) => sum + group.size * (group.files.length - 1), 0);
+
+    return NextResponse.json({
+      message: action === 'resolve'
+        ? `Moved ${successCount} duplicate copies to _Duplicates (${errorCount} errors)`
+        : `Found ${redundantCopies} duplicate copies in ${groups.length} groups`,
+      groups,
+      batchId: action === 'resolve' ? batchId : undefined,
+      resolutions,
+      summary: {
+        groups: groups.length,
+        duplicates: redundantCopies,
+        redundantBytes,
+        filesScanned: scan.filesScanned,
+        success: successCount,
+        errors: errorCount
+      },
+      listing: scan.listing
+    }, { headers: getCorsHeaders() });
+
+  } catch (error) {
+    console.error('Duplicate scan error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Duplicate scan failed' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
+import { createStorageProvider } from '@/lib/storage';
 import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
 
+const DEFAULT_LISTING_LIMIT = 5000;
+
 // GET: List files
 export async function GET(request: NextRequest) {
   try {
@@ -13,19 +16,24 @@ export async function GET(request: NextRequest) {
 
     const searchParams = request.nextUrl.searchParams;
     const path = searchParams.get('path') || '';
+    const recursive = searchParams.get('recursive') === 'true';
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_LISTING_LIMIT), 10);
 
-    const dropboxService = new DropboxService(authTokens.access_token);
-    const files = await dropboxService.listFiles(path);
+    const storage = createStorageProvider(authTokens.access_token);
+    const { entries: files, truncated } = await storage.listAllFiles(path, { recursive, limit });
 
-    return NextResponse.json({ files }, { headers: getCorsHeaders() });
+    return NextResponse.json({
+      files,
+      listing: { limit, returned: files.length, truncated }
+    }, { headers: getCorsHeaders() });
   } catch (error: any) {
     console.error('Error listing files:', error);
     return NextResponse.json(
       {
-        error: error.error?.error_summary || error.message || 'Failed to list files',
-        details: error.error || error
+        error: error.message || 'Failed to list files',
+        details: error.details || error.summary
       },
-      { status: error.status || 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -46,18 +54,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'File and path are required' }, { status: 400, headers: getCorsHeaders() });
     }
 
-    const dropboxService = new DropboxService(authTokens.access_token);
+    const storage = createStorageProvider(authTokens.access_token);
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
-    const result = await dropboxService.uploadFile(path, buffer);
+    const result = await storage.uploadFile(path, buffer);
 
     return NextResponse.json({ success: true, file: result }, { headers: getCorsHeaders() });
   } catch (error: any) {
     console.error('Error uploading file:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to upload file' },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
-import { getCorsHeaders } from '@/lib/config';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders, MUSIC_ACTIVE_YEAR } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
-import { activityLogger } from '@/lib/activity-log';
+import { activityLogger, createBatchId } from '@/lib/activity-log';
+import { yearFolderFor } from '@/lib/year-folders';
 
 interface MigrationResult {
   fileName: string;
@@ -23,22 +25,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const dropboxService = new DropboxService(authTokens.access_token);
+    const storage = createStorageProvider(authTokens.access_token);
     const basePath = process.env.MUSIC_BASE_PATH || '/Music/Fiasco Total';
-    const yearFolder = '2025';
+    // Year folder to clean up; each file lands in the year it was recorded in
+    const yearFolder = request.nextUrl.searchParams.get('year') || MUSIC_ACTIVE_YEAR;
     const sourcePath = `${basePath}/Live Recordings/${yearFolder}`;
 
     const results: MigrationResult[] = [];
+    const planned: MigrationResult[] = [];
+    const batchId = createBatchId();
 
     console.log(`🔄 Starting migration from ${sourcePath}`);
 
-    // List all files in the 2025 folder
-    const filesResponse = await dropboxService.listFiles(sourcePath);
+    // List all files in the year folder
+    const filesResponse = await storage.listFiles(sourcePath);
     const files = filesResponse.filter((entry: any) => entry['.tag'] === 'file');
 
     if (files.length === 0) {
       return NextResponse.json({
-        message: 'No files to migrate in 2025 folder',
+        message: `No files to migrate in ${yearFolder} folder`,
         results: []
       }, { headers: getCorsHeaders() });
     }
@@ -71,16 +76,17 @@ export async function POST(request: NextRequest) {
 
     // Process each date group
     for (const [dateKey, dateFiles] of filesByDate) {
-      const dateFolderPath = `${basePath}/Live Recordings/${dateKey}`;
+      const dateFolderPath = `${basePath}/Live Recordings/${yearFolderFor(dateKey)}/${dateKey}`;
 
       // Create the date folder
       try {
         console.log(`📁 Creating folder: ${dateFolderPath}`);
-        await dropboxService.createFolder(dateFolderPath);
+        await storage.createFolder(dateFolderPath);
 
         await activityLogger.logActivity({
           action: 'create_folder',
           filePath: dateFolderPath,
+          batchId,
           details: {
             folderCreated: dateKey,
             dateSource: 'migration',
@@ -98,48 +104,55 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Move files to the date folder
+      // Plan the moves; they run as one batch once every folder exists
       for (const file of dateFiles) {
-        const fileName = file.name;
-        const oldPath = file.path_display;
-        const newPath = `${dateFolderPath}/${fileName}`;
-
-        try {
-          console.log(`📦 Moving: ${fileName} -> ${dateKey}/`);
-          await dropboxService.moveFile(oldPath, newPath);
-
-          await activityLogger.logActivity({
-            action: 'migrate',
-            filePath: newPath,
-            oldPath: oldPath,
-            details: {
-              fileName,
-              dateFolder: dateKey,
-              migration: 'one-time-2025-cleanup'
-            }
-          });
-
-          results.push({
-            fileName,
-            originalPath: oldPath,
-            newPath,
-            status: 'success',
-            dateFolder: dateKey,
-            message: `Moved to ${dateKey} folder`
-          });
-
-          console.log(`✅ Moved: ${fileName}`);
-        } catch (error: any) {
-          console.error(`Failed to move ${fileName}:`, error);
-          results.push({
-            fileName,
-            originalPath: oldPath,
-            newPath,
-            status: 'error',
-            message: error.message || 'Failed to move file'
-          });
-        }
+        planned.push({
+          fileName: file.name,
+          originalPath: file.path_display,
+          newPath: `${dateFolderPath}/${file.name}`,
+          status: 'success',
+          dateFolder: dateKey
+        });
+      }
+    }
+
+    console.log(`📦 Moving ${planned.length} files`);
+    const outcomes = await storage.moveFiles(
+      planned.map(result => ({ fromPath: result.originalPath, toPath: result.newPath }))
+    );
+
+    for (const [index, outcome] of outcomes.entries()) {
+      const result = planned[index];
+
+      if (outcome.status === 'error') {
+        console.error(`Failed to move ${result.fileName}:`, outcome.error);
+        results.push({
+          ...result,
+          status: 'error',
+          message: outcome.error || 'Failed to move file',
+          dateFolder: undefined
+        });
+        continue;
       }
+
+      const newPath = outcome.metadata?.path_display || result.newPath;
+
+      await activityLogger.logActivity({
+        action: 'migrate',
+        filePath: newPath,
+        oldPath: result.originalPath,
+        newPath,
+        batchId,
+        details: {
+          fileName: result.fileName,
+          dateFolder: result.dateFolder,
+          migration: `one-time-${yearFolder}-cleanup`,
+          contentHash: outcome.metadata && 'content_hash' in outcome.metadata ? outcome.metadata.content_hash : undefined
+        }
+      });
+
+      results.push({ ...result, newPath, message: `Moved to ${result.dateFolder} folder` });
+      console.log(`✅ Moved: ${result.fileName}`);
     }
 
     const successCount = results.filter(r => r.status === 'success').length;
@@ -148,6 +161,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       message: `Migration complete: ${successCount} files moved, ${errorCount} errors`,
       results,
+      batchId,
       summary: {
         total: files.length,
         success: successCount,
@@ -160,7 +174,7 @@ export async function POST(request: NextRequest) {
     console.error('Migration error:', error);
     return NextResponse.json(
       { error: error.message || 'Migration failed' },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
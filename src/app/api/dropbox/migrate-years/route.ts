@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider, StorageProvider } from '@/lib/storage';
+import { getCorsHeaders, MUSIC_BASE_PATH } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { activityLogger, createBatchId } from '@/lib/activity-log';
+import { listYearFolders, yearFromDate, YEAR_SPLIT_FOLDERS } from '@/lib/year-folders';
+
+// Upper bound on entries read from each year folder in one run
+const LISTING_LIMIT = 5000;
+
+// Only folders the organizers create are moved; cluster folders carry the
+// date they were renamed on, not the recording date
+const DATE_FOLDER_PATTERN = /^\d{4}\.\d{2}\.\d{2}$/;
+
+interface YearMigrationResult {
+  name: string;
+  category: string;
+  kind: 'file' | 'folder';
+  originalPath: string;
+  newPath: string;
+  fromYear: string;
+  toYear: string;
+  status: 'success' | 'error';
+  message?: string;
+  // Set when a date folder already existed in the right year and its files were moved into it
+  mergedInto?: string;
+}
+
+/**
+ * Dated entries of a year folder whose date belongs to another year
+ */
+async function findMisfiled(
+  storage: StorageProvider,
+  category: string,
+  year: string,
+  listing: { returned: number; truncated: boolean }
+): Promise<YearMigrationResult[]> {
+  const categoryPath = `${MUSIC_BASE_PATH}/${category}`;
+  const listingResult = await storage.listAllFiles(`${categoryPath}/${year}`, { limit: LISTING_LIMIT });
+  listing.returned += listingResult.entries.length;
+  listing.truncated = listing.truncated || listingResult.truncated;
+
+  const misfiled: YearMigrationResult[] = [];
+
+  for (const entry of listingResult.entries) {
+    const isDatedFile = entry['.tag'] === 'file' && /^\d{8}[_-]/.test(entry.name);
+    const isDateFolder = entry['.tag'] === 'folder' && DATE_FOLDER_PATTERN.test(entry.name);
+    if (!isDatedFile && !isDateFolder) continue;
+
+    const recordedYear = yearFromDate(entry.name);
+    if (!recordedYear || recordedYear === year) continue;
+
+    misfiled.push({
+      name: entry.name,
+      category,
+      kind: isDateFolder ? 'folder' : 'file',
+      originalPath: entry.path_display!,
+      newPath: `${categoryPath}/${recordedYear}/${entry.name}`,
+      fromYear: year,
+      toYear: recordedYear,
+      status: 'success',
+      message: `Would move from ${year} to ${recordedYear}`
+    });
+  }
+
+  return misfiled;
+}
+
+// POST: Move dated files and date folders that sit in the wrong year folder
+// to the year they were recorded in, across every category
+export async function POST(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401, headers: getCorsHeaders() }
+      );
+    }
+
+    const { action = 'preview' } = await request.json();
+    const storage = createStorageProvider(authTokens.access_token);
+
+    const results: YearMigrationResult[] = [];
+    const batchId = createBatchId();
+    const listing = { limit: LISTING_LIMIT, returned: 0, truncated: false };
+    // Existing year folder contents, so a misfiled date folder can be merged instead of autorenamed
+    const yearContents = new Map<string, Promise<Set<string>>>();
+
+    for (const category of YEAR_SPLIT_FOLDERS) {
+      const years = await listYearFolders(storage, `${MUSIC_BASE_PATH}/${category}`);
+      for (const year of years) {
+        results.push(...await findMisfiled(storage, category, year, listing));
+      }
+    }
+
+    console.log(`Found ${results.length} misfiled entries across year folders`);
+
+    if (action === 'migrate' && results.length > 0) {
+      const moves: { result: YearMigrationResult; fromPath: string; toPath: string }[] = [];
+      const mergedFolders: YearMigrationResult[] = [];
+
+      for (const result of results) {
+        if (result.kind === 'folder') {
+          const targetYearPath = `${MUSIC_BASE_PATH}/${result.category}/${result.toYear}`;
+          if (!yearContents.has(targetYearPath)) {
+            yearContents.set(targetYearPath, storage.listFiles(targetYearPath)
+              .then(entries => new Set(entries.map(entry => entry.name)))
+              .catch(() => new Set<string>()));
+          }
+
+          if ((await yearContents.get(targetYearPath)!).has(result.name)) {
+            // The date folder exists in both years: move the files, not the folder
+            const contents = await storage.listFiles(result.originalPath);
+            for (const entry of contents) {
+              moves.push({
+                result,
+                fromPath: entry.path_display!,
+                toPath: `${result.newPath}/${entry.name}`
+              });
+            }
+            result.mergedInto = result.newPath;
+            mergedFolders.push(result);
+            continue;
+          }
+        }
+        moves.push({ result, fromPath: result.originalPath, toPath: result.newPath });
+      }
+
+      const outcomes = await storage.moveFiles(moves.map(({ fromPath, toPath }) => ({ fromPath, toPath })));
+
+      for (const [index, outcome] of outcomes.entries()) {
+        const { result, fromPath } = moves[index];
+
+        if (outcome.status === 'error') {
+          console.error(`Error moving ${fromPath}:`, outcome.error);
+          result.status = 'error';
+          result.message = outcome.error || 'Failed to move';
+          continue;
+        }
+
+        const newPath = outcome.metadata?.path_display || moves[index].toPath;
+        if (!result.mergedInto) {
+          result.newPath = newPath;
+        }
+        if (result.status === 'success') {
+          result.message = `Moved from ${result.fromYear} to ${result.toYear}`;
+        }
+
+        await activityLogger.logActivity({
+          action: 'move',
+          filePath: newPath,
+          oldPath: fromPath,
+          newPath,
+          batchId,
+          details: {
+            originalName: fromPath.split('/').pop(),
+            newName: outcome.metadata?.name,
+            category: result.category,
+            contentHash: outcome.metadata && 'content_hash' in outcome.metadata ? outcome.metadata.content_hash : undefined
+          }
+        });
+      }
+
+      // Merged date folders are empty now; drop them so they are not picked up again
+      for (const result of mergedFolders) {
+        if (result.status !== 'success') continue;
+        try {
+          await storage.deleteFile(result.originalPath);
+        } catch (error) {
+          console.error(`Error removing merged folder ${result.originalPath}:`, error);
+        }
+      }
+    }
+
+    const successCount = results.filter(r => r.status === 'success').length;
+    const errorCount = results.filter(r => r.status === 'error').length;
+
+    return NextResponse.json({
+      message: action === 'migrate'
+        ? `Moved ${successCount} misfiled entries to their recording year (${errorCount} errors)`
+        : `Found ${results.length} entries filed under the wrong year`,
+      results,
+      batchId: action === 'migrate' ? batchId : undefined,
+      summary: {
+        total: results.length,
+        success: successCount,
+        errors: errorCount
+      },
+      listing
+    }, { headers: getCorsHeaders() });
+
+  } catch (error) {
+    console.error('Year migration error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Year migration failed' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
+import { createStorageProvider, StorageEntry } from '@/lib/storage';
 import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
-import { activityLogger } from '@/lib/activity-log';
+import { activityLogger, createBatchId } from '@/lib/activity-log';
+import { listYearFolders, yearFolderFor } from '@/lib/year-folders';
+
+// Upper bound on entries read from each year folder in one run
+const LISTING_LIMIT = 5000;
 
 interface OrganizeResult {
   fileName: string;
@@ -40,30 +45,43 @@ export async function POST(request: NextRequest) {
     }
 
     const { action } = await request.json();
-    const dropboxService = new DropboxService(authTokens.access_token);
+    const storage = createStorageProvider(authTokens.access_token);
 
     const basePath = process.env.MUSIC_BASE_PATH || '/Music/Fiasco Total';
-    const activeYear = process.env.MUSIC_ACTIVE_YEAR || '2025';
-    const liveRecordingsPath = `${basePath}/Live Recordings/${activeYear}`;
+    const liveRecordingsPath = `${basePath}/Live Recordings`;
 
     const results: OrganizeResult[] = [];
-
-    // Get all files and folders in Live Recordings/2025
-    const filesResponse = await dropboxService.listFiles(liveRecordingsPath);
-    const audioFiles = filesResponse.filter((entry: any) =>
-      entry['.tag'] === 'file' && isAudioFile(entry.name)
-    );
-    const existingFolders = filesResponse
-      .filter((entry: any) => entry['.tag'] === 'folder')
-      .map((folder: any) => folder.name);
+    const planned: OrganizeResult[] = [];
+    const batchId = createBatchId();
+
+    // Loose recordings can sit in any year folder; each goes to the year it was recorded in
+    const years = await listYearFolders(storage, liveRecordingsPath);
+    const audioFiles: StorageEntry[] = [];
+    const existingFolders = new Map<string, Set<string>>();
+    const listing = { limit: LISTING_LIMIT, returned: 0, truncated: false };
+
+    for (const year of years) {
+      const listingResult = await storage.listAllFiles(`${liveRecordingsPath}/${year}`, { limit: LISTING_LIMIT });
+      const filesResponse = listingResult.entries;
+      listing.returned += filesResponse.length;
+      listing.truncated = listing.truncated || listingResult.truncated;
+
+      audioFiles.push(...filesResponse.filter((entry: any) =>
+        entry['.tag'] === 'file' && isAudioFile(entry.name)
+      ));
+      existingFolders.set(year, new Set(filesResponse
+        .filter((entry: any) => entry['.tag'] === 'folder')
+        .map((folder: any) => folder.name)));
+    }
 
     console.log(`Found ${audioFiles.length} audio files to organize`);
-    console.log(`Existing folders: ${existingFolders.join(', ')}`);
+    console.log(`Year folders: ${years.join(', ')}`);
 
     if (audioFiles.length === 0) {
       return NextResponse.json({
         message: 'No audio files to organize in Live Recordings folder',
-        organized: 0
+        organized: 0,
+        listing
       }, { headers: getCorsHeaders() });
     }
 
@@ -95,19 +113,21 @@ export async function POST(request: NextRequest) {
 
     // Process each date group
     for (const [date, files] of Object.entries(filesByDate)) {
-      const dateFolderPath = `${liveRecordingsPath}/${date}`;
+      const year = yearFolderFor(date);
+      const dateFolderPath = `${liveRecordingsPath}/${year}/${date}`;
       let folderCreated = false;
 
       // Check if date folder already exists
-      if (!existingFolders.includes(date)) {
+      if (!existingFolders.get(year)?.has(date)) {
         try {
           if (action === 'organize') {
-            await dropboxService.createFolder(dateFolderPath);
+            await storage.createFolder(dateFolderPath);
 
             // Log folder creation
             await activityLogger.logActivity({
               action: 'create_folder',
               filePath: dateFolderPath,
+              batchId,
               details: {
                 folderCreated: date,
                 dateSource: 'filename-extraction',
@@ -124,65 +144,62 @@ export async function POST(request: NextRequest) {
         }
       }
 
-      // Move files to date folder
+      // Plan the moves into the date folder; they run as one batch below
       for (const file of files) {
-        const newPath = `${dateFolderPath}/${file.name}`;
+        const result: OrganizeResult = {
+          fileName: file.name,
+          originalPath: file.path_display,
+          newPath: `${dateFolderPath}/${file.name}`,
+          extractedDate: date,
+          folderCreated,
+          status: 'success',
+          message: `Would move to ${date} folder`
+        };
+        results.push(result);
+        if (action === 'organize') {
+          planned.push(result);
+        }
+      }
+    }
 
-        try {
-          if (action === 'preview') {
-            results.push({
-              fileName: file.name,
-              originalPath: file.path_display,
-              newPath,
-              extractedDate: date,
-              folderCreated,
-              status: 'success',
-              message: `Would move to ${date} folder`
-            });
-          } else if (action === 'organize') {
-            await dropboxService.moveFile(file.path_display, newPath);
+    if (planned.length > 0) {
+      const outcomes = await storage.moveFiles(
+        planned.map(result => ({ fromPath: result.originalPath, toPath: result.newPath }))
+      );
 
-            // Log the move operation
-            await activityLogger.logActivity({
-              action: 'organize',
-              filePath: newPath,
-              oldPath: file.path_display,
-              newPath: newPath,
-              details: {
-                originalName: file.name,
-                newName: file.name,
-                category: 'live-recording-organization',
-                dateSource: 'filename-extraction',
-                detectedDate: date,
-                folderCreated: folderCreated ? date : undefined
-              }
-            });
+      for (const [index, outcome] of outcomes.entries()) {
+        const result = planned[index];
 
-            results.push({
-              fileName: file.name,
-              originalPath: file.path_display,
-              newPath,
-              extractedDate: date,
-              folderCreated,
-              status: 'success',
-              message: `Moved to ${date} folder`
-            });
+        if (outcome.status === 'error') {
+          console.error(`Error moving ${result.fileName}:`, outcome.error);
+          result.status = 'error';
+          result.message = outcome.error || 'Failed to move file';
+          continue;
+        }
 
-            console.log(`Moved ${file.name} to ${newPath}`);
+        result.newPath = outcome.metadata?.path_display || result.newPath;
+        result.message = `Moved to ${result.extractedDate} folder`;
+
+        // Log the move operation
+        await activityLogger.logActivity({
+          action: 'organize',
+          filePath: result.newPath,
+          oldPath: result.originalPath,
+          newPath: result.newPath,
+          batchId,
+          details: {
+            originalName: result.fileName,
+            newName: result.fileName,
+            category: 'live-recording-organization',
+            dateSource: 'filename-extraction',
+            detectedDate: result.extractedDate,
+            folderCreated: result.folderCreated ? result.extractedDate : undefined,
+            contentHash: outcome.metadata && 'content_hash' in outcome.metadata ? outcome.metadata.content_hash : undefined
           }
-        } catch (error: any) {
-          console.error(`Error moving ${file.name}:`, error);
-          results.push({
-            fileName: file.name,
-            originalPath: file.path_display,
-            newPath,
-            extractedDate: date,
-            folderCreated,
-            status: 'error',
-            message: error.message || 'Failed to move file'
-          });
-        }
+        });
       }
+
+      console.log(`Moved ${outcomes.filter(o => o.status === 'success').length} of ${planned.length} files`);
     }
 
     const successCount = results.filter(r => r.status === 'success').length;
@@ -197,19 +214,21 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       message,
       results,
+      batchId: action === 'organize' ? batchId : undefined,
       organized: successCount,
       errors: errorCount,
       skipped: skippedCount,
       foldersCreated: foldersCreatedCount,
       totalFiles: audioFiles.length,
-      dateGroups: Object.keys(filesByDate).length
+      dateGroups: Object.keys(filesByDate).length,
+      listing
     }, { headers: getCorsHeaders() });
 
   } catch (error: any) {
     console.error('Error organizing live recordings:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to organize live recordings' },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
+import { createStorageProvider } from '@/lib/storage';
 import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
 
 export async function GET(request: NextRequest) {
@@ -17,15 +18,15 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Path is required' }, { status: 400, headers: getCorsHeaders() });
     }
 
-    const dropboxService = new DropboxService(authTokens.access_token);
-    const previewUrl = await dropboxService.getTemporaryLink(path);
+    const storage = createStorageProvider(authTokens.access_token);
+    const previewUrl = await storage.getTemporaryLink(path);
 
     return NextResponse.json({ previewUrl }, { headers: getCorsHeaders() });
   } catch (error: any) {
     console.error('Error getting preview:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to get preview URL' },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -1,8 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
+import { createStorageProvider } from '@/lib/storage';
 import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
-import { activityLogger } from '@/lib/activity-log';
+import { activityLogger, createBatchId } from '@/lib/activity-log';
+
+interface RenameResult {
+  oldName: string;
+  newName?: string;
+  oldPath?: string;
+  newPath?: string;
+  status: 'success' | 'no_change' | 'error';
+  filesAnalyzed?: number;
+  error?: string;
+}
 
 // Helper function to generate new cluster folder name based on contents
 function generateClusterFolderNameFromContents(files: string[]): string {
@@ -104,10 +115,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const dropboxService = new DropboxService(authTokens.access_token);
+    const storage = createStorageProvider(authTokens.access_token);
 
     // Get all files and folders in the directory
-    const entries = await dropboxService.listFiles(folderPath);
+    const entries = await storage.listFiles(folderPath);
 
     // Find cluster folders (those starting with "cluster_")
     const clusterFolders = entries.filter((entry: any) =>
@@ -116,14 +127,16 @@ export async function POST(request: NextRequest) {
 
     console.log(`Found ${clusterFolders.length} cluster folders to rename`);
 
-    const renameResults = [];
+    const renameResults: RenameResult[] = [];
+    const planned: RenameResult[] = [];
+    const batchId = createBatchId();
 
     for (const folder of clusterFolders) {
       try {
         const oldPath = `${folderPath}/${folder.name}`;
 
         // Get the contents of the cluster folder
-        const folderContents = await dropboxService.listFiles(oldPath);
+        const folderContents = await storage.listFiles(oldPath);
         const fileNames = folderContents
           .filter((entry: any) => entry['.tag'] === 'file')
           .map((entry: any) => entry.name);
@@ -136,19 +149,17 @@ export async function POST(request: NextRequest) {
 
         // Check if new name is different from old name
         if (newFolderName !== folder.name) {
-          // Rename the folder
-          await dropboxService.moveFile(oldPath, newPath);
-
-          renameResults.push({
+          // Renamed together in one batch below
+          const result: RenameResult = {
             oldName: folder.name,
             newName: newFolderName,
             oldPath,
             newPath,
             status: 'success',
             filesAnalyzed: fileNames.length
-          });
-
-          console.log(`Renamed: ${folder.name} → ${newFolderName}`);
+          };
+          renameResults.push(result);
+          planned.push(result);
         } else {
           renameResults.push({
             oldName: folder.name,
@@ -159,7 +170,7 @@ export async function POST(request: NextRequest) {
         }
 
       } catch (error) {
-        console.error(`Error renaming folder ${folder.name}:`, error);
+        console.error(`Error analyzing folder ${folder.name}:`, error);
         renameResults.push({
           oldName: folder.name,
           status: 'error',
@@ -168,10 +179,43 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (planned.length > 0) {
+      const outcomes = await storage.moveFiles(
+        planned.map(result => ({ fromPath: result.oldPath!, toPath: result.newPath! }))
+      );
+
+      for (const [index, outcome] of outcomes.entries()) {
+        const result = planned[index];
+        if (outcome.status === 'error') {
+          console.error(`Error renaming folder ${result.oldName}:`, outcome.error);
+          result.status = 'error';
+          result.error = outcome.error || 'Unknown error';
+          continue;
+        }
+        // Autorename may have picked a different name if the target existed
+        result.newPath = outcome.metadata?.path_display || result.newPath;
+        result.newName = outcome.metadata?.name || result.newName;
+        console.log(`Renamed: ${result.oldName} → ${result.newName}`);
+
+        await activityLogger.logActivity({
+          action: 'rename',
+          filePath: result.newPath!,
+          oldPath: result.oldPath,
+          newPath: result.newPath,
+          batchId,
+          details: {
+            originalName: result.oldName,
+            newName: result.newName
+          }
+        });
+      }
+    }
+
     // Log the activity
     await activityLogger.logActivity({
       action: 'rename_cluster_folders',
       filePath: folderPath,
+      batchId,
       details: {
         foldersProcessed: clusterFolders.length,
         successfulRenames: renameResults.filter(r => r.status === 'success').length,
@@ -182,6 +226,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       message: `Processed ${clusterFolders.length} cluster folders`,
       results: renameResults,
+      batchId,
       summary: {
         total: clusterFolders.length,
         renamed: renameResults.filter(r => r.status === 'success').length,
@@ -197,7 +242,7 @@ export async function POST(request: NextRequest) {
         error: 'Failed to rename cluster folders',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
+import { createStorageProvider } from '@/lib/storage';
 import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
-import { activityLogger } from '@/lib/activity-log';
+import { activityLogger, createBatchId } from '@/lib/activity-log';
 
 export async function POST(request: NextRequest) {
   try {
@@ -23,26 +24,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const dropboxService = new DropboxService(authTokens.access_token);
+    const storage = createStorageProvider(authTokens.access_token);
 
     // Rename the folder/file
-    await dropboxService.moveFile(oldPath, newPath);
+    const moved = await storage.moveFile(oldPath, newPath);
+    const renamedTo = moved.metadata.path_display || newPath;
+    // A batch of one, so the rename can be undone from the timeline
+    const batchId = createBatchId();
 
     // Log the activity
     await activityLogger.logActivity({
       action: 'rename_folder',
-      filePath: newPath,
+      filePath: renamedTo,
+      oldPath,
+      newPath: renamedTo,
+      batchId,
       details: {
         oldPath,
-        newPath,
-        type: 'folder_rename'
+        newPath: renamedTo,
+        type: 'folder_rename',
+        contentHash: 'content_hash' in moved.metadata ? moved.metadata.content_hash : undefined
       }
     });
 
     return NextResponse.json({
       message: 'Successfully renamed',
       oldPath,
-      newPath
+      newPath: renamedTo,
+      batchId
     }, { headers: getCorsHeaders() });
 
   } catch (error) {
@@ -52,7 +61,7 @@ export async function POST(request: NextRequest) {
         error: 'Failed to rename',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
+import { createStorageProvider } from '@/lib/storage';
 import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
-import { activityLogger } from '@/lib/activity-log';
+import { activityLogger, createBatchId } from '@/lib/activity-log';
+import { listYearFolders, YEAR_SPLIT_FOLDERS } from '@/lib/year-folders';
 
 interface RestoreResult {
   fileName: string;
@@ -29,30 +31,28 @@ export async function POST(request: NextRequest) {
     }
 
     const { action } = await request.json();
-    const dropboxService = new DropboxService(authTokens.access_token);
+    const storage = createStorageProvider(authTokens.access_token);
 
     const basePath = process.env.MUSIC_BASE_PATH || '/Music/Fiasco Total';
-    const activeYear = process.env.MUSIC_ACTIVE_YEAR || '2025';
     const newUploadsPath = `${basePath}/New Uploads`;
 
     const results: RestoreResult[] = [];
-
-    // Define all the folders where processed files might be
-    const targetFolders = [
-      `${basePath}/Songs/${activeYear}`,
-      `${basePath}/Song Ideas/${activeYear}`,
-      `${basePath}/Live Recordings/${activeYear}`,
-      `${basePath}/Lyrics/${activeYear}`,
-      `${basePath}/Sheet Music/${activeYear}`,
-      `${basePath}/Media/${activeYear}`
-    ];
+    const batchId = createBatchId();
+
+    // Processed files can be in any year folder of any category
+    const targetFolders: string[] = [];
+    for (const category of YEAR_SPLIT_FOLDERS) {
+      const categoryPath = `${basePath}/${category}`;
+      const years = await listYearFolders(storage, categoryPath);
+      targetFolders.push(...years.map(year => `${categoryPath}/${year}`));
+    }
 
     let totalFilesFound = 0;
 
     for (const folderPath of targetFolders) {
       try {
         console.log(`Checking folder: ${folderPath}`);
-        const filesResponse = await dropboxService.listFiles(folderPath);
+        const filesResponse = await storage.listFiles(folderPath);
         const files = filesResponse.filter((entry: any) => entry['.tag'] === 'file');
 
         for (const file of files) {
@@ -78,17 +78,21 @@ export async function POST(request: NextRequest) {
                 });
               } else if (action === 'restore') {
                 // Actually move the file back
-                await dropboxService.moveFile(currentPath, restoredPath);
+                const moved = await storage.moveFile(currentPath, restoredPath);
+                // Autorename picks another name when the original is taken
+                const restoredTo = moved.metadata.path_display || restoredPath;
 
                 // Log the activity
                 await activityLogger.logActivity({
                   action: 'restore',
-                  filePath: restoredPath,
+                  filePath: restoredTo,
                   oldPath: currentPath,
-                  newPath: restoredPath,
+                  newPath: restoredTo,
+                  batchId,
                   details: {
                     originalName: currentName,
-                    newName: originalName
+                    newName: originalName,
+                    contentHash: 'content_hash' in moved.metadata ? moved.metadata.content_hash : undefined
                   }
                 });
 
@@ -136,6 +140,7 @@ export async function POST(request: NextRequest) {
         ? `Found ${processedFiles.length} processed files to restore (${skippedFiles.length} skipped, ${totalFilesFound} total files scanned)`
         : `Restored ${processedFiles.length} files to New Uploads (${errorFiles.length} errors, ${skippedFiles.length} skipped)`,
       results,
+      batchId: action === 'restore' ? batchId : undefined,
       restored: processedFiles.length,
       errors: errorFiles.length,
       skipped: skippedFiles.length,
@@ -146,7 +151,7 @@ export async function POST(request: NextRequest) {
     console.error('Error restoring uploads:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to restore uploads' },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
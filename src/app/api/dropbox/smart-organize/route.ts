@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DropboxService } from '@/lib/dropbox';
+import { createStorageProvider } from '@/lib/storage';
 import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
 import { getAuthFromCookies } from '@/lib/session';
 
+// Upper bound on entries analyzed per request
+const LISTING_LIMIT = 2000;
+
 interface GroupedFiles {
   groupName: string;
   folderPath: string;
@@ -24,8 +28,9 @@ export async function POST(request: NextRequest) {
     }
 
     const { path, strategy = 'all' } = await request.json();
-    const dropboxService = new DropboxService(authTokens.access_token);
-    const files = await dropboxService.listFiles(path);
+    const storage = createStorageProvider(authTokens.access_token);
+    const listingResult = await storage.listAllFiles(path, { limit: LISTING_LIMIT });
+    const files = listingResult.entries;
 
     const suggestions: GroupedFiles[] = [];
 
@@ -162,12 +167,19 @@ export async function POST(request: NextRequest) {
       )
     );
 
-    return NextResponse.json({ suggestions: uniqueSuggestions }, { headers: getCorsHeaders() });
+    return NextResponse.json({
+      suggestions: uniqueSuggestions,
+      listing: {
+        limit: LISTING_LIMIT,
+        returned: files.length,
+        truncated: listingResult.truncated
+      }
+    }, { headers: getCorsHeaders() });
   } catch (error: any) {
     console.error('Error analyzing files:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to analyze files' },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -181,19 +193,19 @@ export async function PUT(request: NextRequest) {
     }
 
     const { suggestions } = await request.json();
-    const dropboxService = new DropboxService(authTokens.access_token);
+    const storage = createStorageProvider(authTokens.access_token);
 
     const results = [];
 
     for (const suggestion of suggestions) {
       try {
         // Create the folder
-        await dropboxService.createFolder(suggestion.folderPath);
+        await storage.createFolder(suggestion.folderPath);
 
         // Move files to the folder
         for (const file of suggestion.files) {
           const newPath = `${suggestion.folderPath}/${file.name}`;
-          await dropboxService.moveFile(file.path_display, newPath);
+          await storage.moveFile(file.path_display, newPath);
         }
 
         results.push({
@@ -215,7 +227,7 @@ export async function PUT(request: NextRequest) {
     console.error('Error organizing files:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to organize files' },
-      { status: 500, headers: getCorsHeaders() }
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
     );
   }
 }
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCorsHeaders } from '@/lib/config';
+import { getAuthFromCookies } from '@/lib/session';
+import { uploadRuleStore } from '@/lib/upload-rules';
+
+// GET: Rules process-uploads uses to categorize New Uploads
+export async function GET(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { rules, isDefault } = await uploadRuleStore.getRules();
+
+    return NextResponse.json({ rules, isDefault }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error reading upload rules:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read upload rules' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+// PUT: Replace the whole rule set with { rules: [...] }
+export async function PUT(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { rules } = await request.json();
+    const errors = await uploadRuleStore.saveRules(rules);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid upload rules', errors },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    return NextResponse.json({ message: `Saved ${rules.length} upload rules`, rules }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error saving upload rules:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save upload rules' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+// DELETE: Go back to the built-in rules
+export async function DELETE(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    await uploadRuleStore.resetRules();
+    const { rules } = await uploadRuleStore.getRules();
+
+    return NextResponse.json({ message: 'Reset upload rules to defaults', rules }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error resetting upload rules:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to reset upload rules' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
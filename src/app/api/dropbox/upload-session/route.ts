@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider, UploadOffsetError } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { activityLogger } from '@/lib/activity-log';
+
+// POST: Chunked upload for files too large for /api/dropbox/files.
+// The body is the raw chunk; the query says what to do with it:
+//   ?action=start                                    -> { sessionId, offset }
+//   ?action=append&sessionId=..&offset=N             -> { sessionId, offset }
+//   ?action=finish&sessionId=..&offset=N&path=/..    -> { success, file }
+// A chunk sent at the wrong offset gets a 409 with correctOffset so the
+// client can resume from there instead of starting over.
+export async function POST(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const action = searchParams.get('action');
+    const sessionId = searchParams.get('sessionId');
+    const offset = parseInt(searchParams.get('offset') || '', 10);
+    const path = searchParams.get('path');
+
+    if (action !== 'start' && (!sessionId || !Number.isInteger(offset) || offset < 0)) {
+      return NextResponse.json(
+        { error: 'sessionId and offset are required' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+    if (action === 'finish' && !path) {
+      return NextResponse.json({ error: 'path is required' }, { status: 400, headers: getCorsHeaders() });
+    }
+
+    const storage = createStorageProvider(authTokens.access_token);
+    const chunk = Buffer.from(await request.arrayBuffer());
+
+    switch (action) {
+      case 'start': {
+        const cursor = await storage.startUploadSession(chunk);
+        return NextResponse.json(cursor, { headers: getCorsHeaders() });
+      }
+      case 'append': {
+        const cursor = await storage.appendUploadSession({ sessionId: sessionId!, offset }, chunk);
+        return NextResponse.json(cursor, { headers: getCorsHeaders() });
+      }
+      case 'finish': {
+        const file = await storage.finishUploadSession({ sessionId: sessionId!, offset }, path!, chunk);
+
+        await activityLogger.logActivity({
+          action: 'upload',
+          filePath: file.path_display || path!,
+          details: {
+            newName: file.name,
+            fileSize: file.size
+          }
+        });
+
+        return NextResponse.json({ success: true, file }, { headers: getCorsHeaders() });
+      }
+      default:
+        return NextResponse.json(
+          { error: 'action must be start, append or finish' },
+          { status: 400, headers: getCorsHeaders() }
+        );
+    }
+  } catch (error) {
+    if (error instanceof UploadOffsetError) {
+      return NextResponse.json(
+        { error: error.message, correctOffset: error.correctOffset },
+        { status: 409, headers: getCorsHeaders() }
+      );
+    }
+    console.error('Error in upload session:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to upload chunk' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
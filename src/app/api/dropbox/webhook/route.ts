@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getCorsHeaders } from '@/lib/config';
+import { getAuthFromCookies } from '@/lib/session';
+import { parseWebhookAccounts, uploadQueue, verifyWebhookSignature } from '@/lib/dropbox-webhook';
+
+// GET: Dropbox endpoint verification (echo the challenge), or recent job status for signed-in users
+export async function GET(request: NextRequest) {
+  const challenge = request.nextUrl.searchParams.get('challenge');
+
+  if (challenge) {
+    return new Response(challenge, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/plain',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+  }
+
+  const authTokens = getAuthFromCookies(request);
+  if (!authTokens?.access_token) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+  }
+
+  return NextResponse.json({ jobs: uploadQueue.getRecentJobs() }, { headers: getCorsHeaders() });
+}
+
+// POST: Signed change notification; process New Uploads for each listed account
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text();
+    const signature = request.headers.get('x-dropbox-signature');
+
+    if (!verifyWebhookSignature(rawBody, signature, process.env.DROPBOX_CLIENT_SECRET || '')) {
+      console.warn('Webhook: rejected notification with invalid signature');
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 403 });
+    }
+
+    const accounts = parseWebhookAccounts(rawBody);
+    accounts.forEach(accountId => uploadQueue.enqueue(accountId));
+
+    // Dropbox expects a reply within 10 seconds, so do the work after responding
+    if (accounts.length > 0) {
+      after(() => uploadQueue.drain());
+    }
+
+    return NextResponse.json({ queued: accounts.length });
+  } catch (error) {
+    console.error('Webhook error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to handle webhook' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { activityLogger } from '@/lib/activity-log';
+import { setlistStore } from '@/lib/setlists';
+import { exportSetlist, SETLIST_EXPORT_FORMATS, SetlistExportFormat } from '@/lib/setlist-export';
+
+interface SetlistRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST: Save the setlist to the Dropbox Setlists folder as a printable PDF,
+// plain text and an M3U playlist of the reference takes: { formats?: ['pdf', 'txt', 'm3u'] }
+export async function POST(request: NextRequest, { params }: SetlistRouteContext) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { id } = await params;
+    const { formats = SETLIST_EXPORT_FORMATS } = await request.json().catch(() => ({}));
+    if (!Array.isArray(formats) || formats.length === 0 || formats.some(format => !SETLIST_EXPORT_FORMATS.includes(format))) {
+      return NextResponse.json(
+        { error: `formats must list any of ${SETLIST_EXPORT_FORMATS.join(', ')}` },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const setlist = await setlistStore.getSetlist(id);
+    if (!setlist) {
+      return NextResponse.json({ error: 'Setlist not found' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    const storage = createStorageProvider(authTokens.access_token);
+    const files = [];
+    for (const file of exportSetlist(setlist, formats as SetlistExportFormat[])) {
+      // A re-export replaces the files of the previous one
+      const saved = await storage.uploadFile(file.path, file.contents, { overwrite: true });
+      const savedPath = saved.path_display || file.path;
+      files.push({ format: file.format, path: savedPath });
+
+      await activityLogger.logActivity({
+        action: 'upload',
+        filePath: savedPath,
+        details: {
+          newName: saved.name,
+          category: 'Setlists',
+          fileSize: file.contents.length
+        }
+      });
+    }
+
+    return NextResponse.json(
+      { message: `Exported ${setlist.name} to ${files.length} files`, files },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error) {
+    console.error('Error exporting setlist:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export setlist' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
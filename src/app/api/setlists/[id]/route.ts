@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { songCatalog } from '@/lib/song-catalog';
+import { resolveEntries, SetlistEntry, setlistStore, summarizeSetlist, validateSetlist } from '@/lib/setlists';
+
+interface SetlistRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET: One setlist with its running time and transitions to watch
+export async function GET(request: NextRequest, { params }: SetlistRouteContext) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { id } = await params;
+    const setlist = await setlistStore.getSetlist(id);
+    if (!setlist) {
+      return NextResponse.json({ error: 'Setlist not found' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    return NextResponse.json({ setlist, summary: summarizeSetlist(setlist) }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error reading setlist:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read setlist' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+// PUT: Change the fields given; entries, when given, replaces the running order
+// (durations are read again, so this also picks up re-recorded takes)
+export async function PUT(request: NextRequest, { params }: SetlistRouteContext) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { id } = await params;
+    const { entries: entryInputs, ...fields } = await request.json();
+    const invalid = validateSetlist({ ...fields, entries: entryInputs }, true);
+    if (invalid.length > 0) {
+      return NextResponse.json({ error: 'Invalid setlist', errors: invalid }, { status: 400, headers: getCorsHeaders() });
+    }
+    if (!await setlistStore.getSetlist(id)) {
+      return NextResponse.json({ error: 'Setlist not found' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    let entries: SetlistEntry[] | undefined;
+    if (entryInputs) {
+      const storage = createStorageProvider(authTokens.access_token);
+      const resolved = await resolveEntries(storage, entryInputs, await songCatalog.listSongs());
+      if (resolved.errors.length > 0) {
+        return NextResponse.json({ error: 'Invalid setlist', errors: resolved.errors }, { status: 400, headers: getCorsHeaders() });
+      }
+      entries = resolved.entries;
+    }
+
+    const setlist = await setlistStore.updateSetlist(id, fields, entries);
+    if (!setlist) {
+      return NextResponse.json({ error: 'Setlist not found' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    return NextResponse.json(
+      { message: `Updated ${setlist.name}`, setlist, summary: summarizeSetlist(setlist) },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error) {
+    console.error('Error updating setlist:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update setlist' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+// DELETE: Remove the setlist; exports already saved to Dropbox stay
+export async function DELETE(request: NextRequest, { params }: SetlistRouteContext) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { id } = await params;
+    if (!await setlistStore.deleteSetlist(id)) {
+      return NextResponse.json({ error: 'Setlist not found' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    return NextResponse.json({ message: 'Setlist deleted' }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error deleting setlist:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete setlist' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { songCatalog } from '@/lib/song-catalog';
+import { resolveEntries, setlistStore, summarizeSetlist, validateSetlist } from '@/lib/setlists';
+
+// GET: Every setlist with its running time and transitions to watch
+export async function GET(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const setlists = await setlistStore.listSetlists();
+
+    return NextResponse.json(
+      { setlists: setlists.map(setlist => ({ ...setlist, summary: summarizeSetlist(setlist) })) },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error) {
+    console.error('Error reading setlists:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read setlists' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+// POST: Add a setlist: { name, venue?, date?, notes?, entries: [{ songId?, takePath?, title?, notes? }] }
+export async function POST(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { entries: entryInputs = [], ...fields } = await request.json();
+    const invalid = validateSetlist({ ...fields, entries: entryInputs });
+    if (invalid.length > 0) {
+      return NextResponse.json({ error: 'Invalid setlist', errors: invalid }, { status: 400, headers: getCorsHeaders() });
+    }
+
+    const storage = createStorageProvider(authTokens.access_token);
+    const { entries, errors } = await resolveEntries(storage, entryInputs, await songCatalog.listSongs());
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid setlist', errors }, { status: 400, headers: getCorsHeaders() });
+    }
+
+    const setlist = await setlistStore.createSetlist(fields, entries);
+
+    return NextResponse.json(
+      { message: `Added ${setlist.name}`, setlist, summary: summarizeSetlist(setlist) },
+      { status: 201, headers: getCorsHeaders() }
+    );
+  } catch (error) {
+    console.error('Error creating setlist:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create setlist' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
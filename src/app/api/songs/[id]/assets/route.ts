@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { identifyAssets, songCatalog, validateAssets } from '@/lib/song-catalog';
+
+interface SongRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST: Link takes, lyrics, charts or media: { assets: [{ kind, source, ref, name, url? }] }.
+// Dropbox files are linked by file id as well, so they stay linked when moved.
+export async function POST(request: NextRequest, { params }: SongRouteContext) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { id } = await params;
+    const { assets } = await request.json();
+    const errors = validateAssets(assets);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid assets', errors }, { status: 400, headers: getCorsHeaders() });
+    }
+
+    const identified = await identifyAssets(createStorageProvider(authTokens.access_token), assets);
+    if (identified.errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid assets', errors: identified.errors }, { status: 400, headers: getCorsHeaders() });
+    }
+
+    const song = await songCatalog.linkAssets(id, identified.assets);
+    if (!song) {
+      return NextResponse.json({ error: 'Song not found' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    return NextResponse.json({ message: `Linked ${assets.length} assets to ${song.title}`, song }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error linking song assets:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to link assets' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+// DELETE: Unlink the asset given as ?ref= (Dropbox path or file id, or Google Doc id)
+export async function DELETE(request: NextRequest, { params }: SongRouteContext) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { id } = await params;
+    const ref = request.nextUrl.searchParams.get('ref');
+    if (!ref) {
+      return NextResponse.json({ error: 'ref is required' }, { status: 400, headers: getCorsHeaders() });
+    }
+
+    const song = await songCatalog.unlinkAsset(id, ref);
+    if (!song) {
+      return NextResponse.json({ error: 'Song not found' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    return NextResponse.json({ message: `Unlinked ${ref}`, song }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error unlinking song asset:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to unlink asset' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { identifyAssets, locateAssets, songCatalog, validateSong } from '@/lib/song-catalog';
+
+interface SongRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET: One song with everything linked to it, Dropbox files at their current path
+export async function GET(request: NextRequest, { params }: SongRouteContext) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { id } = await params;
+    const song = await songCatalog.getSong(id);
+    if (!song) {
+      return NextResponse.json({ error: 'Song not found' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    const [located] = await locateAssets(createStorageProvider(authTokens.access_token), [song]);
+    return NextResponse.json({ song: located }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error reading song:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read song' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+// PUT: Change the fields given; assets, when given, replaces the whole list
+export async function PUT(request: NextRequest, { params }: SongRouteContext) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { id } = await params;
+    const input = await request.json();
+    const errors = validateSong(input, true);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid song', errors }, { status: 400, headers: getCorsHeaders() });
+    }
+
+    if (input.assets) {
+      const identified = await identifyAssets(createStorageProvider(authTokens.access_token), input.assets);
+      if (identified.errors.length > 0) {
+        return NextResponse.json({ error: 'Invalid song', errors: identified.errors }, { status: 400, headers: getCorsHeaders() });
+      }
+      input.assets = identified.assets;
+    }
+
+    const song = await songCatalog.updateSong(id, input);
+    if (!song) {
+      return NextResponse.json({ error: 'Song not found' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    return NextResponse.json({ message: `Updated ${song.title}`, song }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error updating song:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update song' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+// DELETE: Remove the song from the catalog; its files are not touched
+export async function DELETE(request: NextRequest, { params }: SongRouteContext) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { id } = await params;
+    if (!await songCatalog.deleteSong(id)) {
+      return NextResponse.json({ error: 'Song not found' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    return NextResponse.json({ message: 'Song removed from the catalog' }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error deleting song:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete song' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
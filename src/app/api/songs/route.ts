@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { identifyAssets, locateAssets, songCatalog, SONG_STATUSES, SongStatus, validateSong } from '@/lib/song-catalog';
+
+// GET: Every song in the catalog, optionally only those with ?status=. Linked
+// Dropbox files are reported at their current path.
+export async function GET(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !SONG_STATUSES.includes(status as SongStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${SONG_STATUSES.join(', ')}` },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+
+    const storage = createStorageProvider(authTokens.access_token);
+    const songs = await locateAssets(storage, await songCatalog.listSongs());
+
+    return NextResponse.json(
+      { songs: status ? songs.filter(song => song.status === status) : songs },
+      { headers: getCorsHeaders() }
+    );
+  } catch (error) {
+    console.error('Error reading song catalog:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to read song catalog' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+// POST: Add a song: { title, aliases?, key?, tempo?, status?, notes?, assets? }
+export async function POST(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const input = await request.json();
+    const errors = validateSong(input);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid song', errors }, { status: 400, headers: getCorsHeaders() });
+    }
+
+    if (input.assets) {
+      const identified = await identifyAssets(createStorageProvider(authTokens.access_token), input.assets);
+      if (identified.errors.length > 0) {
+        return NextResponse.json({ error: 'Invalid song', errors: identified.errors }, { status: 400, headers: getCorsHeaders() });
+      }
+      input.assets = identified.assets;
+    }
+
+    const song = await songCatalog.createSong(input);
+
+    return NextResponse.json({ message: `Added ${song.title}`, song }, { status: 201, headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error creating song:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create song' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
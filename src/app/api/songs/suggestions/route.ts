@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { archiveClusterer } from '@/lib/archive-clustering';
+import { GoogleDriveService } from '@/lib/google-drive';
+import { songCatalog } from '@/lib/song-catalog';
+import { ClusterLike, GoogleDoc, suggestSongLinks } from '@/lib/song-suggestions';
+
+/**
+ * Lyrics docs saved to Google Drive, when the integration is configured
+ */
+async function listLyricsDocs(): Promise<GoogleDoc[]> {
+  if (!process.env.GOOGLE_SERVICE_ACCOUNT_KEY) return [];
+  try {
+    const googleDriveService = new GoogleDriveService({ serviceAccountKey: process.env.GOOGLE_SERVICE_ACCOUNT_KEY });
+    const folderId = await googleDriveService.findOrCreateLyricsFolder();
+    const docs = await googleDriveService.listDocumentsInFolder(folderId);
+    return docs.map(doc => ({ ...doc, url: `https://docs.google.com/document/d/${doc.id}/edit` }));
+  } catch (error) {
+    // Suggestions from Dropbox are still useful without the docs
+    console.error('Could not list Google Docs lyrics:', error);
+    return [];
+  }
+}
+
+async function suggest(request: NextRequest, clusters: ClusterLike[]) {
+  const authTokens = getAuthFromCookies(request);
+  if (!authTokens?.access_token) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+  }
+
+  const storage = createStorageProvider(authTokens.access_token);
+  const archiveClusters = await archiveClusterer.listClusters();
+  const suggestions = await suggestSongLinks(
+    storage,
+    await songCatalog.listSongs(),
+    [...clusters, ...archiveClusters],
+    await listLyricsDocs()
+  );
+
+  return NextResponse.json({
+    suggestions,
+    summary: {
+      newSongs: suggestions.filter(s => !s.songId).length,
+      existingSongs: suggestions.filter(s => s.songId).length,
+      assets: suggestions.reduce((sum, s) => sum + s.assets.length, 0)
+    }
+  }, { headers: getCorsHeaders() });
+}
+
+// GET: Songs to create and files to link, from archive clusters, song folders
+// named by organize/rename-clusters, and files or docs named after songs
+export async function GET(request: NextRequest) {
+  try {
+    return await suggest(request, []);
+  } catch (error) {
+    console.error('Song suggestion error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to suggest songs' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+// POST: Same as GET, also using { clusters } from a folder's cluster analysis
+export async function POST(request: NextRequest) {
+  try {
+    const { clusters = [] } = await request.json();
+    if (!Array.isArray(clusters) || clusters.some(cluster => !cluster?.name || !Array.isArray(cluster.files))) {
+      return NextResponse.json(
+        { error: 'clusters must be the clusters from /api/audio-analysis/cluster' },
+        { status: 400, headers: getCorsHeaders() }
+      );
+    }
+    return await suggest(request, clusters);
+  } catch (error) {
+    console.error('Song suggestion error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to suggest songs' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
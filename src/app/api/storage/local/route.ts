@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { getCorsHeaders, LOCAL_STORAGE_ROOT, STORAGE_PROVIDER } from '@/lib/config';
+import { LocalStorageProvider, verifyLocalLink } from '@/lib/local-storage';
+
+// Serves the signed "temporary links" handed out by LocalStorageProvider.
+// Honors Range requests so partial metadata downloads and audio seeking work.
+export async function GET(request: NextRequest) {
+  try {
+    if (STORAGE_PROVIDER !== 'local' || !LOCAL_STORAGE_ROOT) {
+      return NextResponse.json({ error: 'Local storage is not enabled' }, { status: 404, headers: getCorsHeaders() });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const path = searchParams.get('path') || '';
+    const expires = parseInt(searchParams.get('expires') || '0', 10);
+    const sig = searchParams.get('sig') || '';
+
+    if (!path || !verifyLocalLink(path, expires, sig)) {
+      return NextResponse.json({ error: 'Invalid or expired link' }, { status: 403, headers: getCorsHeaders() });
+    }
+
+    const provider = new LocalStorageProvider(LOCAL_STORAGE_ROOT);
+    const filePath = await provider.resolve(path);
+    const stats = await fs.stat(filePath);
+
+    const contentType = getContentType(path);
+    const range = request.headers.get('range');
+    const match = range?.match(/^bytes=(\d*)-(\d*)$/);
+
+    if (match && (match[1] || match[2])) {
+      // "bytes=-500" means the last 500 bytes
+      const start = match[1] ? parseInt(match[1], 10) : Math.max(stats.size - parseInt(match[2], 10), 0);
+      const end = match[1] && match[2] ? Math.min(parseInt(match[2], 10), stats.size - 1) : stats.size - 1;
+
+      if (start >= stats.size || start > end) {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${stats.size}`, ...getCorsHeaders() }
+        });
+      }
+
+      const stream = Readable.toWeb(createReadStream(filePath, { start, end })) as ReadableStream;
+      return new NextResponse(stream, {
+        status: 206,
+        headers: {
+          'Content-Type': contentType,
+          'Content-Length': String(end - start + 1),
+          'Content-Range': `bytes ${start}-${end}/${stats.size}`,
+          'Accept-Ranges': 'bytes',
+          ...getCorsHeaders()
+        }
+      });
+    }
+
+    const stream = Readable.toWeb(createReadStream(filePath)) as ReadableStream;
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(stats.size),
+        'Accept-Ranges': 'bytes',
+        ...getCorsHeaders()
+      }
+    });
+  } catch (error) {
+    console.error('Error serving local file:', error);
+    const status = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 404 : 500;
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to serve file' },
+      { status, headers: getCorsHeaders() }
+    );
+  }
+}
+
+function getContentType(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase();
+  const contentTypes: { [key: string]: string } = {
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    m4a: 'audio/mp4',
+    aac: 'audio/aac',
+    ogg: 'audio/ogg',
+    flac: 'audio/flac',
+    txt: 'text/plain',
+    md: 'text/markdown',
+    pdf: 'application/pdf',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif'
+  };
+  return contentTypes[extension || ''] || 'application/octet-stream';
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
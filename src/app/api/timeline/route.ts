@@ -14,51 +14,43 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '50');
-    const offset = parseInt(searchParams.get('offset') || '0');
-    const filePath = searchParams.get('filePath');
-    const startDate = searchParams.get('startDate');
-    const endDate = searchParams.get('endDate');
-    const action = searchParams.get('action');
-
-    let activities;
-
-    if (filePath) {
-      // Get activities for a specific file
-      activities = await activityLogger.getActivitiesForFile(filePath);
-    } else if (startDate && endDate) {
-      // Get activities in date range
-      activities = await activityLogger.getActivitiesByDateRange(startDate, endDate);
-    } else {
-      // Get recent activities
-      activities = await activityLogger.getActivities(limit, offset);
-    }
+    const requestedLimit = parseInt(searchParams.get('limit') || '50');
+    const requestedOffset = parseInt(searchParams.get('offset') || '0');
+    const limit = isNaN(requestedLimit) || requestedLimit < 1 ? 50 : requestedLimit;
+    const offset = isNaN(requestedOffset) || requestedOffset < 0 ? 0 : requestedOffset;
+    // Any combination of filters; each is answered from an index
+    const query = {
+      filePath: searchParams.get('filePath') || undefined,
+      action: searchParams.get('action') || undefined,
+      batchId: searchParams.get('batchId') || undefined,
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined
+    };
 
-    // Filter by action if specified
-    if (action) {
-      activities = activities.filter(activity => activity.action === action);
-    }
+    const page = await activityLogger.query({ ...query, limit, offset });
+    // Counts cover every action, so the filter buttons stay when one is selected
+    const actionCounts = await activityLogger.countActions({ ...query, action: undefined });
+    const earliest = await activityLogger.query({ ...query, order: 'asc', limit: 1 });
+    const latest = await activityLogger.query({ ...query, limit: 1 });
 
     // Add some statistics
     const stats = {
-      totalActivities: activities.length,
-      actionCounts: activities.reduce((acc: {[key: string]: number}, activity) => {
-        acc[activity.action] = (acc[activity.action] || 0) + 1;
-        return acc;
-      }, {}),
-      dateRange: activities.length > 0 ? {
-        earliest: activities[activities.length - 1]?.timestamp,
-        latest: activities[0]?.timestamp
+      totalActivities: page.total,
+      actionCounts,
+      dateRange: page.total > 0 ? {
+        earliest: earliest.activities[0]?.timestamp,
+        latest: latest.activities[0]?.timestamp
       } : null
     };
 
     return NextResponse.json({
-      activities: activities.slice(0, limit),
+      activities: page.activities,
       stats,
       pagination: {
         limit,
         offset,
-        hasMore: activities.length > limit + offset
+        total: page.total,
+        hasMore: page.hasMore
       }
     }, { headers: getCorsHeaders() });
 
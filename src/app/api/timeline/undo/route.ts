@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageProvider } from '@/lib/storage';
+import { getCorsHeaders } from '@/lib/config';
+import { errorHeaders, errorStatus } from '@/lib/storage-errors';
+import { getAuthFromCookies } from '@/lib/session';
+import { activityLogger } from '@/lib/activity-log';
+import { undoBatch } from '@/lib/batch-undo';
+
+// GET: Recent organize/rename/move batches and whether each was undone
+export async function GET(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+    const batches = await activityLogger.getBatches(
+      isNaN(limit) || limit < 1 ? 50 : limit,
+      isNaN(offset) || offset < 0 ? 0 : offset
+    );
+
+    return NextResponse.json({ batches }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Error listing batches:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list batches' },
+      { status: 500, headers: getCorsHeaders() }
+    );
+  }
+}
+
+// POST: Move the files of one batch back: { batchId, action: 'preview' | 'undo' }.
+// Files changed or moved since, or whose old spot is taken, are reported as conflicts.
+export async function POST(request: NextRequest) {
+  try {
+    const authTokens = getAuthFromCookies(request);
+    if (!authTokens?.access_token) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401, headers: getCorsHeaders() });
+    }
+
+    const { batchId, action = 'preview' } = await request.json();
+    if (!batchId || typeof batchId !== 'string') {
+      return NextResponse.json({ error: 'batchId is required' }, { status: 400, headers: getCorsHeaders() });
+    }
+    if (action !== 'preview' && action !== 'undo') {
+      return NextResponse.json({ error: 'action must be preview or undo' }, { status: 400, headers: getCorsHeaders() });
+    }
+
+    const batch = await activityLogger.getBatchSummary(batchId);
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found in the activity log' }, { status: 404, headers: getCorsHeaders() });
+    }
+    // An undo that left conflicts can be run again for the rest
+    if (batch.undoneBy && batch.restored >= batch.moves) {
+      return NextResponse.json(
+        { error: `Batch was already undone by ${batch.undoneBy}` },
+        { status: 409, headers: getCorsHeaders() }
+      );
+    }
+
+    const storage = createStorageProvider(authTokens.access_token);
+    const report = await undoBatch(storage, batchId, action === 'preview');
+
+    const restored = report.results.filter(r => r.status === 'restored' || r.status === 'would_restore').length;
+    const conflicts = report.results.filter(r => r.status === 'conflict').length;
+    const errors = report.results.filter(r => r.status === 'error').length;
+
+    return NextResponse.json({
+      message: action === 'preview'
+        ? `Would move back ${restored} of ${report.results.length} files, ${conflicts} conflicts`
+        : `Moved back ${restored} of ${report.results.length} files, ${conflicts} conflicts, ${errors} errors`,
+      ...report,
+      summary: { total: report.results.length, restored, conflicts, errors }
+    }, { headers: getCorsHeaders() });
+  } catch (error) {
+    console.error('Undo error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to undo batch' },
+      { status: errorStatus(error), headers: { ...getCorsHeaders(), ...errorHeaders(error) } }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 200, headers: getCorsHeaders() });
+}
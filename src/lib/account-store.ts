@@ -0,0 +1,136 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+import { refreshAccessToken } from './session';
+import { stateCollection } from './state-store';
+
+export interface StoredAccount {
+  accountId: string;
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;
+  updatedAt: string;
+}
+
+// As kept in the store: the tokens are encrypted with a key derived from NEXTAUTH_SECRET
+interface SealedAccount {
+  accountId: string;
+  tokens: string;
+  expiresAt: number;
+  updatedAt: string;
+}
+
+interface AccountTokens {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+const SEAL_VERSION = 'v1';
+
+const accounts = stateCollection<SealedAccount>('accounts', {
+  file: 'accounts.json',
+  convert: data => Object.fromEntries(
+    Object.values(data as { [accountId: string]: StoredAccount }).map(account => [account.accountId, seal(account)])
+  )
+});
+
+/**
+ * Tokens for accounts that connected through OAuth, keyed by Dropbox account_id.
+ * Background work (webhooks) has no cookies, so it looks tokens up here.
+ */
+class AccountStore {
+  async saveAccount(account: Omit<StoredAccount, 'updatedAt'>): Promise<void> {
+    try {
+      await accounts.update(account.accountId, existing => seal({
+        ...account,
+        // Dropbox only returns a refresh token on the first offline grant
+        refreshToken: account.refreshToken || (existing && unseal(existing)?.refreshToken),
+        updatedAt: new Date().toISOString()
+      }));
+    } catch (error) {
+      console.error('Failed to save account:', error);
+    }
+  }
+
+  async getAccount(accountId: string): Promise<StoredAccount | null> {
+    const sealed = await accounts.get(accountId);
+    return sealed ? unseal(sealed) : null;
+  }
+
+  /**
+   * A usable access token for the account, refreshing it if it is about to expire
+   */
+  async getAccessToken(accountId: string): Promise<string | null> {
+    const account = await this.getAccount(accountId);
+    if (!account) return null;
+
+    // Same 60s buffer as ensureAccessToken
+    if (account.expiresAt - 60_000 > Date.now()) {
+      return account.accessToken;
+    }
+
+    if (!account.refreshToken) return null;
+
+    const refreshed = await refreshAccessToken(account.refreshToken);
+    await this.saveAccount({
+      accountId,
+      accessToken: refreshed.accessToken,
+      refreshToken: account.refreshToken,
+      expiresAt: refreshed.expiresAt
+    });
+    return refreshed.accessToken;
+  }
+}
+
+function tokenKey(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET must be set to store account tokens');
+  }
+  return Buffer.from(hkdfSync('sha256', secret, '', 'roadie account tokens', 32));
+}
+
+/**
+ * Encrypt the tokens with AES-256-GCM; the rest stays readable
+ */
+function seal(account: StoredAccount): SealedAccount {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', tokenKey(), iv);
+  const tokens: AccountTokens = { accessToken: account.accessToken, refreshToken: account.refreshToken };
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()]);
+
+  return {
+    accountId: account.accountId,
+    tokens: [SEAL_VERSION, ...[iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url'))].join(':'),
+    expiresAt: account.expiresAt,
+    updatedAt: account.updatedAt
+  };
+}
+
+/**
+ * The account with its tokens decrypted, or null when they were sealed with
+ * another secret (NEXTAUTH_SECRET changed) and the account has to reconnect
+ */
+function unseal(sealed: SealedAccount): StoredAccount | null {
+  try {
+    const [version, iv, tag, encrypted] = sealed.tokens.split(':');
+    if (version !== SEAL_VERSION) throw new Error(`unknown format ${version}`);
+
+    const decipher = createDecipheriv('aes-256-gcm', tokenKey(), Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    const tokens: AccountTokens = JSON.parse(
+      Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64url')), decipher.final()]).toString('utf8')
+    );
+
+    return {
+      accountId: sealed.accountId,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: sealed.expiresAt,
+      updatedAt: sealed.updatedAt
+    };
+  } catch (error) {
+    console.warn(`Could not decrypt the tokens of account ${sealed.accountId}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export const accountStore = new AccountStore();
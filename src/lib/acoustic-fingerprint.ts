@@ -0,0 +1,314 @@
+import { chromaFrames, DecodedAudio, downsample, toMono } from './audio-dsp';
+
+// Same chroma front end as key detection, but with a finer hop (~10.8 frames/s)
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 1024;
+const MIN_FREQUENCY = 55;
+const MAX_FREQUENCY = 2000;
+// Chroma is averaged over this many frames before hashing, to ride over single-frame noise
+const SMOOTHING_FRAMES = 4;
+// Change bits compare against the frame this far back (~0.75 s), so they follow chord changes
+const CHANGE_LAG_FRAMES = 8;
+const SILENT_FRAME_RATIO = 0.01;
+const MAX_SECONDS = 60;
+
+// Alignment search: how far apart two copies of a recording may start
+const MAX_OFFSET_FRAMES = Math.round((15 * ANALYSIS_RATE) / HOP_SIZE);
+// Overlap needed before an alignment counts (~10 s)
+const MIN_OVERLAP_FRAMES = Math.round((10 * ANALYSIS_RATE) / HOP_SIZE);
+// Coarse pass compares every n-th frame; the best offsets are then checked in full
+const COARSE_STEP = 4;
+const REFINE_CANDIDATES = 3;
+
+// Bit error rates: below these the two are the same recording / the same file decoded identically
+const SAME_RECORDING_BER = 0.2;
+const DUPLICATE_BER = 0.02;
+// Chord-histogram cosine above which two recordings may be the same song
+const SAME_SONG_SIMILARITY = 0.9;
+// Chords are read per segment of this many frames (~0.75 s) for the progression
+const SEGMENT_FRAMES = 8;
+// Progression alignment scores: a skipped segment costs more than a wrong chord, so
+// songs that share chords in another order don't line up by skipping between them
+const ALIGN_MATCH = 1;
+const ALIGN_MISMATCH = -1;
+const ALIGN_GAP = -2;
+// Before two recordings are taken to be the same song their progressions must
+// line up over this long (~15 s), with this many chord changes and this share
+// of segments agreeing
+const MIN_ALIGNED_SEGMENTS = 20;
+const MIN_ALIGNED_CHANGES = 4;
+const MIN_ALIGNED_MATCH_RATE = 0.7;
+// Copies of one recording must also agree on chords, so songs that merely share a
+// chord vocabulary (and so hash alike frame by frame) are not taken for copies
+const SAME_RECORDING_CHORD_SIMILARITY = 0.8;
+
+/**
+ * Content-based fingerprint of the opening of a recording, in the spirit of
+ * Chromaprint. `frames` holds one 24-bit hash per chroma frame: 12 bits for
+ * which pitch classes are prominent and 12 for which grew over the last
+ * ~0.75 s (0 marks silence). `chords` is
+ * how often each of the 24 major/minor triads dominates, which stays similar
+ * across different performances of a song; `progression` is the dominant
+ * triad of each ~0.75 s segment (-1 for silence), in order.
+ */
+export interface AcousticFingerprint {
+  frames: number[];
+  chords: number[];
+  progression: number[];
+}
+
+export type AcousticMatch = 'duplicate' | 'same_recording' | 'same_song' | 'different';
+
+export interface AcousticComparison {
+  match: AcousticMatch;
+  // 0-1; only meaningful when match is not 'different'
+  similarity: number;
+}
+
+/**
+ * Fingerprint the first minute of a recording. Null when it is silent.
+ */
+export function computeAcousticFingerprint(audio: DecodedAudio): AcousticFingerprint | null {
+  const mono = downsample(toMono(audio, MAX_SECONDS), audio.sampleRate, ANALYSIS_RATE);
+  const rate = Math.min(ANALYSIS_RATE, audio.sampleRate);
+  const { chroma, energy } = chromaFrames(mono, rate, {
+    frameSize: FRAME_SIZE,
+    hopSize: HOP_SIZE,
+    minFrequency: MIN_FREQUENCY,
+    maxFrequency: MAX_FREQUENCY
+  });
+
+  const loudest = Math.max(0, ...energy);
+  if (loudest <= 0) return null;
+
+  // Normalised per frame (silent frames stay zero), then smoothed over time
+  const normalised = chroma.map((frame, i) => {
+    if (energy[i] < loudest * SILENT_FRAME_RATIO) return new Float64Array(12);
+    const compressed = frame.map(Math.sqrt);
+    const total = compressed.reduce((sum, value) => sum + value, 0);
+    return compressed.map(value => value / total);
+  });
+  const smoothed = normalised.map((_, i) => {
+    const frame = new Float64Array(12);
+    const start = Math.max(0, i - SMOOTHING_FRAMES + 1);
+    for (let j = start; j <= i; j++) {
+      for (let pc = 0; pc < 12; pc++) frame[pc] += normalised[j][pc] / (i - start + 1);
+    }
+    return frame;
+  });
+
+  const frames = smoothed.map((frame, i) => (i < CHANGE_LAG_FRAMES ? 0 : hashFrame(frame, smoothed[i - CHANGE_LAG_FRAMES])));
+  return { frames, chords: chordHistogram(normalised), progression: chordProgression(normalised) };
+}
+
+/**
+ * Compare two fingerprints: first as copies of one recording (best-aligned
+ * bit error rate), then as performances of one song (chord histograms that
+ * agree, and progressions that line up over time).
+ */
+export function compareAcousticFingerprints(a: AcousticFingerprint, b: AcousticFingerprint): AcousticComparison {
+  const chordSimilarity = cosine(a.chords, b.chords);
+  const alignment = bestAlignment(a.frames, b.frames);
+  if (alignment && alignment.bitErrorRate <= SAME_RECORDING_BER && chordSimilarity >= SAME_RECORDING_CHORD_SIMILARITY) {
+    return {
+      match: alignment.bitErrorRate <= DUPLICATE_BER ? 'duplicate' : 'same_recording',
+      similarity: round(1 - alignment.bitErrorRate)
+    };
+  }
+
+  // Fingerprints cached before progressions were kept can't show that
+  if (chordSimilarity >= SAME_SONG_SIMILARITY && a.progression && b.progression) {
+    const aligned = alignProgressions(a.progression, b.progression);
+    if (
+      aligned.segments >= MIN_ALIGNED_SEGMENTS &&
+      aligned.changes >= MIN_ALIGNED_CHANGES &&
+      aligned.matchRate >= MIN_ALIGNED_MATCH_RATE
+    ) {
+      // Scaled into 0.6-0.8: related, but never as sure as a copy of the recording
+      return {
+        match: 'same_song',
+        similarity: round(0.6 + (0.2 * (aligned.matchRate - MIN_ALIGNED_MATCH_RATE)) / (1 - MIN_ALIGNED_MATCH_RATE))
+      };
+    }
+  }
+
+  return { match: 'different', similarity: 0 };
+}
+
+function hashFrame(frame: Float64Array, previous: Float64Array): number {
+  const mean = frame.reduce((sum, value) => sum + value, 0) / 12;
+  let hash = 0;
+  for (let pc = 0; pc < 12; pc++) {
+    if (frame[pc] > mean) hash |= 1 << pc;
+    if (frame[pc] > previous[pc]) hash |= 1 << (12 + pc);
+  }
+  return hash;
+}
+
+/**
+ * Share of frames in which each triad (0-11 major on C..B, 12-23 minor)
+ * fits the chroma best
+ */
+function chordHistogram(frames: Float64Array[]): number[] {
+  const histogram = new Array(24).fill(0);
+  let counted = 0;
+
+  for (const frame of frames) {
+    const chord = bestTriad(frame);
+    if (chord < 0) continue;
+    histogram[chord]++;
+    counted++;
+  }
+
+  return histogram.map(count => (counted > 0 ? round(count / counted, 3) : 0));
+}
+
+/**
+ * Best-fitting triad of each SEGMENT_FRAMES-long segment, from its summed
+ * chroma; -1 for silent segments
+ */
+function chordProgression(frames: Float64Array[]): number[] {
+  const progression: number[] = [];
+  for (let start = 0; start + SEGMENT_FRAMES <= frames.length; start += SEGMENT_FRAMES) {
+    const segment = new Float64Array(12);
+    for (let i = start; i < start + SEGMENT_FRAMES; i++) {
+      for (let pc = 0; pc < 12; pc++) segment[pc] += frames[i][pc];
+    }
+    progression.push(bestTriad(segment));
+  }
+  return progression;
+}
+
+// 0-11 major on C..B, 12-23 minor, -1 when the chroma is all zero
+function bestTriad(frame: Float64Array): number {
+  if (frame.every(value => value === 0)) return -1;
+
+  let bestChord = 0;
+  let bestScore = -Infinity;
+  for (let root = 0; root < 12; root++) {
+    const fifth = frame[(root + 7) % 12];
+    const major = frame[root] + frame[(root + 4) % 12] + fifth;
+    const minor = frame[root] + frame[(root + 3) % 12] + fifth;
+    if (major > bestScore) {
+      bestScore = major;
+      bestChord = root;
+    }
+    if (minor > bestScore) {
+      bestScore = minor;
+      bestChord = 12 + root;
+    }
+  }
+  return bestChord;
+}
+
+interface ProgressionAlignment {
+  // Segments of either recording the best-scoring alignment spans
+  segments: number;
+  // Chord changes among its agreeing segments
+  changes: number;
+  // Share of the spanned segments that agree
+  matchRate: number;
+}
+
+/**
+ * Local alignment (Smith-Waterman) of two chord progressions. Gaps absorb
+ * tempo differences and the local search lets the songs start at different
+ * points; silent segments never agree.
+ */
+function alignProgressions(a: number[], b: number[]): ProgressionAlignment {
+  interface Cell { score: number; matches: number; steps: number; changes: number; lastChord: number }
+  const empty: Cell = { score: 0, matches: 0, steps: 0, changes: 0, lastChord: -1 };
+  let previousRow: Cell[] = new Array(b.length + 1).fill(empty);
+  let best = empty;
+
+  for (let i = 1; i <= a.length; i++) {
+    const row: Cell[] = [empty];
+    for (let j = 1; j <= b.length; j++) {
+      const diagonal = previousRow[j - 1];
+      const agree = a[i - 1] >= 0 && a[i - 1] === b[j - 1];
+      const candidates: Cell[] = [
+        {
+          score: diagonal.score + (agree ? ALIGN_MATCH : ALIGN_MISMATCH),
+          matches: diagonal.matches + (agree ? 1 : 0),
+          steps: diagonal.steps + 1,
+          changes: diagonal.changes + (agree && diagonal.lastChord >= 0 && diagonal.lastChord !== a[i - 1] ? 1 : 0),
+          lastChord: agree ? a[i - 1] : diagonal.lastChord
+        },
+        { ...previousRow[j], score: previousRow[j].score + ALIGN_GAP, steps: previousRow[j].steps + 1 },
+        { ...row[j - 1], score: row[j - 1].score + ALIGN_GAP, steps: row[j - 1].steps + 1 }
+      ];
+      let cell = empty;
+      for (const candidate of candidates) {
+        if (candidate.score > cell.score) cell = candidate;
+      }
+      row.push(cell);
+      if (cell.score > best.score) best = cell;
+    }
+    previousRow = row;
+  }
+
+  return {
+    segments: best.steps,
+    changes: best.changes,
+    matchRate: best.steps > 0 ? best.matches / best.steps : 0
+  };
+}
+
+/**
+ * Lowest bit error rate over offsets of up to MAX_OFFSET_FRAMES, ignoring
+ * silent frames. A coarse pass over every few frames picks candidate
+ * offsets, which are then scored on all frames. Null when the recordings
+ * never overlap for long enough.
+ */
+function bestAlignment(a: number[], b: number[]): { offset: number; bitErrorRate: number } | null {
+  const score = (offset: number, step: number): number | null => {
+    let errors = 0;
+    let compared = 0;
+    for (let i = Math.max(0, offset); i < a.length && i - offset < b.length; i += step) {
+      const x = a[i];
+      const y = b[i - offset];
+      if (x === 0 || y === 0) continue;
+      errors += popcount(x ^ y);
+      compared++;
+    }
+    return compared * step >= MIN_OVERLAP_FRAMES ? errors / (compared * 24) : null;
+  };
+
+  const coarse: { offset: number; rate: number }[] = [];
+  for (let offset = -MAX_OFFSET_FRAMES; offset <= MAX_OFFSET_FRAMES; offset++) {
+    const rate = score(offset, COARSE_STEP);
+    if (rate !== null) coarse.push({ offset, rate });
+  }
+  coarse.sort((x, y) => x.rate - y.rate);
+
+  let best: { offset: number; bitErrorRate: number } | null = null;
+  for (const candidate of coarse.slice(0, REFINE_CANDIDATES)) {
+    const rate = score(candidate.offset, 1);
+    if (rate !== null && (!best || rate < best.bitErrorRate)) best = { offset: candidate.offset, bitErrorRate: rate };
+  }
+  return best;
+}
+
+function popcount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -1,5 +1,6 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { ActivityLogStore, ActivityPage, ActivityQuery, createActivityStore } from './activity-store';
 
 export interface ActivityLogEntry {
   id: string;
@@ -8,6 +9,8 @@ export interface ActivityLogEntry {
   filePath: string;
   oldPath?: string;
   newPath?: string;
+  // The organize/rename/move run this entry was part of; /api/timeline/undo reverses a whole batch
+  batchId?: string;
   details: {
     originalName?: string;
     newName?: string;
@@ -18,6 +21,12 @@ export interface ActivityLogEntry {
     analysisResults?: any;
     fileSize?: number;
     duration?: number;
+    // Copy that was kept when this file was set aside as a duplicate
+    duplicateOf?: string;
+    // content_hash right after the move, so undo can tell if the file was edited since
+    contentHash?: string;
+    // Batch this entry reverses
+    undoOf?: string;
   };
   metadata?: {
     userId?: string;
@@ -26,13 +35,30 @@ export interface ActivityLogEntry {
   };
 }
 
-class ActivityLogger {
-  private logFilePath: string;
+/**
+ * What one batch did, for choosing a run to undo
+ */
+export interface ActivityBatchSummary {
+  batchId: string;
+  startedAt: string;
+  actions: { [action: string]: number };
+  // Entries with an oldPath and newPath, i.e. what an undo would move back
+  moves: number;
+  // Batch that undid this one, if any; the first one when it took several runs
+  undoneBy?: string;
+  // Moves put back by undo runs so far; the batch is fully undone when this reaches `moves`
+  restored: number;
+}
 
-  constructor() {
-    // Store logs in a local file for now
-    this.logFilePath = path.join(process.cwd(), 'activity-log.json');
-  }
+/**
+ * Id shared by the log entries of one organize/rename/move run
+ */
+export function createBatchId(): string {
+  return `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+class ActivityLogger {
+  private store?: Promise<ActivityLogStore>;
 
   async logActivity(entry: Omit<ActivityLogEntry, 'id' | 'timestamp'>): Promise<void> {
     try {
@@ -42,26 +68,8 @@ class ActivityLogger {
         timestamp: new Date().toISOString()
       };
 
-      // Read existing logs
-      let logs: ActivityLogEntry[] = [];
-      try {
-        const data = await fs.readFile(this.logFilePath, 'utf8');
-        logs = JSON.parse(data);
-      } catch (error) {
-        // File doesn't exist yet, start with empty array
-        logs = [];
-      }
-
-      // Add new entry
-      logs.push(fullEntry);
-
-      // Keep only last 1000 entries to prevent file from growing too large
-      if (logs.length > 1000) {
-        logs = logs.slice(-1000);
-      }
-
-      // Write back to file
-      await fs.writeFile(this.logFilePath, JSON.stringify(logs, null, 2));
+      const store = await this.getStore();
+      await store.append(fullEntry);
 
       console.log(`Activity logged: ${entry.action} - ${entry.filePath}`);
     } catch (error) {
@@ -69,71 +77,95 @@ class ActivityLogger {
     }
   }
 
-  async getActivities(limit: number = 100, offset: number = 0): Promise<ActivityLogEntry[]> {
-    try {
-      const data = await fs.readFile(this.logFilePath, 'utf8');
-      const logs: ActivityLogEntry[] = JSON.parse(data);
+  /**
+   * A page of entries matching every filter given, newest first by default
+   */
+  async query(query: ActivityQuery = {}): Promise<ActivityPage> {
+    const store = await this.getStore();
+    return store.query(query);
+  }
 
-      // Return most recent first
-      return logs
-        .reverse()
-        .slice(offset, offset + limit);
-    } catch (error) {
-      console.error('Failed to read activity log:', error);
-      return [];
-    }
+  async countActions(query: ActivityQuery = {}): Promise<{ [action: string]: number }> {
+    const store = await this.getStore();
+    return store.countActions(query);
   }
 
-  async getActivitiesForFile(filePath: string): Promise<ActivityLogEntry[]> {
-    try {
-      const data = await fs.readFile(this.logFilePath, 'utf8');
-      const logs: ActivityLogEntry[] = JSON.parse(data);
-
-      return logs
-        .filter(log =>
-          log.filePath === filePath ||
-          log.oldPath === filePath ||
-          log.newPath === filePath
-        )
-        .reverse();
-    } catch (error) {
-      console.error('Failed to read activity log:', error);
-      return [];
-    }
+  /**
+   * Entries of one batch, oldest first
+   */
+  async getBatch(batchId: string): Promise<ActivityLogEntry[]> {
+    const { activities } = await this.query({ batchId, order: 'asc' });
+    return activities;
   }
 
-  async getActivitiesByDateRange(startDate: string, endDate: string): Promise<ActivityLogEntry[]> {
-    try {
-      const data = await fs.readFile(this.logFilePath, 'utf8');
-      const logs: ActivityLogEntry[] = JSON.parse(data);
+  /**
+   * Batches in the log, most recent first
+   */
+  async getBatches(limit: number = 50, offset: number = 0): Promise<ActivityBatchSummary[]> {
+    const store = await this.getStore();
+    return store.batches({ limit, offset });
+  }
 
-      return logs
-        .filter(log => log.timestamp >= startDate && log.timestamp <= endDate)
-        .reverse();
-    } catch (error) {
-      console.error('Failed to read activity log:', error);
-      return [];
-    }
+  async getBatchSummary(batchId: string): Promise<ActivityBatchSummary | null> {
+    const store = await this.getStore();
+    const [summary] = await store.batches({ batchId });
+    return summary || null;
   }
 
   async clearOldLogs(daysToKeep: number = 30): Promise<void> {
     try {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-      const cutoffIso = cutoffDate.toISOString();
 
-      const data = await fs.readFile(this.logFilePath, 'utf8');
-      const logs: ActivityLogEntry[] = JSON.parse(data);
+      const store = await this.getStore();
+      const removed = await store.deleteBefore(cutoffDate.toISOString());
 
-      const filteredLogs = logs.filter(log => log.timestamp >= cutoffIso);
-
-      await fs.writeFile(this.logFilePath, JSON.stringify(filteredLogs, null, 2));
-
-      console.log(`Cleaned up activity log, kept ${filteredLogs.length} entries`);
+      console.log(`Cleaned up activity log, removed ${removed} entries`);
     } catch (error) {
       console.error('Failed to clean up activity log:', error);
     }
   }
+
+  private getStore(): Promise<ActivityLogStore> {
+    if (!this.store) {
+      this.store = openStore();
+      // Let a later call try again, e.g. after a full disk was cleared
+      this.store.catch(() => {
+        this.store = undefined;
+      });
+    }
+    return this.store;
+  }
+}
+
+/**
+ * Open the configured store. Entries from activity-log.json, where the log
+ * used to be kept, are imported into an empty store once and the file is
+ * renamed so they are not imported again.
+ */
+async function openStore(): Promise<ActivityLogStore> {
+  const store = createActivityStore();
+  const legacyPath = path.join(process.cwd(), 'activity-log.json');
+
+  let legacy: ActivityLogEntry[];
+  try {
+    legacy = JSON.parse(await fs.readFile(legacyPath, 'utf8'));
+  } catch {
+    // No old log, or not readable: nothing to import
+    return store;
+  }
+
+  if (Array.isArray(legacy) && legacy.length > 0 && (await store.query({ limit: 1 })).total === 0) {
+    await store.append(...legacy);
+    console.log(`Imported ${legacy.length} entries from ${legacyPath}`);
+  }
+  try {
+    await fs.rename(legacyPath, `${legacyPath}.imported`);
+  } catch (error) {
+    // Read-only deployments keep the file; the store is no longer empty, so it is not imported twice
+    console.warn(`Could not rename ${legacyPath}:`, error instanceof Error ? error.message : error);
+  }
+  return store;
 }
 
-export const activityLogger = new ActivityLogger();
\ No newline at end of file
+export const activityLogger = new ActivityLogger();
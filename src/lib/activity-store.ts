@@ -0,0 +1,92 @@
+import { ACTIVITY_LOG_DIR, ACTIVITY_LOG_STORE } from './config';
+import type { ActivityBatchSummary, ActivityLogEntry } from './activity-log';
+import { dataDir } from './state-store';
+import { SqliteActivityStore } from './sqlite-activity-store';
+import { JsonlActivityStore } from './jsonl-activity-store';
+
+/**
+ * Filters for reading the activity log; all given filters must match
+ */
+export interface ActivityQuery {
+  // Matches the entry's filePath, oldPath or newPath
+  filePath?: string;
+  action?: string;
+  batchId?: string;
+  // Entries that reverse the given batch (its undo runs)
+  undoOf?: string;
+  // Inclusive ISO timestamps
+  startDate?: string;
+  endDate?: string;
+  // Newest first unless 'asc'
+  order?: 'asc' | 'desc';
+  // Omit for every match
+  limit?: number;
+  offset?: number;
+}
+
+export interface ActivityPage {
+  activities: ActivityLogEntry[];
+  // Matches before limit/offset were applied
+  total: number;
+  hasMore: boolean;
+}
+
+export interface BatchQuery {
+  batchId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Where activity log entries are kept. Appends from concurrent requests must
+ * not overwrite each other, and nothing is dropped except by deleteBefore.
+ */
+export interface ActivityLogStore {
+  append(...entries: ActivityLogEntry[]): Promise<void>;
+  query(query: ActivityQuery): Promise<ActivityPage>;
+  // Entries per action among the matches, ignoring limit/offset
+  countActions(query: ActivityQuery): Promise<{ [action: string]: number }>;
+  // Most recent first
+  batches(query: BatchQuery): Promise<ActivityBatchSummary[]>;
+  // Returns how many entries were removed
+  deleteBefore(timestamp: string): Promise<number>;
+}
+
+export type ActivityLogStoreName = 'sqlite' | 'jsonl';
+
+/**
+ * Directory the log lives in: ACTIVITY_LOG_DIR, else the one the rest of
+ * Roadie's data is kept in
+ */
+export function activityLogDir(): string {
+  return ACTIVITY_LOG_DIR || dataDir();
+}
+
+/**
+ * Build the store selected by ACTIVITY_LOG_STORE. SQLite is the default;
+ * when its native module can't be loaded the append-only JSONL file is used.
+ */
+export function createActivityStore(): ActivityLogStore {
+  const dir = activityLogDir();
+
+  switch (ACTIVITY_LOG_STORE as ActivityLogStoreName) {
+    case 'jsonl':
+      return new JsonlActivityStore(dir);
+    case 'sqlite':
+      try {
+        return new SqliteActivityStore(dir);
+      } catch (error) {
+        console.error('Could not open the SQLite activity log, using JSONL instead:', error);
+        return new JsonlActivityStore(dir);
+      }
+    default:
+      throw new Error(`Unknown activity log store: ${ACTIVITY_LOG_STORE}`);
+  }
+}
+
+/**
+ * Whether an entry moved or renamed something, i.e. whether undo can reverse it
+ */
+export function isRelocation(entry: Pick<ActivityLogEntry, 'oldPath' | 'newPath'>): boolean {
+  return !!entry.oldPath && !!entry.newPath && entry.oldPath !== entry.newPath;
+}
@@ -0,0 +1,369 @@
+import type { files } from 'dropbox';
+import { MUSIC_BASE_PATH } from './config';
+import { createStorageProvider } from './storage';
+import { AudioCluster, AudioClusteringService, AudioFingerprint, DEFAULT_THRESHOLD } from './audio-clustering';
+import { clusterFeedbackStore } from './cluster-feedback';
+import { DUPLICATES_FOLDER } from './duplicates';
+import { averageLinkage, cutDendrogram } from './similarity-clustering';
+import { stateCollection } from './state-store';
+import { AUDIO_EXTENSIONS } from './upload-rules';
+
+// Fingerprinting downloads audio, so one run takes at most this many new files; the next run continues
+const MAX_NEW_FILES_PER_RUN = 100;
+
+/**
+ * A file the archive job has fingerprinted, and the cluster it belongs to
+ * (null while it resembles nothing else)
+ */
+interface ArchiveFile {
+  filePath: string;
+  contentHash?: string;
+  clusterId: string | null;
+  fingerprint: AudioFingerprint;
+  addedAt: string;
+}
+
+type ArchiveClusterInfo = Pick<AudioCluster, 'id' | 'name' | 'suggestedCategory' | 'confidence' | 'averageTempo' | 'dominantKey'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface ArchiveRunStats {
+  scanned: number;
+  fingerprinted: number;
+  // New files left for the next run
+  remaining: number;
+  assigned: number;
+  clustersCreated: number;
+  clustersDissolved: number;
+  moved: number;
+  removed: number;
+  errors: number;
+}
+
+export interface ArchiveJobStatus {
+  status: 'idle' | 'running' | 'success' | 'error';
+  startedAt?: string;
+  finishedAt?: string;
+  message?: string;
+  stats?: ArchiveRunStats;
+}
+
+export interface ArchiveClusterMember {
+  filePath: string;
+  fileName: string;
+  folder: string;
+  modifiedDate: string;
+  duration: number;
+  tempo?: number;
+  key?: string;
+}
+
+export interface ArchiveClusterView extends ArchiveClusterInfo {
+  // Oldest first
+  files: ArchiveClusterMember[];
+}
+
+interface ArchiveState {
+  files: { [filePath: string]: ArchiveFile };
+  clusters: { [clusterId: string]: ArchiveClusterInfo };
+  lastRun?: ArchiveJobStatus;
+}
+
+// One archive per music base path
+const archives = stateCollection<ArchiveState>('archive-clusters', {
+  file: 'archive-clusters.json',
+  convert: data => ({ [MUSIC_BASE_PATH]: data as ArchiveState })
+});
+
+/**
+ * Clusters spanning the whole music base path, kept in the state store.
+ * Each run only fingerprints files it hasn't seen: a new file joins the
+ * existing cluster it is closest to on average (the same criterion
+ * average-linkage uses), and only files that fit nowhere are clustered among
+ * themselves and the other unclustered files. Files that moved keep their
+ * cluster, matched by content_hash.
+ */
+class ArchiveClusterer {
+  private running: Promise<void> | null = null;
+  private current: ArchiveJobStatus = { status: 'idle' };
+
+  isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * Run the job unless one is already running; resolves when that run ends
+   */
+  run(accessToken: string): Promise<void> {
+    if (!this.running) {
+      this.running = this.runOnce(accessToken).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  async getStatus(): Promise<ArchiveJobStatus> {
+    if (this.current.status !== 'idle') return { ...this.current };
+    const state = await this.readState();
+    return state.lastRun || this.current;
+  }
+
+  /**
+   * The cluster `filePath` belongs to, with all its files, or null
+   */
+  async getClusterFor(filePath: string): Promise<ArchiveClusterView | null> {
+    const state = await this.readState();
+    const file = Object.values(state.files).find(f => f.filePath.toLowerCase() === filePath.toLowerCase());
+    if (!file?.clusterId || !state.clusters[file.clusterId]) return null;
+    return this.viewCluster(state, file.clusterId);
+  }
+
+  /**
+   * Every archive cluster, largest first
+   */
+  async listClusters(): Promise<ArchiveClusterView[]> {
+    const state = await this.readState();
+    return Object.keys(state.clusters)
+      .map(id => this.viewCluster(state, id))
+      .sort((a, b) => b.files.length - a.files.length || a.name.localeCompare(b.name));
+  }
+
+  private async runOnce(accessToken: string): Promise<void> {
+    const stats: ArchiveRunStats = {
+      scanned: 0,
+      fingerprinted: 0,
+      remaining: 0,
+      assigned: 0,
+      clustersCreated: 0,
+      clustersDissolved: 0,
+      moved: 0,
+      removed: 0,
+      errors: 0
+    };
+    this.current = { status: 'running', startedAt: new Date().toISOString(), stats };
+
+    try {
+      const storage = createStorageProvider(accessToken);
+      const service = new AudioClusteringService(storage, await clusterFeedbackStore.getWeights(MUSIC_BASE_PATH));
+      const state = await this.readState();
+
+      const listed = new Map<string, files.FileMetadataReference>();
+      const duplicatesPrefix = `${DUPLICATES_FOLDER.toLowerCase()}/`;
+      for await (const entry of storage.iterateFiles(MUSIC_BASE_PATH, { recursive: true })) {
+        if (entry['.tag'] !== 'file' || !entry.path_display || !isAudio(entry.name)) continue;
+        if (entry.path_lower?.startsWith(duplicatesPrefix)) continue;
+        listed.set(entry.path_display, entry);
+      }
+      stats.scanned = listed.size;
+
+      const shrunk = this.reconcile(state, listed, stats);
+
+      const newPaths = [...listed.keys()].filter(filePath => !state.files[filePath]).sort();
+      const batch = newPaths.slice(0, MAX_NEW_FILES_PER_RUN);
+      stats.remaining = newPaths.length - batch.length;
+
+      const newcomers: ArchiveFile[] = [];
+      for (const filePath of batch) {
+        const entry = listed.get(filePath)!;
+        try {
+          const fingerprint = await service.extractFingerprint(filePath, entry);
+          const file: ArchiveFile = {
+            filePath,
+            contentHash: entry.content_hash,
+            clusterId: null,
+            fingerprint,
+            addedAt: new Date().toISOString()
+          };
+          state.files[filePath] = file;
+          newcomers.push(file);
+          stats.fingerprinted++;
+        } catch (error) {
+          stats.errors++;
+          console.error(`Archive clustering: failed to fingerprint ${filePath}:`, error);
+        }
+      }
+
+      const grown = this.cluster(state, service, newcomers, stats);
+      this.refreshClusters(state, service, new Set([...shrunk, ...grown]), stats);
+
+      this.current = {
+        ...this.current,
+        status: 'success',
+        message: `Fingerprinted ${stats.fingerprinted} new files: ${stats.assigned} joined existing clusters, ` +
+          `${stats.clustersCreated} new clusters` + (stats.remaining > 0 ? ` (${stats.remaining} files left for the next run)` : '')
+      };
+      state.lastRun = { ...this.current, finishedAt: new Date().toISOString() };
+      await archives.set(MUSIC_BASE_PATH, state);
+      console.log(`Archive clustering: ${this.current.message}`);
+    } catch (error) {
+      this.current = { ...this.current, status: 'error', message: error instanceof Error ? error.message : 'Unknown error' };
+      console.error('Archive clustering failed:', error);
+    } finally {
+      this.current.finishedAt = new Date().toISOString();
+    }
+  }
+
+  /**
+   * Follow files that moved (same content_hash under a new path) and forget
+   * ones that are gone or whose content changed. Returns the ids of clusters
+   * that lost files.
+   */
+  private reconcile(state: ArchiveState, listed: Map<string, files.FileMetadataReference>, stats: ArchiveRunStats): Set<string> {
+    const shrunk = new Set<string>();
+    const unknownByHash = new Map<string, string>();
+    for (const [filePath, entry] of listed) {
+      if (!state.files[filePath] && entry.content_hash) unknownByHash.set(entry.content_hash, filePath);
+    }
+
+    for (const [filePath, file] of Object.entries(state.files)) {
+      const entry = listed.get(filePath);
+      if (entry && entry.content_hash === file.contentHash) continue;
+
+      delete state.files[filePath];
+      const movedTo = !entry && file.contentHash ? unknownByHash.get(file.contentHash) : undefined;
+      if (movedTo) {
+        unknownByHash.delete(file.contentHash!);
+        const movedEntry = listed.get(movedTo)!;
+        state.files[movedTo] = {
+          ...file,
+          filePath: movedTo,
+          fingerprint: { ...file.fingerprint, filePath: movedTo, fileName: movedEntry.name }
+        };
+        stats.moved++;
+      } else {
+        if (file.clusterId) shrunk.add(file.clusterId);
+        stats.removed++;
+      }
+    }
+    return shrunk;
+  }
+
+  /**
+   * Place new files; returns the ids of clusters that gained members
+   */
+  private cluster(state: ArchiveState, service: AudioClusteringService, newcomers: ArchiveFile[], stats: ArchiveRunStats): Set<string> {
+    const touched = new Set<string>();
+    const members = new Map<string, AudioFingerprint[]>();
+    for (const file of Object.values(state.files)) {
+      if (!file.clusterId) continue;
+      members.set(file.clusterId, [...(members.get(file.clusterId) || []), file.fingerprint]);
+    }
+
+    const leftovers: ArchiveFile[] = [];
+    for (const file of newcomers) {
+      let bestId: string | null = null;
+      let best = DEFAULT_THRESHOLD;
+      for (const [clusterId, fingerprints] of members) {
+        const average = fingerprints.reduce((sum, fp) => sum + service.calculateSimilarity(file.fingerprint, fp), 0) / fingerprints.length;
+        if (average >= best) {
+          best = average;
+          bestId = clusterId;
+        }
+      }
+
+      if (bestId) {
+        file.clusterId = bestId;
+        members.get(bestId)!.push(file.fingerprint);
+        touched.add(bestId);
+        stats.assigned++;
+      } else {
+        leftovers.push(file);
+      }
+    }
+
+    // Unclustered files only need to be looked at again if they resemble one of the leftovers
+    const leftoverPaths = new Set(leftovers.map(file => file.filePath));
+    const candidates = Object.values(state.files).filter(file =>
+      !file.clusterId && !leftoverPaths.has(file.filePath) &&
+      leftovers.some(leftover => service.calculateSimilarity(leftover.fingerprint, file.fingerprint) >= DEFAULT_THRESHOLD)
+    );
+    const pool = [...leftovers, ...candidates].sort((a, b) => a.filePath.localeCompare(b.filePath));
+    if (pool.length < 2) return touched;
+
+    const matrix = service.buildSimilarityMatrix(pool.map(file => file.fingerprint));
+    for (const group of cutDendrogram(pool.length, averageLinkage(matrix), DEFAULT_THRESHOLD)) {
+      if (group.length < 2) continue;
+      const clusterId = service.createCluster(group.map(index => pool[index].fingerprint)).id;
+      group.forEach(index => {
+        pool[index].clusterId = clusterId;
+      });
+      touched.add(clusterId);
+      stats.clustersCreated++;
+    }
+    return touched;
+  }
+
+  /**
+   * Re-describe clusters whose membership changed and dissolve the ones left with a single file
+   */
+  private refreshClusters(state: ArchiveState, service: AudioClusteringService, changed: Set<string>, stats: ArchiveRunStats) {
+    const members = new Map<string, ArchiveFile[]>();
+    for (const file of Object.values(state.files)) {
+      if (file.clusterId) members.set(file.clusterId, [...(members.get(file.clusterId) || []), file]);
+    }
+
+    for (const clusterId of new Set([...Object.keys(state.clusters), ...changed])) {
+      const files = members.get(clusterId) || [];
+      if (files.length < 2) {
+        files.forEach(file => {
+          file.clusterId = null;
+        });
+        if (state.clusters[clusterId]) stats.clustersDissolved++;
+        delete state.clusters[clusterId];
+        continue;
+      }
+
+      const previous = state.clusters[clusterId];
+      if (previous && !changed.has(clusterId)) continue;
+
+      const description = service.createCluster(files.map(file => file.fingerprint));
+      const now = new Date().toISOString();
+      state.clusters[clusterId] = {
+        id: clusterId,
+        name: description.name,
+        suggestedCategory: description.suggestedCategory,
+        confidence: description.confidence,
+        averageTempo: description.averageTempo,
+        dominantKey: description.dominantKey,
+        createdAt: previous?.createdAt || now,
+        updatedAt: now
+      };
+    }
+  }
+
+  private viewCluster(state: ArchiveState, clusterId: string): ArchiveClusterView {
+    const files = Object.values(state.files)
+      .filter(file => file.clusterId === clusterId)
+      .map(({ filePath, fingerprint }) => ({
+        filePath,
+        fileName: fingerprint.fileName,
+        folder: filePath.slice(0, filePath.lastIndexOf('/')),
+        modifiedDate: new Date(fingerprint.modifiedDate).toISOString(),
+        duration: fingerprint.duration,
+        tempo: fingerprint.tempo,
+        key: fingerprint.key
+      }))
+      .sort((a, b) => a.modifiedDate.localeCompare(b.modifiedDate));
+    return { ...state.clusters[clusterId], files };
+  }
+
+  private async readState(): Promise<ArchiveState> {
+    const state = await archives.get(MUSIC_BASE_PATH);
+    if (!state) return { files: {}, clusters: {} };
+
+    // Dates come back from JSON as strings
+    for (const file of Object.values(state.files)) {
+      file.fingerprint.modifiedDate = new Date(file.fingerprint.modifiedDate);
+    }
+    return state;
+  }
+}
+
+function isAudio(fileName: string): boolean {
+  const ext = fileName.includes('.') ? fileName.substring(fileName.lastIndexOf('.')).toLowerCase() : '';
+  return AUDIO_EXTENSIONS.includes(ext);
+}
+
+export const archiveClusterer = new ArchiveClusterer();
@@ -0,0 +1,65 @@
+import type { AcousticFingerprint } from './acoustic-fingerprint';
+import type { KeyEstimate } from './audio-key';
+import type { LevelReport } from './audio-loudness';
+import type { TempoEstimate } from './audio-tempo';
+import type { WaveformData } from './audio-waveform';
+import { stateCollection } from './state-store';
+
+export interface AudioTechnicalInfo {
+  // Seconds
+  duration: number;
+  sampleRate?: number;
+  // Bits per second
+  bitrate?: number;
+  // Container as music-metadata names it: MPEG, WAVE, FLAC, MPEG-4, Ogg...
+  format?: string;
+  codec?: string;
+  numberOfChannels?: number;
+  lossless?: boolean;
+  // false when the headers had no length and the duration was estimated from the bitrate
+  exactDuration: boolean;
+}
+
+/**
+ * What has been measured for one piece of audio. Keyed by Dropbox
+ * content_hash, so renamed or moved copies share an entry and an edited file
+ * gets a new one.
+ */
+export interface AudioCacheEntry {
+  updatedAt: string;
+  technical?: AudioTechnicalInfo;
+  // null when the audio was decoded but has no steady beat
+  tempo?: TempoEstimate | null;
+  // null when the audio was decoded but no key could be matched (silence)
+  key?: KeyEstimate | null;
+  // null when the audio was decoded but is silent
+  acoustic?: AcousticFingerprint | null;
+  levels?: LevelReport;
+  // At the default width only
+  waveform?: WaveformData;
+}
+
+const entries = stateCollection<AudioCacheEntry>('audio-cache', {
+  file: 'audio-cache.json',
+  convert: data => (data as { entries: { [contentHash: string]: AudioCacheEntry } }).entries
+});
+
+class AudioCache {
+  async get(contentHash: string): Promise<AudioCacheEntry | undefined> {
+    return entries.get(contentHash);
+  }
+
+  /**
+   * Merge new measurements into the entry for `contentHash`
+   */
+  async update(contentHash: string, values: Omit<Partial<AudioCacheEntry>, 'updatedAt'>): Promise<AudioCacheEntry> {
+    const updated = await entries.update(contentHash, current => ({
+      ...current,
+      ...values,
+      updatedAt: new Date().toISOString()
+    }));
+    return updated!;
+  }
+}
+
+export const audioCache = new AudioCache();
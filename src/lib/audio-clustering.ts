@@ -1,5 +1,18 @@
-import { parseBuffer } from 'music-metadata';
-import { DropboxService } from './dropbox';
+import { createHash } from 'crypto';
+import type { StorageProvider } from './storage';
+import { probeAudioHeaders } from './audio-probe';
+import { audioCache, AudioTechnicalInfo } from './audio-cache';
+import { AcousticComparison, AcousticFingerprint, compareAcousticFingerprints, computeAcousticFingerprint } from './acoustic-fingerprint';
+import { ANALYSIS_EXCERPT_SECONDS, decodeAudioExcerpt } from './audio-decode';
+import { estimateKey, KeyEstimate, keySignatureDistance } from './audio-key';
+import { estimateTempo, TempoEstimate } from './audio-tempo';
+import { DEFAULT_SIMILARITY_WEIGHTS, SimilarityFeatures, SimilarityWeights, weightedSimilarity } from './cluster-feedback';
+import { averageLinkage, cutDendrogram, Merge, silhouetteScore, SimilarityMatrix } from './similarity-clustering';
+
+// Tempos within this many octaves count as the same (about 7%)
+const TEMPO_TOLERANCE_OCTAVES = 0.1;
+// Cut height used when no threshold is given and none scores better
+export const DEFAULT_THRESHOLD = 0.6;
 
 export interface AudioFingerprint {
   filePath: string;
@@ -12,6 +25,10 @@ export interface AudioFingerprint {
   bitrate?: number;
   format?: string;
   fileSize: number;
+  // Dropbox content_hash: equal hashes mean byte-identical files
+  contentHash?: string;
+  // Chroma-based fingerprint of the opening minute, for matching by sound
+  acoustic?: AcousticFingerprint;
   modifiedDate: Date;
   // Derived features for clustering
   features: {
@@ -36,13 +53,23 @@ export interface AudioCluster {
   createdDate: Date;
 }
 
+// Measured from the decoded opening of a recording
+interface MusicalFeatures {
+  tempo: TempoEstimate | null;
+  key: KeyEstimate | null;
+  acoustic: AcousticFingerprint | null;
+}
+
 export class AudioClusteringService {
 
-  constructor(private dropboxService: DropboxService) {}
+  // Acoustic comparisons are the expensive part of similarity and get repeated for every threshold tried
+  private acousticComparisons = new Map<string, AcousticComparison>();
+
+  constructor(private storage: StorageProvider, private weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS) {}
 
   /**
-   * Extract enhanced audio fingerprint from file metadata
-   * Using fast filename-based analysis
+   * Extract audio fingerprint from the file's headers, opening audio and name.
+   * Technical details and tempo are measured once per content_hash and cached.
    */
   async extractFingerprint(filePath: string, dropboxFile: any, onProgress?: (message: string) => void): Promise<AudioFingerprint> {
     const filename = filePath.split('/').pop() || '';
@@ -51,20 +78,29 @@ export class AudioClusteringService {
 
     // Extract filename tokens for similarity analysis
     const filenameTokens = this.extractFilenameTokens(filename);
-    const estimatedDuration = this.estimateDurationFromSize(dropboxFile.size);
+    const technical = await this.getTechnicalInfo(filePath, dropboxFile, onProgress);
+    const duration = technical?.duration ?? this.estimateDurationFromSize(dropboxFile.size);
+    const format = this.formatName(technical) || this.getFileExtension(filename).toLowerCase();
+    const { tempo, key, acoustic } = await this.getMusicalFeatures(filePath, dropboxFile, technical, onProgress);
 
     const fingerprint: AudioFingerprint = {
       filePath,
       fileName: filename,
-      duration: estimatedDuration,
+      duration,
+      tempo: tempo?.bpm,
+      key: key?.label,
+      sampleRate: technical?.sampleRate,
+      bitrate: technical?.bitrate,
       fileSize: dropboxFile.size || 0,
+      contentHash: dropboxFile.content_hash,
+      acoustic: acoustic ?? undefined,
       modifiedDate: new Date(dropboxFile.server_modified || Date.now()),
-      format: this.getFileExtension(filename),
+      format,
       features: {
-        durationCategory: this.categorizeDuration(estimatedDuration),
-        tempoCategory: 'unknown', // Will be inferred from clustering
-        keyGroup: 'unknown', // Will be inferred from clustering
-        formatGroup: this.categorizeFormat(this.getFileExtension(filename)),
+        durationCategory: this.categorizeDuration(duration),
+        tempoCategory: this.categorizeTempo(tempo?.bpm),
+        keyGroup: this.categorizeKey(key?.label),
+        formatGroup: this.categorizeFormat(format),
         filenameTokens,
         dateContext: this.getDateContext(new Date(dropboxFile.server_modified || Date.now()))
       }
@@ -75,32 +111,101 @@ export class AudioClusteringService {
   }
 
   /**
-   * Download only a portion of the file for metadata extraction
+   * Duration, sample rate, bitrate and container from the file headers,
+   * read with ranged downloads. Null when the headers can't be parsed.
    */
-  private async downloadFilePartial(filePath: string, maxBytes: number): Promise<Buffer> {
+  async getTechnicalInfo(
+    filePath: string,
+    dropboxFile: { size?: number; content_hash?: string },
+    onProgress?: (message: string) => void
+  ): Promise<AudioTechnicalInfo | null> {
+    const contentHash = dropboxFile.content_hash;
+    if (contentHash) {
+      const cached = await audioCache.get(contentHash);
+      if (cached?.technical) return cached.technical;
+    }
+
+    onProgress?.(`🔍 Reading audio headers of ${filePath.split('/').pop()}...`);
+    let metadata;
     try {
-      // Use temporary link to download partial content
-      const tempLink = await this.dropboxService.getTemporaryLink(filePath);
+      metadata = await probeAudioHeaders(this.storage, filePath, dropboxFile.size);
+    } catch (error) {
+      console.warn(`Could not probe ${filePath}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+    if (!metadata) return null;
+
+    const { format } = metadata;
+    let duration = format.duration;
+    let exactDuration = duration !== undefined;
+    // Headers without a length (e.g. Ogg, whose length is in the last page): estimate from the bitrate
+    if (duration === undefined && format.bitrate && dropboxFile.size) {
+      duration = dropboxFile.size * 8 / format.bitrate;
+      exactDuration = false;
+    }
+    if (duration === undefined) return null;
+
+    const technical: AudioTechnicalInfo = {
+      duration: Math.round(duration * 10) / 10,
+      sampleRate: format.sampleRate,
+      bitrate: format.bitrate ? Math.round(format.bitrate) : undefined,
+      format: format.container,
+      codec: format.codec,
+      numberOfChannels: format.numberOfChannels,
+      lossless: format.lossless,
+      exactDuration
+    };
 
-      const response = await fetch(tempLink, {
-        headers: {
-          'Range': `bytes=0-${maxBytes - 1}`
-        }
-      });
+    if (contentHash) {
+      await audioCache.update(contentHash, { technical });
+    }
+    return technical;
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
+  /**
+   * Tempo, key and acoustic fingerprint of the opening minute, decoded from
+   * a ranged download. Cached per content_hash like the technical info,
+   * including "no beat" or "no key" results.
+   */
+  private async getMusicalFeatures(
+    filePath: string,
+    dropboxFile: { size?: number; content_hash?: string },
+    technical: AudioTechnicalInfo | null,
+    onProgress?: (message: string) => void
+  ): Promise<MusicalFeatures> {
+    const contentHash = dropboxFile.content_hash;
+    if (contentHash) {
+      const cached = await audioCache.get(contentHash);
+      // Fingerprints cached without a chord progression are taken again
+      if (
+        cached?.tempo !== undefined && cached.key !== undefined && cached.acoustic !== undefined &&
+        (cached.acoustic === null || cached.acoustic.progression)
+      ) {
+        return { tempo: cached.tempo, key: cached.key, acoustic: cached.acoustic };
       }
+    }
 
-      const arrayBuffer = await response.arrayBuffer();
-      return Buffer.from(arrayBuffer);
-    } catch (error) {
-      throw new Error(`Failed to download partial file: ${error}`);
+    onProgress?.(`🥁 Listening to ${filePath.split('/').pop()}...`);
+    const audio = await decodeAudioExcerpt(this.storage, filePath, ANALYSIS_EXCERPT_SECONDS, {
+      fileSize: dropboxFile.size,
+      bitrate: technical?.bitrate
+    });
+    // Not decodable (or too large to excerpt): leave it uncached so a later run can retry
+    if (!audio) return { tempo: null, key: null, acoustic: null };
+
+    const features: MusicalFeatures = {
+      tempo: estimateTempo(audio),
+      key: estimateKey(audio),
+      acoustic: computeAcousticFingerprint(audio)
+    };
+    if (contentHash) {
+      await audioCache.update(contentHash, features);
     }
+    return features;
   }
 
   /**
-   * Estimate duration from file size (rough approximation)
+   * Fallback duration from file size (rough approximation)
    */
   private estimateDurationFromSize(sizeBytes: number): number {
     if (!sizeBytes) return 0;
@@ -116,127 +221,161 @@ export class AudioClusteringService {
    * Optimized for filename-based clustering
    */
   calculateSimilarity(fp1: AudioFingerprint, fp2: AudioFingerprint): number {
-    let similarity = 0;
-    let weightSum = 0;
+    // Byte-identical files
+    if (fp1.contentHash && fp1.contentHash === fp2.contentHash) return 1;
 
-    // Filename similarity (highest weight - main clustering factor)
-    const filenameSim = this.calculateFilenameSimilarity(fp1.features.filenameTokens, fp2.features.filenameTokens);
-    similarity += filenameSim * 0.6; // Increased weight
-    weightSum += 0.6;
+    // The same audio decoded from differently tagged or encoded files
+    if (this.compareAcoustic(fp1, fp2)?.match === 'duplicate') return 1;
+
+    return weightedSimilarity(this.similarityFeatures(fp1, fp2), this.weights);
+  }
+
+  /**
+   * Per-term similarities that calculateSimilarity weighs against each other.
+   * Filename similarity carries the most weight by default.
+   */
+  similarityFeatures(fp1: AudioFingerprint, fp2: AudioFingerprint): SimilarityFeatures {
+    const features: SimilarityFeatures = {
+      filename: this.calculateFilenameSimilarity(fp1.features.filenameTokens, fp2.features.filenameTokens)
+    };
 
     // Duration similarity (based on file size estimation)
     if (fp1.duration && fp2.duration && fp1.duration > 0 && fp2.duration > 0) {
-      const durationSim = 1 - Math.min(Math.abs(fp1.duration - fp2.duration) / Math.max(fp1.duration, fp2.duration), 1);
-      similarity += durationSim * 0.15;
-      weightSum += 0.15;
+      features.duration = 1 - Math.min(Math.abs(fp1.duration - fp2.duration) / Math.max(fp1.duration, fp2.duration), 1);
     } else if (fp1.features.durationCategory === fp2.features.durationCategory) {
-      similarity += 0.075;
-      weightSum += 0.15;
+      features.duration = 0.5;
+    }
+
+    // Tempo similarity, forgiving half/double-time readings of the same beat
+    if (fp1.tempo && fp2.tempo) {
+      const octaves = Math.abs(Math.log2(fp1.tempo / fp2.tempo));
+      const distance = Math.min(octaves, Math.abs(octaves - 1));
+      features.tempo = Math.max(0, 1 - distance / TEMPO_TOLERANCE_OCTAVES);
+    }
+
+    // Key similarity: takes of one song are normally played in the same key
+    if (fp1.key && fp2.key) {
+      features.key = this.calculateKeySimilarity(fp1.key, fp2.key);
     }
 
     // Date proximity (same session bonus)
     const timeDiff = Math.abs(fp1.modifiedDate.getTime() - fp2.modifiedDate.getTime());
     const hoursDiff = timeDiff / (1000 * 60 * 60);
-    const dateSim = hoursDiff < 1 ? 0.9 : (hoursDiff < 6 ? 0.6 : (hoursDiff < 24 ? 0.3 : 0));
-    similarity += dateSim * 0.15;
-    weightSum += 0.15;
+    features.date = hoursDiff < 1 ? 0.9 : (hoursDiff < 6 ? 0.6 : (hoursDiff < 24 ? 0.3 : 0));
 
-    // Format similarity
+    // Format similarity: a shared format counts for a pair, a different one doesn't count against it
     if (fp1.features.formatGroup === fp2.features.formatGroup) {
-      similarity += 0.1;
-      weightSum += 0.1;
+      features.format = 1;
+    }
+
+    // Sounding alike: copies of a recording, or takes whose chord progressions line up
+    const acoustic = this.compareAcoustic(fp1, fp2);
+    if (acoustic) {
+      features.acoustic = acoustic.similarity;
     }
 
-    return weightSum > 0 ? similarity / weightSum : 0;
+    return features;
   }
 
-  /**
-   * Find optimal similarity threshold by testing different values
-   */
-  findOptimalThreshold(fingerprints: AudioFingerprint[]): number {
-    const thresholds = [0.3, 0.4, 0.5, 0.6, 0.7, 0.8];
-    let bestThreshold = 0.6;
-    let bestScore = 0;
+  private compareAcoustic(fp1: AudioFingerprint, fp2: AudioFingerprint): AcousticComparison | null {
+    if (!fp1.acoustic || !fp2.acoustic) return null;
 
-    for (const threshold of thresholds) {
-      const clusters = this.clusterAudioFiles(fingerprints, threshold, false);
-      const score = this.evaluateClusterQuality(clusters, fingerprints.length);
+    const pairKey = [fp1.filePath, fp2.filePath].sort().join('\n');
+    let comparison = this.acousticComparisons.get(pairKey);
+    if (!comparison) {
+      comparison = compareAcousticFingerprints(fp1.acoustic, fp2.acoustic);
+      this.acousticComparisons.set(pairKey, comparison);
+    }
+    return comparison;
+  }
 
-      if (score > bestScore) {
-        bestScore = score;
-        bestThreshold = threshold;
+  /**
+   * Pairwise similarities of all fingerprints, in the order given
+   */
+  buildSimilarityMatrix(fingerprints: AudioFingerprint[]): SimilarityMatrix {
+    const matrix = fingerprints.map(() => new Float64Array(fingerprints.length));
+    for (let i = 0; i < fingerprints.length; i++) {
+      matrix[i][i] = 1;
+      for (let j = i + 1; j < fingerprints.length; j++) {
+        const similarity = this.calculateSimilarity(fingerprints[i], fingerprints[j]);
+        matrix[i][j] = similarity;
+        matrix[j][i] = similarity;
       }
     }
+    return matrix;
+  }
 
-    return bestThreshold;
+  /**
+   * Find optimal similarity threshold by testing different values
+   */
+  findOptimalThreshold(fingerprints: AudioFingerprint[]): number {
+    const ordered = this.inStableOrder(fingerprints);
+    const matrix = this.buildSimilarityMatrix(ordered);
+    return this.pickThreshold(matrix, averageLinkage(matrix)).threshold;
   }
 
   /**
-   * Evaluate cluster quality based on number of clusters and coverage
+   * Cut height with the best silhouette. Without any grouping that scores
+   * above zero the default threshold is kept.
    */
-  private evaluateClusterQuality(clusters: AudioCluster[], totalFiles: number): number {
-    if (clusters.length === 0) return 0;
+  private pickThreshold(matrix: SimilarityMatrix, merges: Merge[]): { threshold: number; silhouette: number } {
+    const thresholds = [0.3, 0.4, 0.5, 0.6, 0.7, 0.8];
+    let best = { threshold: DEFAULT_THRESHOLD, silhouette: 0 };
 
-    const clusteredFiles = clusters.reduce((sum, cluster) => sum + cluster.files.length, 0);
-    const coverage = clusteredFiles / totalFiles;
-    const avgConfidence = clusters.reduce((sum, cluster) => sum + cluster.confidence, 0) / clusters.length;
+    for (const threshold of thresholds) {
+      const silhouette = silhouetteScore(matrix, cutDendrogram(matrix.length, merges, threshold));
+      if (silhouette > best.silhouette) {
+        best = { threshold, silhouette };
+      }
+    }
 
-    // Balance between having clusters and good confidence
-    return coverage * 0.7 + avgConfidence * 0.3;
+    return best;
   }
 
   /**
-   * Cluster audio files based on similarity
+   * Cluster audio files by average-linkage over their pairwise similarities.
+   * The result does not depend on the order the files are passed in.
    */
   clusterAudioFiles(fingerprints: AudioFingerprint[], threshold?: number, useOptimal: boolean = true): AudioCluster[] {
+    const ordered = this.inStableOrder(fingerprints);
+    const matrix = this.buildSimilarityMatrix(ordered);
+    const merges = averageLinkage(matrix);
+
     // Use optimal threshold if not specified
     if (threshold === undefined && useOptimal) {
-      threshold = this.findOptimalThreshold(fingerprints);
-      console.log(`Using optimal similarity threshold: ${threshold}`);
+      const best = this.pickThreshold(matrix, merges);
+      threshold = best.threshold;
+      console.log(`Using optimal similarity threshold: ${threshold} (silhouette ${best.silhouette.toFixed(2)})`);
     } else if (threshold === undefined) {
-      threshold = 0.6;
+      threshold = DEFAULT_THRESHOLD;
     }
 
-    const clusters: AudioCluster[] = [];
-    const processed = new Set<string>();
-
-    fingerprints.forEach((fp, i) => {
-      if (processed.has(fp.filePath)) return;
-
-      // Start new cluster with this file
-      const clusterFiles = [fp];
-      processed.add(fp.filePath);
-
-      // Find similar files
-      fingerprints.forEach((otherFp, j) => {
-        if (i !== j && !processed.has(otherFp.filePath)) {
-          const similarity = this.calculateSimilarity(fp, otherFp);
+    // Only groups of several files become clusters
+    const clusters = cutDendrogram(ordered.length, merges, threshold)
+      .filter(group => group.length > 1)
+      .map(group => this.createCluster(group.map(index => ordered[index])));
 
-          if (similarity >= threshold) {
-            clusterFiles.push(otherFp);
-            processed.add(otherFp.filePath);
-          }
-        }
-      });
-
-      // Only create cluster if there are multiple files
-      if (clusterFiles.length > 1) {
-        const cluster = this.createCluster(clusterFiles);
-        clusters.push(cluster);
-      }
-    });
-
-    // Sort clusters by confidence and size
-    clusters.sort((a, b) => (b.confidence * b.files.length) - (a.confidence * a.files.length));
+    // Sort clusters by confidence and size; the path of the first file breaks ties
+    clusters.sort((a, b) =>
+      (b.confidence * b.files.length) - (a.confidence * a.files.length) ||
+      a.files[0].filePath.localeCompare(b.files[0].filePath)
+    );
 
     return clusters;
   }
 
+  private inStableOrder(fingerprints: AudioFingerprint[]): AudioFingerprint[] {
+    return [...fingerprints].sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+
   /**
-   * Create a cluster from a group of similar files
+   * Create a cluster from a group of similar files. The id is derived from
+   * the members (content hash, else path), so clustering the same files
+   * again gives the same id.
    */
-  private createCluster(files: AudioFingerprint[]): AudioCluster {
-    const id = `cluster_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  createCluster(files: AudioFingerprint[]): AudioCluster {
+    const members = files.map(f => f.contentHash || f.filePath).sort();
+    const id = `cluster_${createHash('sha256').update(members.join('\n')).digest('hex').slice(0, 16)}`;
 
     // Calculate cluster statistics
     const tempos = files.map(f => f.tempo).filter(Boolean) as number[];
@@ -338,6 +477,24 @@ export class AudioClusteringService {
     return mimeTypes[ext] || 'audio/mpeg';
   }
 
+  // Short format name from the probed container, in the terms categorizeFormat uses
+  private formatName(technical: AudioTechnicalInfo | null): string | undefined {
+    if (!technical?.format) return undefined;
+    const names: { [container: string]: string } = {
+      'WAVE': 'wav',
+      'FLAC': 'flac',
+      'AIFF': 'aiff',
+      'AIFF-C': 'aiff',
+      'MPEG': 'mp3',
+      'Ogg': 'ogg'
+    };
+    // MP4 reports its ftyp brands instead ("M4A/isom/mp42")
+    if (!names[technical.format] && /M4A|M4B|isom|mp4/i.test(technical.format)) {
+      return technical.lossless ? 'alac' : 'm4a';
+    }
+    return names[technical.format];
+  }
+
   private getFileExtension(filename: string): string {
     return filename.split('.').pop() || '';
   }
@@ -381,7 +538,7 @@ export class AudioClusteringService {
 
   private categorizeFormat(format?: string): string {
     if (!format) return 'unknown';
-    const lossless = ['wav', 'flac', 'aiff'];
+    const lossless = ['wav', 'flac', 'aiff', 'alac'];
     const compressed = ['mp3', 'aac', 'm4a', 'ogg'];
 
     if (lossless.includes(format.toLowerCase())) return 'lossless';
@@ -393,6 +550,20 @@ export class AudioClusteringService {
     return date.toISOString().slice(0, 10); // YYYY-MM-DD
   }
 
+  /**
+   * 1 for the same key, 0.7 for its relative major/minor (same notes),
+   * 0.4 a fifth away, otherwise 0. Keys are labels like "A Minor".
+   */
+  private calculateKeySimilarity(key1: string, key2: string): number {
+    if (key1.toLowerCase() === key2.toLowerCase()) return 1;
+
+    const distance = keySignatureDistance(key1, key2);
+
+    if (distance === 0) return 0.7;
+    if (distance === 1) return 0.4;
+    return 0;
+  }
+
   private calculateFilenameSimilarity(tokens1: string[], tokens2: string[]): number {
     const set1 = new Set(tokens1);
     const set2 = new Set(tokens2);
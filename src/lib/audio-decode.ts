@@ -0,0 +1,287 @@
+import { MPEGDecoder } from 'mpg123-decoder';
+import { FLACDecoder } from '@wasm-audio-decoders/flac';
+import decodeAac from '@audio/decode-aac';
+import type { DecodedAudio } from './audio-dsp';
+import type { StorageProvider } from './storage';
+
+// Compressed input is fed to the decoders in slices so decoding can stop early
+const DECODE_SLICE_BYTES = 1024 * 1024;
+// WAV is handed out in blocks of this many frames
+const WAV_CHUNK_FRAMES = 65536;
+// Headers and tags ahead of the audio, on top of the estimated excerpt size
+const EXCERPT_HEADER_BYTES = 256 * 1024;
+// Bitrate to assume when the headers didn't give one (CD-quality PCM)
+const FALLBACK_BITRATE = 1411200;
+// M4A can only be decoded whole; larger files are not worth the download
+const MAX_WHOLE_FILE_BYTES = 64 * 1024 * 1024;
+
+// How much of a recording tempo and key are measured on: the opening minute
+export const ANALYSIS_EXCERPT_SECONDS = 60;
+
+export class UnsupportedAudioError extends Error {
+  constructor(fileName: string) {
+    super(`Unsupported audio format: ${fileName}`);
+    this.name = 'UnsupportedAudioError';
+  }
+}
+
+type AudioContainer = 'wav' | 'flac' | 'mp3' | 'aac';
+
+// Return false to stop decoding after this chunk
+export type AudioChunkHandler = (chunk: DecodedAudio) => boolean | void;
+
+// Decoded audio, and whether there was more than `maxSeconds` of it
+export type DecodeResult = DecodedAudio & { truncated: boolean };
+
+/**
+ * Decode an audio file (or the start of one) to float PCM. WAV is read
+ * directly; FLAC, MP3 and AAC/M4A go through WASM decoders. With
+ * `maxSeconds`, decoding stops once more than that much audio is available.
+ */
+export async function decodeAudio(
+  data: Buffer,
+  fileName: string,
+  { maxSeconds }: { maxSeconds?: number } = {}
+): Promise<DecodeResult> {
+  const parts: DecodedAudio[] = [];
+  let samples = 0;
+  let truncated = false;
+  await forEachAudioChunk(data, fileName, chunk => {
+    parts.push(chunk);
+    samples += chunk.channelData[0].length;
+    // A file of exactly maxSeconds is decoded to its end and not truncated
+    truncated = maxSeconds !== undefined && samples > maxSeconds * chunk.sampleRate;
+    return !truncated;
+  });
+
+  if (parts.length === 0) throw new Error(`No audio frames in ${fileName}`);
+
+  const decoded = concatAudio(parts);
+  return { ...(maxSeconds !== undefined ? trimAudio(decoded, maxSeconds) : decoded), truncated };
+}
+
+/**
+ * Decode an audio file piece by piece, for consumers that reduce the audio
+ * as it goes (waveforms) instead of holding all of it. Chunks are never
+ * empty. AAC/M4A arrives as a single chunk.
+ */
+export async function forEachAudioChunk(data: Buffer, fileName: string, onChunk: AudioChunkHandler): Promise<void> {
+  switch (detectContainer(data, fileName)) {
+    case 'wav':
+      decodeWav(data, onChunk);
+      return;
+    case 'mp3': {
+      const decoder = new MPEGDecoder();
+      await decoder.ready;
+      try {
+        await decodeInSlices(data, async slice => decoder.decode(slice), onChunk);
+      } finally {
+        decoder.free();
+      }
+      return;
+    }
+    case 'flac': {
+      const decoder = new FLACDecoder();
+      await decoder.ready;
+      try {
+        const finished = await decodeInSlices(data, slice => decoder.decode(slice), onChunk);
+        if (finished) emitDecoded(await decoder.flush(), onChunk);
+      } finally {
+        decoder.free();
+      }
+      return;
+    }
+    case 'aac': {
+      // M4A needs the whole container (moov can sit after the audio)
+      const decoded = await decodeAac(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+      if (decoded.channelData.length > 0 && decoded.channelData[0].length > 0) onChunk(decoded);
+      return;
+    }
+  }
+}
+
+/**
+ * Download and decode roughly the first `seconds` of a file with a ranged
+ * read sized from its bitrate. M4A needs the whole file, so it is only
+ * fetched up to MAX_WHOLE_FILE_BYTES. `truncated` is set when part of the
+ * file was left out, by the decoder or by the read. Null when the file is
+ * too large to excerpt or can't be decoded.
+ */
+export async function decodeAudioExcerpt(
+  storage: StorageProvider,
+  filePath: string,
+  seconds: number,
+  { fileSize, bitrate }: { fileSize?: number; bitrate?: number } = {}
+): Promise<DecodeResult | null> {
+  const fileName = filePath.split('/').pop() || filePath;
+  const wholeFileOnly = /\.(m4a|mp4|aac)$/i.test(fileName);
+  if (wholeFileOnly && (fileSize === undefined || fileSize > MAX_WHOLE_FILE_BYTES)) return null;
+
+  const excerptBytes = wholeFileOnly
+    ? fileSize!
+    : EXCERPT_HEADER_BYTES + Math.ceil((seconds * (bitrate || FALLBACK_BITRATE)) / 8);
+
+  try {
+    const data = await storage.downloadFileRange(filePath, 0, Math.min(excerptBytes, fileSize ?? Infinity));
+    const decoded = await decodeAudio(data, fileName, { maxSeconds: seconds });
+    // Without a known size, a read that filled the whole range probably stopped short
+    const readAll = fileSize === undefined ? data.length < excerptBytes : data.length >= fileSize;
+    return { ...decoded, truncated: decoded.truncated || !readAll };
+  } catch (error) {
+    if (!(error instanceof UnsupportedAudioError)) {
+      console.warn(`Could not decode ${filePath}:`, error instanceof Error ? error.message : error);
+    }
+    return null;
+  }
+}
+
+function detectContainer(data: Buffer, fileName: string): AudioContainer {
+  const magic = data.toString('latin1', 0, 4);
+  if (magic === 'RIFF' && data.toString('latin1', 8, 12) === 'WAVE') return 'wav';
+  if (magic === 'fLaC') return 'flac';
+  if (data.toString('latin1', 4, 8) === 'ftyp') return 'aac';
+  if (magic.startsWith('ID3')) return 'mp3';
+  // ADTS (AAC) and MPEG audio both start with a frame sync; the layer bits tell them apart
+  if (data[0] === 0xff && (data[1] & 0xe0) === 0xe0) {
+    return (data[1] & 0x06) === 0 ? 'aac' : 'mp3';
+  }
+
+  const ext = fileName.substring(fileName.lastIndexOf('.')).toLowerCase();
+  const byExtension: { [ext: string]: AudioContainer } = {
+    '.wav': 'wav',
+    '.flac': 'flac',
+    '.mp3': 'mp3',
+    '.m4a': 'aac',
+    '.aac': 'aac'
+  };
+  if (byExtension[ext]) return byExtension[ext];
+  throw new UnsupportedAudioError(fileName);
+}
+
+interface SliceResult {
+  channelData: Float32Array[];
+  samplesDecoded: number;
+  sampleRate: number;
+}
+
+/**
+ * Feed a compressed stream to a decoder in slices, passing on what each one
+ * yields. False when `onChunk` asked to stop before the end.
+ */
+async function decodeInSlices(
+  data: Buffer,
+  decodeSlice: (slice: Uint8Array) => Promise<SliceResult>,
+  onChunk: AudioChunkHandler
+): Promise<boolean> {
+  for (let offset = 0; offset < data.length; offset += DECODE_SLICE_BYTES) {
+    const slice = data.subarray(offset, offset + DECODE_SLICE_BYTES);
+    const result = await decodeSlice(new Uint8Array(slice.buffer, slice.byteOffset, slice.byteLength));
+    if (!emitDecoded(result, onChunk)) return false;
+  }
+  return true;
+}
+
+// Pass on a decoder result unless it is empty; false when the handler wants to stop
+function emitDecoded(result: SliceResult, onChunk: AudioChunkHandler): boolean {
+  if (result.samplesDecoded <= 0) return true;
+  const chunk = {
+    channelData: result.channelData.map(channel => channel.slice(0, result.samplesDecoded)),
+    sampleRate: result.sampleRate
+  };
+  return onChunk(chunk) !== false;
+}
+
+function concatAudio(parts: DecodedAudio[]): DecodedAudio {
+  const nonEmpty = parts.filter(part => part.channelData.length > 0 && part.channelData[0].length > 0);
+  if (nonEmpty.length === 0) return { channelData: [], sampleRate: parts[0]?.sampleRate || 0 };
+  if (nonEmpty.length === 1) return nonEmpty[0];
+
+  const channels = Math.min(...nonEmpty.map(part => part.channelData.length));
+  const length = nonEmpty.reduce((sum, part) => sum + part.channelData[0].length, 0);
+  const channelData = Array.from({ length: channels }, () => new Float32Array(length));
+  let offset = 0;
+  for (const part of nonEmpty) {
+    for (let c = 0; c < channels; c++) channelData[c].set(part.channelData[c], offset);
+    offset += part.channelData[0].length;
+  }
+  return { channelData, sampleRate: nonEmpty[0].sampleRate };
+}
+
+function trimAudio(audio: DecodedAudio, maxSeconds: number): DecodedAudio {
+  const length = Math.floor(maxSeconds * audio.sampleRate);
+  if (audio.channelData.length === 0 || audio.channelData[0].length <= length) return audio;
+  return { ...audio, channelData: audio.channelData.map(channel => channel.subarray(0, length)) };
+}
+
+/**
+ * PCM (8/16/24/32-bit integer) and IEEE float WAV, including
+ * WAVE_FORMAT_EXTENSIBLE. A truncated `data` chunk (partial download) decodes
+ * as far as it goes.
+ */
+function decodeWav(data: Buffer, onChunk: AudioChunkHandler): void {
+  let format: { tag: number; channels: number; sampleRate: number; bitsPerSample: number; blockAlign: number } | undefined;
+
+  for (let offset = 12; offset + 8 <= data.length;) {
+    const id = data.toString('latin1', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let tag = data.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE: the real format is the first two bytes of the sub-format GUID
+      if (tag === 0xfffe && size >= 26) tag = data.readUInt16LE(body + 24);
+      format = {
+        tag,
+        channels: data.readUInt16LE(body + 2),
+        sampleRate: data.readUInt32LE(body + 4),
+        blockAlign: data.readUInt16LE(body + 12),
+        bitsPerSample: data.readUInt16LE(body + 14)
+      };
+    } else if (id === 'data') {
+      if (!format) break;
+      const available = Math.min(size === 0 || size === 0xffffffff ? Infinity : size, data.length - body);
+      const frames = Math.floor(available / format.blockAlign);
+      for (let frame = 0; frame < frames; frame += WAV_CHUNK_FRAMES) {
+        const count = Math.min(WAV_CHUNK_FRAMES, frames - frame);
+        const chunk = { channelData: readPcm(data, body + frame * format.blockAlign, count, format), sampleRate: format.sampleRate };
+        if (onChunk(chunk) === false) break;
+      }
+      return;
+    }
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('Invalid WAV file: no fmt/data chunk');
+}
+
+function readPcm(
+  data: Buffer,
+  start: number,
+  frames: number,
+  format: { tag: number; channels: number; bitsPerSample: number; blockAlign: number }
+): Float32Array[] {
+  const { tag, channels, bitsPerSample, blockAlign } = format;
+  const bytes = bitsPerSample / 8;
+  const isFloat = tag === 3;
+  if (tag !== 1 && !isFloat) throw new Error(`Unsupported WAV encoding (format ${tag})`);
+
+  const read = (position: number): number => {
+    if (isFloat) return bytes === 8 ? data.readDoubleLE(position) : data.readFloatLE(position);
+    switch (bytes) {
+      case 1: return (data[position] - 128) / 128;
+      case 2: return data.readInt16LE(position) / 32768;
+      case 3: return data.readIntLE(position, 3) / 8388608;
+      case 4: return data.readInt32LE(position) / 2147483648;
+      default: throw new Error(`Unsupported WAV bit depth ${bitsPerSample}`);
+    }
+  };
+
+  const channelData = Array.from({ length: channels }, () => new Float32Array(frames));
+  for (let frame = 0; frame < frames; frame++) {
+    const position = start + frame * blockAlign;
+    for (let c = 0; c < channels; c++) {
+      channelData[c][frame] = read(position + c * bytes);
+    }
+  }
+  return channelData;
+}
@@ -0,0 +1,168 @@
+// Small DSP toolkit for the analysis modules (tempo, key, loudness...).
+// Plain typed arrays, no Web Audio: everything runs inside API routes.
+
+export interface DecodedAudio {
+  // One array per channel, samples in [-1, 1]
+  channelData: Float32Array[];
+  sampleRate: number;
+}
+
+export function audioDuration(audio: DecodedAudio): number {
+  return audio.channelData.length > 0 ? audio.channelData[0].length / audio.sampleRate : 0;
+}
+
+/**
+ * Average all channels into one, optionally keeping only the first `maxSeconds`
+ */
+export function toMono(audio: DecodedAudio, maxSeconds?: number): Float32Array {
+  const channels = audio.channelData;
+  if (channels.length === 0) return new Float32Array(0);
+
+  const length = maxSeconds !== undefined
+    ? Math.min(channels[0].length, Math.floor(maxSeconds * audio.sampleRate))
+    : channels[0].length;
+  if (channels.length === 1) return channels[0].subarray(0, length);
+
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i];
+  }
+  for (let i = 0; i < length; i++) mono[i] /= channels.length;
+  return mono;
+}
+
+/**
+ * Resample to a lower rate by averaging the source samples that fall into each
+ * output sample (a box filter: crude, but enough to keep aliasing out of
+ * onset and chroma features)
+ */
+export function downsample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (toRate >= fromRate) return samples;
+
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += samples[j];
+    output[i] = end > start ? sum / (end - start) : 0;
+  }
+  return output;
+}
+
+export function hannWindow(size: number): Float64Array {
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+  return window;
+}
+
+/**
+ * In-place iterative radix-2 FFT; the length must be a power of two
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Short-time magnitude spectra of a signal. `onFrame` gets the magnitudes of
+ * bins 0..frameSize/2 for each hop; the array is reused between calls.
+ */
+export function forEachSpectrum(
+  samples: Float32Array,
+  frameSize: number,
+  hopSize: number,
+  onFrame: (magnitudes: Float64Array, frameIndex: number) => void
+): number {
+  const window = hannWindow(frameSize);
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const magnitudes = new Float64Array(frameSize / 2 + 1);
+  let frameIndex = 0;
+
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize, frameIndex++) {
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < magnitudes.length; k++) {
+      magnitudes[k] = Math.hypot(re[k], im[k]);
+    }
+    onFrame(magnitudes, frameIndex);
+  }
+
+  return frameIndex;
+}
+
+/**
+ * Short-time chroma: spectral power folded onto the 12 pitch classes (C = 0)
+ * for every hop, from bins between `minFrequency` and `maxFrequency`. Frames
+ * are not normalised; `energy` is their total in-range power.
+ */
+export function chromaFrames(
+  samples: Float32Array,
+  sampleRate: number,
+  { frameSize, hopSize, minFrequency, maxFrequency }: { frameSize: number; hopSize: number; minFrequency: number; maxFrequency: number }
+): { chroma: Float64Array[]; energy: number[] } {
+  // Pitch class of every FFT bin in range, -1 outside it
+  const binPitchClass = new Int8Array(frameSize / 2 + 1).fill(-1);
+  for (let k = 1; k < binPitchClass.length; k++) {
+    const frequency = (k * sampleRate) / frameSize;
+    if (frequency < minFrequency || frequency > maxFrequency) continue;
+    const semitonesFromA = Math.round(12 * Math.log2(frequency / 440));
+    binPitchClass[k] = (((semitonesFromA + 9) % 12) + 12) % 12;
+  }
+
+  const chroma: Float64Array[] = [];
+  const energy: number[] = [];
+  forEachSpectrum(samples, frameSize, hopSize, magnitudes => {
+    const frame = new Float64Array(12);
+    let total = 0;
+    for (let k = 0; k < magnitudes.length; k++) {
+      if (binPitchClass[k] < 0) continue;
+      const power = magnitudes[k] * magnitudes[k];
+      frame[binPitchClass[k]] += power;
+      total += power;
+    }
+    chroma.push(frame);
+    energy.push(total);
+  });
+
+  return { chroma, energy };
+}
@@ -0,0 +1,134 @@
+import { chromaFrames, DecodedAudio, downsample, toMono } from './audio-dsp';
+
+// Chroma only needs the fundamentals and first few partials, all under ~2 kHz
+const ANALYSIS_RATE = 11025;
+// 2.7 Hz bins: adjacent semitones separate from about A1 upwards
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 2048;
+const MIN_FREQUENCY = 55;
+const MAX_FREQUENCY = 2000;
+const MIN_SECONDS = 4;
+// Same stretch the tempo is measured on, so cached results don't depend on who decoded the file
+const MAX_SECONDS = 60;
+// Frames quieter than this (relative to the loudest) are left out of the chroma average
+const SILENT_FRAME_RATIO = 0.01;
+
+const PITCH_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+// Pitch classes in circle-of-fifths order, for measuring how related two keys are
+const CIRCLE_OF_FIFTHS = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'Ab', 'Eb', 'Bb', 'F'];
+
+// Krumhansl-Kessler probe-tone ratings, starting from the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+export type KeyMode = 'major' | 'minor';
+
+export interface KeyEstimate {
+  // Tonic pitch class: C, C#, D, Eb, ... B
+  tonic: string;
+  mode: KeyMode;
+  // "A Minor", the form the analysis results and clusters display
+  label: string;
+  // 0-1: how far the best key's profile match is ahead of the runner-up
+  confidence: number;
+}
+
+/**
+ * Estimate the key of a recording by matching its average chromagram
+ * against the 24 rotated Krumhansl-Kessler key profiles. Null for silence or
+ * clips too short to say.
+ */
+export function estimateKey(audio: DecodedAudio): KeyEstimate | null {
+  const mono = downsample(toMono(audio, MAX_SECONDS), audio.sampleRate, ANALYSIS_RATE);
+  const rate = Math.min(ANALYSIS_RATE, audio.sampleRate);
+  if (mono.length < MIN_SECONDS * rate) return null;
+
+  const chroma = chromagram(mono, rate);
+  if (!chroma) return null;
+
+  const candidates: { tonic: number; mode: KeyMode; score: number }[] = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    candidates.push({ tonic, mode: 'major', score: correlation(chroma, rotate(MAJOR_PROFILE, tonic)) });
+    candidates.push({ tonic, mode: 'minor', score: correlation(chroma, rotate(MINOR_PROFILE, tonic)) });
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = candidates;
+  if (!(best.score > 0)) return null;
+
+  const tonic = PITCH_NAMES[best.tonic];
+  return {
+    tonic,
+    mode: best.mode,
+    label: `${tonic} ${best.mode === 'major' ? 'Major' : 'Minor'}`,
+    confidence: Math.round(Math.max(0, Math.min(1, (best.score - runnerUp.score) / (1 - runnerUp.score))) * 100) / 100
+  };
+}
+
+/**
+ * Steps around the circle of fifths between the key signatures of two key
+ * labels ("A Minor", "C Major"): 0 for the same or relative keys, 6 at most.
+ * Null when either label isn't a key.
+ */
+export function keySignatureDistance(key1: string, key2: string): number | null {
+  // A minor key shares its notes with the major key a minor third up
+  const signature = (key: string): number => {
+    const [tonic, mode] = key.trim().split(/\s+/);
+    const position = CIRCLE_OF_FIFTHS.indexOf(tonic);
+    if (position < 0) return NaN;
+    return /minor/i.test(mode || '') ? (position + 9) % 12 : position;
+  };
+  const steps = Math.abs(signature(key1) - signature(key2));
+  if (isNaN(steps)) return null;
+  return Math.min(steps, 12 - steps);
+}
+
+/**
+ * Average pitch-class energy over the recording. Each frame is normalised
+ * first so a loud chorus doesn't outvote the rest. Null when every frame is silent.
+ */
+function chromagram(samples: Float32Array, rate: number): Float64Array | null {
+  const frames = chromaFrames(samples, rate, {
+    frameSize: FRAME_SIZE,
+    hopSize: HOP_SIZE,
+    minFrequency: MIN_FREQUENCY,
+    maxFrequency: MAX_FREQUENCY
+  });
+
+  const loudest = Math.max(0, ...frames.energy);
+  if (loudest <= 0) return null;
+
+  const chroma = new Float64Array(12);
+  frames.chroma.forEach((frame, i) => {
+    if (frames.energy[i] < loudest * SILENT_FRAME_RATIO) return;
+    // Square root keeps one dominant bass note from swamping the harmony
+    const compressed = frame.map(Math.sqrt);
+    const total = compressed.reduce((sum, value) => sum + value, 0);
+    for (let pc = 0; pc < 12; pc++) chroma[pc] += compressed[pc] / total;
+  });
+  return chroma;
+}
+
+function rotate(profile: number[], tonic: number): number[] {
+  return profile.map((_, pc) => profile[(pc - tonic + 12) % 12]);
+}
+
+function correlation(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const n = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i] / n;
+    meanB += b[i] / n;
+  }
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
@@ -0,0 +1,308 @@
+import { audioDuration, DecodedAudio } from './audio-dsp';
+
+// EBU R128 / ITU-R BS.1770-4 gating
+const BLOCK_SECONDS = 0.4;
+const SHORT_TERM_SECONDS = 3;
+const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+// EBU Tech 3342 loudness range: relative gate and the percentiles it spans
+const RANGE_RELATIVE_GATE_LU = -20;
+const RANGE_LOW_PERCENTILE = 0.1;
+const RANGE_HIGH_PERCENTILE = 0.95;
+
+// True peak: 4x oversampling with a windowed-sinc interpolator
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 12;
+// Only oversample near the loudest samples: real-world overs stay within 3 dB of the sample peak
+const TRUE_PEAK_SEARCH_RATIO = 0.7;
+
+// A sample this close to full scale counts as clipped
+const CLIP_LEVEL = 0.999;
+// Silence detection: 10 ms windows below -60 dBFS RMS
+const SILENCE_WINDOW_SECONDS = 0.01;
+const SILENCE_THRESHOLD_DB = -60;
+
+// Quality grading: below this a take needs a lot of gain before it can be mixed
+const QUIET_LUFS = -30;
+// At or above this a take is at release level, as long as it keeps peak headroom
+const RELEASE_LUFS = -18;
+const MAX_TRUE_PEAK_DB = -1;
+// Silence worth trimming before the take is sent on
+const NOTABLE_SILENCE_SECONDS = 2;
+
+/**
+ * Objective level measurements for one recording
+ */
+export interface LevelReport {
+  // Integrated loudness (EBU R128), LUFS; null when the recording is silent
+  integratedLufs: number | null;
+  // Inter-sample peak from 4x oversampling, dBTP; null when the recording is silent
+  truePeakDb: number | null;
+  // Loudness range (EBU Tech 3342), LU: the spread between quiet and loud passages
+  loudnessRange: number | null;
+  // Samples at or above full scale, summed over channels
+  clippedSamples: number;
+  // Seconds below -60 dBFS at the start and end
+  leadingSilence: number;
+  // Null when only the start of the recording was measured
+  trailingSilence: number | null;
+  // How much audio the figures are based on
+  analyzedSeconds: number;
+}
+
+/**
+ * Measure loudness, true peak, loudness range, clipping and leading/trailing
+ * silence. Pass `truncated` when `audio` is only the start of the recording.
+ */
+export function measureLevels(audio: DecodedAudio, { truncated = false }: { truncated?: boolean } = {}): LevelReport {
+  const { channelData, sampleRate } = audio;
+  const { integrated, range } = measureLoudness(channelData, sampleRate);
+  const { leading, trailing } = measureSilence(channelData, sampleRate);
+  const peak = Math.max(0, ...channelData.map(truePeak));
+
+  return {
+    integratedLufs: integrated === null ? null : round(integrated, 1),
+    truePeakDb: peak > 0 ? round(20 * Math.log10(peak), 1) : null,
+    loudnessRange: range === null ? null : round(range, 1),
+    clippedSamples: channelData.reduce((sum, channel) => sum + countClipped(channel), 0),
+    leadingSilence: round(leading, 2),
+    trailingSilence: truncated ? null : round(trailing, 2),
+    analyzedSeconds: round(audioDuration(audio), 1)
+  };
+}
+
+export type RecordingQuality = 'Demo' | 'Professional' | 'High-Quality';
+
+/**
+ * Grade a recording from its levels, with the measurements that decided it.
+ * Clipping or a very quiet take makes it a Demo; a clean take at release
+ * loudness with true-peak headroom is High-Quality; anything clean in
+ * between is Professional.
+ */
+export function assessRecordingQuality(levels: LevelReport): { quality: RecordingQuality; evidence: string[] } {
+  const { integratedLufs, truePeakDb, loudnessRange, clippedSamples, leadingSilence, trailingSilence } = levels;
+  const evidence: string[] = [];
+
+  evidence.push(integratedLufs === null ? 'No audible signal' : `Integrated loudness ${integratedLufs} LUFS`);
+  if (truePeakDb !== null) evidence.push(`True peak ${truePeakDb} dBTP`);
+  if (loudnessRange !== null) evidence.push(`Loudness range ${loudnessRange} LU`);
+  evidence.push(clippedSamples > 0 ? `${clippedSamples} clipped samples` : 'No clipping');
+  if (leadingSilence >= NOTABLE_SILENCE_SECONDS) evidence.push(`${leadingSilence}s of silence at the start`);
+  if (trailingSilence !== null && trailingSilence >= NOTABLE_SILENCE_SECONDS) {
+    evidence.push(`${trailingSilence}s of silence at the end`);
+  }
+
+  let quality: RecordingQuality;
+  if (integratedLufs === null || integratedLufs < QUIET_LUFS || clippedSamples > 0) {
+    quality = 'Demo';
+  } else if (integratedLufs >= RELEASE_LUFS && truePeakDb !== null && truePeakDb <= MAX_TRUE_PEAK_DB) {
+    quality = 'High-Quality';
+  } else {
+    quality = 'Professional';
+  }
+
+  return { quality, evidence };
+}
+
+/**
+ * Integrated loudness and loudness range from K-weighted mean-square energy,
+ * gated as EBU R128 specifies
+ */
+function measureLoudness(channels: Float32Array[], sampleRate: number): { integrated: number | null; range: number | null } {
+  const stepLength = Math.round(STEP_SECONDS * sampleRate);
+  const steps = channels.length > 0 ? Math.floor(channels[0].length / stepLength) : 0;
+
+  // K-weighted energy of every 100 ms step, summed over channels (all weighted 1.0)
+  const stepEnergy = new Float64Array(steps);
+  for (const channel of channels) {
+    // Filtered sample by sample so no K-weighted copy of the channel is kept
+    const filter = kWeightingFilter(sampleRate);
+    for (let step = 0; step < steps; step++) {
+      let sum = 0;
+      for (let i = step * stepLength; i < (step + 1) * stepLength; i++) {
+        const weighted = filter(channel[i]);
+        sum += weighted * weighted;
+      }
+      stepEnergy[step] += sum / stepLength;
+    }
+  }
+
+  const blockEnergies = (blockSeconds: number): number[] => {
+    const stepsPerBlock = Math.round(blockSeconds / STEP_SECONDS);
+    const energies: number[] = [];
+    let windowSum = 0;
+    for (let step = 0; step < steps; step++) {
+      windowSum += stepEnergy[step];
+      if (step >= stepsPerBlock) windowSum -= stepEnergy[step - stepsPerBlock];
+      if (step >= stepsPerBlock - 1) energies.push(windowSum / stepsPerBlock);
+    }
+    return energies;
+  };
+
+  return {
+    integrated: integratedLoudness(blockEnergies(BLOCK_SECONDS)),
+    range: loudnessRange(blockEnergies(SHORT_TERM_SECONDS))
+  };
+}
+
+function integratedLoudness(blocks: number[]): number | null {
+  const aboveAbsolute = blocks.filter(energy => loudness(energy) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return null;
+
+  const relativeGate = loudness(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(energy => loudness(energy) > relativeGate);
+  return gated.length > 0 ? loudness(mean(gated)) : null;
+}
+
+function loudnessRange(shortTermBlocks: number[]): number | null {
+  const aboveAbsolute = shortTermBlocks.filter(energy => loudness(energy) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return null;
+
+  const relativeGate = loudness(mean(aboveAbsolute)) + RANGE_RELATIVE_GATE_LU;
+  const levels = aboveAbsolute
+    .map(loudness)
+    .filter(level => level > relativeGate)
+    .sort((a, b) => a - b);
+  if (levels.length === 0) return null;
+
+  const percentile = (p: number) => levels[Math.min(levels.length - 1, Math.round(p * (levels.length - 1)))];
+  return percentile(RANGE_HIGH_PERCENTILE) - percentile(RANGE_LOW_PERCENTILE);
+}
+
+/**
+ * BS.1770 K-weighting: a high shelf modelling the head, then a high-pass
+ * (the "RLB" curve). Coefficients are derived for any sample rate the way
+ * libebur128 does, rather than using the 48 kHz table.
+ */
+function kWeightingFilter(sampleRate: number): (sample: number) => number {
+  const shelf = (() => {
+    const f0 = 1681.974450955533;
+    const gain = 3.999843853973347;
+    const q = 0.7071752369554196;
+    const k = Math.tan((Math.PI * f0) / sampleRate);
+    const vh = Math.pow(10, gain / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    const a0 = 1 + k / q + k * k;
+    return {
+      b: [(vh + (vb * k) / q + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / q + k * k) / a0],
+      a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0]
+    };
+  })();
+  const highPass = (() => {
+    const f0 = 38.13547087602444;
+    const q = 0.5003270373238773;
+    const k = Math.tan((Math.PI * f0) / sampleRate);
+    const a0 = 1 + k / q + k * k;
+    return { b: [1, -2, 1], a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0] };
+  })();
+
+  const shelfStage = biquad(shelf);
+  const highPassStage = biquad(highPass);
+  return sample => highPassStage(shelfStage(sample));
+}
+
+// Direct form I biquad keeping its own state between calls
+function biquad({ b, a }: { b: number[]; a: number[] }): (x: number) => number {
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  return x => {
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    return y;
+  };
+}
+
+/**
+ * Largest absolute value of the signal reconstructed at 4x the sample rate.
+ * Interpolation only runs around samples within 3 dB of the sample peak.
+ */
+function truePeak(samples: Float32Array): number {
+  let samplePeak = 0;
+  for (let i = 0; i < samples.length; i++) samplePeak = Math.max(samplePeak, Math.abs(samples[i]));
+  if (samplePeak === 0) return 0;
+
+  // Polyphase windowed-sinc kernel: phases[p][t] weights sample (i - TAPS/2 + 1 + t) for position i + p/OVERSAMPLING
+  const half = INTERPOLATION_TAPS / 2;
+  const phases: Float64Array[] = [];
+  for (let p = 1; p < OVERSAMPLING; p++) {
+    const kernel = new Float64Array(INTERPOLATION_TAPS);
+    for (let t = 0; t < INTERPOLATION_TAPS; t++) {
+      const x = t - half + 1 - p / OVERSAMPLING;
+      const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / half);
+      kernel[t] = sinc * window;
+    }
+    phases.push(kernel);
+  }
+
+  const searchLevel = samplePeak * TRUE_PEAK_SEARCH_RATIO;
+  let peak = samplePeak;
+  for (let i = half - 1; i + half < samples.length; i++) {
+    if (Math.abs(samples[i]) < searchLevel && Math.abs(samples[i + 1]) < searchLevel) continue;
+    for (const kernel of phases) {
+      let value = 0;
+      for (let t = 0; t < INTERPOLATION_TAPS; t++) value += kernel[t] * samples[i - half + 1 + t];
+      peak = Math.max(peak, Math.abs(value));
+    }
+  }
+  return peak;
+}
+
+function countClipped(samples: Float32Array): number {
+  let clipped = 0;
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.abs(samples[i]) >= CLIP_LEVEL) clipped++;
+  }
+  return clipped;
+}
+
+/**
+ * Seconds of near-silence before the first and after the last audible
+ * 10 ms window. A silent recording is silent from both ends.
+ */
+function measureSilence(channels: Float32Array[], sampleRate: number): { leading: number; trailing: number } {
+  const windowLength = Math.max(1, Math.round(SILENCE_WINDOW_SECONDS * sampleRate));
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const windows = Math.ceil(length / windowLength);
+  const threshold = Math.pow(10, SILENCE_THRESHOLD_DB / 10);
+
+  const isAudible = (window: number): boolean => {
+    const start = window * windowLength;
+    const end = Math.min(length, start + windowLength);
+    let sum = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end; i++) sum += channel[i] * channel[i];
+    }
+    return sum / ((end - start) * channels.length) > threshold;
+  };
+
+  let first = 0;
+  while (first < windows && !isAudible(first)) first++;
+  if (first === windows) {
+    const duration = length / sampleRate;
+    return { leading: duration, trailing: duration };
+  }
+  let last = windows - 1;
+  while (last > first && !isAudible(last)) last--;
+
+  return {
+    leading: (first * windowLength) / sampleRate,
+    trailing: Math.max(0, length - (last + 1) * windowLength) / sampleRate
+  };
+}
+
+function loudness(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
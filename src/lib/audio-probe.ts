@@ -0,0 +1,127 @@
+import { parseBuffer } from 'music-metadata';
+import type { IAudioMetadata } from 'music-metadata';
+import type { StorageProvider } from './storage';
+
+// Enough for the ID3 header, WAV/FLAC headers before the audio, and the first MP4 atoms
+const HEAD_BYTES = 256 * 1024;
+// Never fetch more than this for headers alone (large embedded cover art, huge moov atoms)
+const METADATA_LIMIT = 8 * 1024 * 1024;
+
+/**
+ * Parse an audio file's headers and tags without downloading the audio.
+ * Only the regions holding them are fetched with ranged reads. Pass the file
+ * size when known so formats without a length header (CBR MP3) still get a
+ * duration. Returns null when the headers can't be read.
+ */
+export async function probeAudioHeaders(
+  storage: StorageProvider,
+  filePath: string,
+  fileSize?: number
+): Promise<IAudioMetadata | null> {
+  const head = await storage.downloadFileRange(filePath, 0, HEAD_BYTES);
+  const headerData = isMp4(head)
+    ? await mp4HeaderData(storage, filePath, head)
+    : await headHeaderData(storage, filePath, head);
+  if (!headerData) return null;
+
+  let metadata: IAudioMetadata;
+  try {
+    metadata = await parseBuffer(headerData, { path: filePath }, { skipCovers: true });
+  } catch (error) {
+    // Truncated or unsupported container: treat like a file without headers
+    console.warn(`Could not read audio headers of ${filePath}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  // The parser only saw the first chunk, so a duration it derived from the
+  // byte count is too short; redo it from the real audio length
+  const bytes = audioBytes(headerData, metadata.format.container, fileSize);
+  if (bytes !== undefined && metadata.format.bitrate && headerData.length < (fileSize ?? Infinity)) {
+    return { ...metadata, format: { ...metadata.format, duration: bytes * 8 / metadata.format.bitrate } };
+  }
+  return metadata;
+}
+
+/**
+ * Bytes of audio for formats whose length follows from size and bitrate:
+ * the WAV `data` chunk, or an MP3 without a Xing/Info/VBRI frame count.
+ * Undefined when the headers carry an exact length of their own.
+ */
+function audioBytes(header: Buffer, container: string | undefined, fileSize?: number): number | undefined {
+  if (container === 'WAVE') {
+    for (let offset = 12; offset + 8 <= header.length;) {
+      const id = header.toString('latin1', offset, offset + 4);
+      const size = header.readUInt32LE(offset + 4);
+      if (id === 'data') {
+        // Recorders that stopped abruptly leave 0 or 0xFFFFFFFF here
+        const unknownSize = size === 0 || size === 0xffffffff;
+        return unknownSize && fileSize !== undefined ? fileSize - offset - 8 : size;
+      }
+      offset += 8 + size + (size % 2);
+    }
+    return undefined;
+  }
+
+  if (container === 'MPEG' && fileSize !== undefined) {
+    const id3Size = header.toString('latin1', 0, 3) === 'ID3'
+      ? 10 + (((header[6] & 0x7f) << 21) | ((header[7] & 0x7f) << 14) | ((header[8] & 0x7f) << 7) | (header[9] & 0x7f))
+      : 0;
+    // VBR headers sit in the first frame, right after the ID3 tag
+    const firstFrame = header.subarray(id3Size, id3Size + 4096).toString('latin1');
+    if (/Xing|Info|VBRI/.test(firstFrame)) return undefined;
+    return fileSize - id3Size;
+  }
+
+  return undefined;
+}
+
+function isMp4(head: Buffer): boolean {
+  return head.length >= 8 && head.toString('latin1', 4, 8) === 'ftyp';
+}
+
+/**
+ * ID3v2 tags can outgrow the first chunk (cover art); fetch the whole tag
+ * when they do. WAV and other formats keep their tags before the audio.
+ */
+async function headHeaderData(storage: StorageProvider, filePath: string, head: Buffer): Promise<Buffer> {
+  if (head.length < 10 || head.toString('latin1', 0, 3) !== 'ID3') return head;
+
+  // Syncsafe size, excluding the 10-byte header
+  const tagSize = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+  const needed = Math.min(tagSize + 10 + 4096, METADATA_LIMIT);
+  return needed > head.length ? storage.downloadFileRange(filePath, 0, needed) : head;
+}
+
+/**
+ * MP4 keeps its tags in the `moov` atom, which recorders often write after
+ * the audio. Walk the top-level atoms and hand the parser `ftyp` + `moov`
+ * only, fetching `moov` separately when it is not in the first chunk.
+ */
+async function mp4HeaderData(storage: StorageProvider, filePath: string, head: Buffer): Promise<Buffer | null> {
+  const atoms: Buffer[] = [];
+  let offset = 0;
+
+  for (let count = 0; count < 32; count++) {
+    const header = offset + 16 <= head.length
+      ? head.subarray(offset, offset + 16)
+      : await storage.downloadFileRange(filePath, offset, offset + 16);
+    if (header.length < 8) break;
+
+    let size = header.readUInt32BE(0);
+    const type = header.toString('latin1', 4, 8);
+    if (size === 1 && header.length >= 16) size = Number(header.readBigUInt64BE(8));
+    // size 0 means "to the end of the file"; nothing follows it
+    if (size < 8) break;
+
+    if (type === 'ftyp' || type === 'moov') {
+      if (size > METADATA_LIMIT) break;
+      atoms.push(offset + size <= head.length
+        ? head.subarray(offset, offset + size)
+        : await storage.downloadFileRange(filePath, offset, offset + size));
+      if (type === 'moov') break;
+    }
+    offset += size;
+  }
+
+  return atoms.length > 1 ? Buffer.concat(atoms) : null;
+}
@@ -0,0 +1,108 @@
+import { DecodedAudio, downsample, forEachSpectrum, toMono } from './audio-dsp';
+
+// Onsets only need the low/mid spectrum, so work at a quarter of CD rate
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 128;
+const MIN_BPM = 50;
+const MAX_BPM = 220;
+// Tempo prior: log-normal around 120 BPM, one octave wide, to settle half/double-time ties
+const PRIOR_CENTER_BPM = 120;
+const PRIOR_OCTAVES = 1;
+// Shorter than this there are too few beats to measure
+const MIN_SECONDS = 6;
+// A minute of beats is plenty for a stable estimate
+const MAX_SECONDS = 60;
+
+export interface TempoEstimate {
+  bpm: number;
+  // 0-1: how much the winning beat period stands out from the others
+  confidence: number;
+}
+
+/**
+ * Estimate the tempo of a recording from the autocorrelation of its
+ * onset-strength envelope (spectral flux). Null for silence or clips too
+ * short to have a beat.
+ */
+export function estimateTempo(audio: DecodedAudio): TempoEstimate | null {
+  const mono = downsample(toMono(audio, MAX_SECONDS), audio.sampleRate, ANALYSIS_RATE);
+  const rate = Math.min(ANALYSIS_RATE, audio.sampleRate);
+  if (mono.length < MIN_SECONDS * rate) return null;
+
+  const envelope = onsetEnvelope(mono, rate);
+  const framesPerSecond = rate / HOP_SIZE;
+
+  const minLag = Math.floor((60 * framesPerSecond) / MAX_BPM);
+  const maxLag = Math.ceil((60 * framesPerSecond) / MIN_BPM);
+  if (envelope.length < maxLag * 2) return null;
+
+  // Weighted autocorrelation over the plausible beat periods
+  const scores = new Float64Array(maxLag + 2);
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < envelope.length; i++) sum += envelope[i] * envelope[i + lag];
+    const bpm = (60 * framesPerSecond) / lag;
+    const prior = Math.exp(-0.5 * (Math.log2(bpm / PRIOR_CENTER_BPM) / PRIOR_OCTAVES) ** 2);
+    scores[lag] = (sum / (envelope.length - lag)) * prior;
+  }
+
+  let best = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[best]) best = lag;
+  }
+  if (scores[best] <= 0) return null;
+
+  // Parabolic interpolation between neighbouring lags for sub-frame precision
+  const previous = scores[best - 1] ?? scores[best];
+  const next = scores[best + 1];
+  const curvature = previous - 2 * scores[best] + next;
+  const offset = curvature < 0 ? (0.5 * (previous - next)) / curvature : 0;
+  const bpm = (60 * framesPerSecond) / (best + offset);
+
+  let mean = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) mean += scores[lag];
+  mean /= maxLag - minLag + 1;
+
+  return {
+    bpm: Math.round(bpm * 10) / 10,
+    confidence: Math.round(Math.max(0, Math.min(1, (scores[best] - mean) / scores[best])) * 100) / 100
+  };
+}
+
+/**
+ * Positive spectral flux of the log-magnitude spectrum, with the local mean
+ * removed so only peaks (note and drum onsets) remain
+ */
+function onsetEnvelope(samples: Float32Array, rate: number): Float64Array {
+  const frames = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+  const flux = new Float64Array(frames);
+  let previous: Float64Array | null = null;
+
+  forEachSpectrum(samples, FRAME_SIZE, HOP_SIZE, (magnitudes, index) => {
+    const logMagnitudes = magnitudes.map(m => Math.log1p(1000 * m));
+    if (previous) {
+      let sum = 0;
+      for (let k = 0; k < logMagnitudes.length; k++) {
+        const rise = logMagnitudes[k] - previous[k];
+        if (rise > 0) sum += rise;
+      }
+      flux[index] = sum;
+    }
+    previous = logMagnitudes;
+  });
+
+  // Subtract a ~0.4 s moving average and keep what sticks out above it
+  const radius = Math.round((0.2 * rate) / HOP_SIZE);
+  const envelope = new Float64Array(frames);
+  let windowSum = 0;
+  let windowStart = 0;
+  let windowEnd = 0;
+  for (let i = 0; i < frames; i++) {
+    while (windowEnd < Math.min(frames, i + radius + 1)) windowSum += flux[windowEnd++];
+    while (windowStart < i - radius) windowSum -= flux[windowStart++];
+    envelope[i] = Math.max(0, flux[i] - windowSum / (windowEnd - windowStart));
+  }
+
+  return envelope;
+}
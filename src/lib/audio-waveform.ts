@@ -0,0 +1,88 @@
+import { forEachAudioChunk } from './audio-decode';
+
+// Peaks are first collected at this resolution, then merged down to the requested width
+const BASE_SAMPLES_PER_PIXEL = 256;
+export const DEFAULT_WAVEFORM_WIDTH = 1000;
+
+/**
+ * Min/max peaks in the JSON format of BBC audiowaveform (version 2, 8-bit,
+ * mono), so existing players such as peaks.js can read it directly. `data`
+ * holds a min and a max per pixel, scaled to -128..127.
+ */
+export interface WaveformData {
+  version: 2;
+  channels: 1;
+  sample_rate: number;
+  samples_per_pixel: number;
+  bits: 8;
+  length: number;
+  data: number[];
+}
+
+/**
+ * Decode a file and reduce it to about `width` min/max pairs. Channels are
+ * mixed to mono. The audio is consumed chunk by chunk, so long recordings
+ * never need to be held decoded in memory.
+ */
+export async function computeWaveform(data: Buffer, fileName: string, width = DEFAULT_WAVEFORM_WIDTH): Promise<WaveformData> {
+  const mins: number[] = [];
+  const maxs: number[] = [];
+  let sampleRate = 0;
+  // Position within the current base pixel and its running extremes
+  let filled = 0;
+  let min = Infinity;
+  let max = -Infinity;
+
+  await forEachAudioChunk(data, fileName, chunk => {
+    sampleRate = chunk.sampleRate;
+    const channels = chunk.channelData;
+    const length = channels[0].length;
+
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (const channel of channels) sample += channel[i];
+      sample /= channels.length;
+
+      if (sample < min) min = sample;
+      if (sample > max) max = sample;
+      if (++filled === BASE_SAMPLES_PER_PIXEL) {
+        mins.push(min);
+        maxs.push(max);
+        filled = 0;
+        min = Infinity;
+        max = -Infinity;
+      }
+    }
+  });
+  if (filled > 0) {
+    mins.push(min);
+    maxs.push(max);
+  }
+
+  // Merge base pixels into groups so the result is at most `width` wide
+  const group = Math.max(1, Math.ceil(mins.length / Math.max(1, width)));
+  const peaks: number[] = [];
+  for (let start = 0; start < mins.length; start += group) {
+    let groupMin = Infinity;
+    let groupMax = -Infinity;
+    for (let i = start; i < Math.min(mins.length, start + group); i++) {
+      groupMin = Math.min(groupMin, mins[i]);
+      groupMax = Math.max(groupMax, maxs[i]);
+    }
+    peaks.push(toEightBit(groupMin), toEightBit(groupMax));
+  }
+
+  return {
+    version: 2,
+    channels: 1,
+    sample_rate: sampleRate,
+    samples_per_pixel: BASE_SAMPLES_PER_PIXEL * group,
+    bits: 8,
+    length: peaks.length / 2,
+    data: peaks
+  };
+}
+
+function toEightBit(sample: number): number {
+  return Math.max(-128, Math.min(127, Math.round(sample * 128)));
+}
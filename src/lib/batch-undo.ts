@@ -0,0 +1,131 @@
+import type { StorageProvider } from './storage';
+import { ConflictError, NotFoundError } from './storage-errors';
+import { activityLogger, ActivityLogEntry, createBatchId } from './activity-log';
+import { isRelocation } from './activity-store';
+
+export interface UndoResult {
+  // Where the file or folder is now, and where the batch found it
+  fromPath: string;
+  toPath: string;
+  status: 'restored' | 'would_restore' | 'conflict' | 'error';
+  message: string;
+}
+
+export interface UndoReport {
+  batchId: string;
+  // Batch the restores were logged under; absent for a preview
+  undoBatchId?: string;
+  results: UndoResult[];
+  // Folders the batch created that were empty after the undo and so removed
+  removedFolders: string[];
+}
+
+/**
+ * Reverse the moves and renames of one batch, newest first, so chained moves
+ * unwind in order. An entry is skipped as a conflict when its file is gone
+ * from where the batch put it, was edited since (content_hash changed), or
+ * its old location is taken. Moves an earlier undo run already put back are
+ * left out, so running it again retries only the conflicts. With `dryRun`
+ * nothing is moved.
+ */
+export async function undoBatch(storage: StorageProvider, batchId: string, dryRun: boolean): Promise<UndoReport> {
+  const entries = await activityLogger.getBatch(batchId);
+  const { activities: restores } = await activityLogger.query({ undoOf: batchId });
+  const moves = entries
+    .filter((entry): entry is ActivityLogEntry & { oldPath: string; newPath: string } => isRelocation(entry))
+    .filter(entry => !restores.some(restore =>
+      restore.action === 'restore' && restore.oldPath === entry.newPath && restore.newPath === entry.oldPath
+    ))
+    .reverse();
+
+  const undoBatchId = dryRun ? undefined : createBatchId();
+  const results: UndoResult[] = [];
+
+  for (const entry of moves) {
+    const result: UndoResult = { fromPath: entry.newPath, toPath: entry.oldPath, status: 'conflict', message: '' };
+    results.push(result);
+
+    const conflict = await findConflict(storage, entry);
+    if (conflict) {
+      result.message = conflict;
+      continue;
+    }
+
+    if (dryRun) {
+      result.status = 'would_restore';
+      result.message = `Would move back to ${entry.oldPath}`;
+      continue;
+    }
+
+    try {
+      // Something may have taken the old location since findConflict looked
+      const moved = await storage.moveFile(entry.newPath, entry.oldPath, { autorename: false });
+      result.status = 'restored';
+      result.message = `Moved back to ${entry.oldPath}`;
+
+      await activityLogger.logActivity({
+        action: 'restore',
+        filePath: entry.oldPath,
+        oldPath: entry.newPath,
+        newPath: entry.oldPath,
+        batchId: undoBatchId,
+        details: {
+          originalName: entry.newPath.split('/').pop(),
+          newName: entry.oldPath.split('/').pop(),
+          contentHash: 'content_hash' in moved.metadata ? moved.metadata.content_hash : undefined,
+          undoOf: batchId
+        }
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        result.message = `Something else is at ${entry.oldPath} now`;
+        continue;
+      }
+      console.error(`Error undoing move of ${entry.newPath}:`, error);
+      result.status = 'error';
+      result.message = error instanceof Error ? error.message : 'Failed to move back';
+    }
+  }
+
+  const removedFolders: string[] = [];
+  if (!dryRun) {
+    const createdFolders = entries.filter(entry => entry.action === 'create_folder').map(entry => entry.filePath).reverse();
+    for (const folder of createdFolders) {
+      try {
+        if ((await storage.listFiles(folder)).length > 0) continue;
+        await storage.deleteFile(folder);
+        removedFolders.push(folder);
+      } catch (error) {
+        // Already gone, or not ours to clean up any more
+        if (!(error instanceof NotFoundError)) {
+          console.error(`Error removing folder ${folder}:`, error);
+        }
+      }
+    }
+  }
+
+  return { batchId, undoBatchId, results, removedFolders };
+}
+
+async function findConflict(storage: StorageProvider, entry: ActivityLogEntry & { oldPath: string; newPath: string }): Promise<string | null> {
+  let current;
+  try {
+    current = await storage.getFileMetadata(entry.newPath);
+  } catch (error) {
+    if (error instanceof NotFoundError) return `No longer at ${entry.newPath}`;
+    throw error;
+  }
+
+  const recordedHash = entry.details?.contentHash;
+  if (recordedHash && 'content_hash' in current && current.content_hash !== recordedHash) {
+    return 'Modified since it was moved';
+  }
+
+  try {
+    await storage.getFileMetadata(entry.oldPath);
+    return `Something else is at ${entry.oldPath} now`;
+  } catch (error) {
+    if (error instanceof NotFoundError) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,233 @@
+import { MUSIC_BASE_PATH } from './config';
+import type { StorageEntry, StorageProvider } from './storage';
+import { stateCollection } from './state-store';
+
+export interface WatchedFolder {
+  path: string;
+  recursive: boolean;
+}
+
+export interface FolderChanges {
+  folder: string;
+  // True when there was no usable cursor and the whole folder was reported as added
+  initial: boolean;
+  added: StorageEntry[];
+  modified: StorageEntry[];
+  deleted: StorageEntry[];
+  lastSync?: string;
+  syncedAt: string;
+}
+
+interface FolderSyncState {
+  cursor: string;
+  recursive: boolean;
+  lastSync: string;
+  // path_lower -> rev ('' for folders), used to tell added from modified
+  known: { [pathLower: string]: string };
+}
+
+// Keyed by storage owner and folder path. sync-state.json, where cursors used
+// to be kept, had no owner to tell accounts apart, so it is not imported and
+// each folder starts over from a full listing once.
+const syncStates = stateCollection<FolderSyncState>('sync-state');
+
+/**
+ * Folders Roadie keeps cursors for by default. Live Recordings is watched as
+ * a whole since recordings are filed under the year they were made.
+ */
+export function getWatchedFolders(): WatchedFolder[] {
+  return [
+    { path: `${MUSIC_BASE_PATH}/New Uploads`, recursive: false },
+    { path: `${MUSIC_BASE_PATH}/Live Recordings`, recursive: true },
+  ];
+}
+
+class ChangeTracker {
+  // Tail of the syncs running per owner and folder
+  private queues = new Map<string, Promise<unknown>>();
+
+  /**
+   * Return entries added/modified/deleted under a folder since the last sync
+   * and advance its cursor. With `peek` the cursor is left where it was.
+   */
+  getChanges(
+    storage: StorageProvider,
+    folder: WatchedFolder,
+    options: { peek?: boolean } = {}
+  ): Promise<FolderChanges> {
+    return this.processChanges(storage, folder, async changes => changes, options);
+  }
+
+  /**
+   * Sync a folder and hand the changes to `handle`. The cursor only moves on
+   * once `handle` resolves (never with `peek`), so changes whose handling
+   * failed are reported again next time. Syncs of the same folder for the
+   * same owner run one at a time, from reading the cursor to saving the next.
+   */
+  async processChanges<T>(
+    storage: StorageProvider,
+    folder: WatchedFolder,
+    handle: (changes: FolderChanges) => Promise<T>,
+    options: { peek?: boolean } = {}
+  ): Promise<T> {
+    const key = stateKey(await storage.getOwner(), folder.path);
+    const run = (this.queues.get(key) || Promise.resolve()).then(() =>
+      this.sync(storage, folder, key, handle, options.peek ?? false)
+    );
+
+    const tail = run.catch(() => undefined);
+    this.queues.set(key, tail);
+    tail.then(() => {
+      if (this.queues.get(key) === tail) this.queues.delete(key);
+    });
+    return run;
+  }
+
+  async resetFolder(storage: StorageProvider, folderPath: string): Promise<void> {
+    await syncStates.delete(stateKey(await storage.getOwner(), folderPath));
+  }
+
+  async getSyncStatus(storage: StorageProvider): Promise<{ folder: string; lastSync: string; trackedEntries: number }[]> {
+    const prefix = stateKey(await storage.getOwner(), '');
+    return Object.entries(await syncStates.getAll())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, folderState]) => ({
+        folder: key.slice(prefix.length),
+        lastSync: folderState.lastSync,
+        trackedEntries: Object.keys(folderState.known).length
+      }));
+  }
+
+  private async sync<T>(
+    storage: StorageProvider,
+    folder: WatchedFolder,
+    key: string,
+    handle: (changes: FolderChanges) => Promise<T>,
+    peek: boolean
+  ): Promise<T> {
+    const syncedAt = new Date().toISOString();
+    const previous = await syncStates.get(key);
+
+    let changes: FolderChanges;
+    let next: FolderSyncState;
+
+    if (previous && previous.recursive === folder.recursive) {
+      try {
+        ({ changes, next } = await this.continueSync(storage, folder, previous, syncedAt));
+      } catch (error) {
+        if (!(error instanceof Error && error.message.includes('reset'))) throw error;
+        // Cursor expired or was invalidated; start over from a full listing
+        console.log(`Change tracker: cursor reset for ${folder.path}, resyncing`);
+        ({ changes, next } = await this.initialSync(storage, folder, syncedAt));
+      }
+    } else {
+      ({ changes, next } = await this.initialSync(storage, folder, syncedAt));
+    }
+
+    const result = await handle(changes);
+
+    if (!peek) {
+      let saved = false;
+      await syncStates.update(key, current => {
+        // Another process synced the folder meanwhile; its cursor is at least as far along
+        if (current?.cursor !== previous?.cursor) return current;
+        saved = true;
+        return next;
+      });
+      if (!saved) console.log(`Change tracker: ${folder.path} was synced elsewhere meanwhile, keeping that cursor`);
+    }
+
+    return result;
+  }
+
+  private async initialSync(storage: StorageProvider, folder: WatchedFolder, syncedAt: string) {
+    // Take the cursor first so anything changing during the listing shows up next time
+    const cursor = await storage.getLatestCursor(folder.path, { recursive: folder.recursive });
+    const { entries } = await storage.listAllFiles(folder.path, { recursive: folder.recursive });
+
+    const known: FolderSyncState['known'] = {};
+    for (const entry of entries) {
+      known[entry.path_lower!] = revOf(entry);
+    }
+
+    return {
+      changes: {
+        folder: folder.path,
+        initial: true,
+        added: entries.filter(entry => entry['.tag'] !== 'deleted'),
+        modified: [],
+        deleted: [],
+        syncedAt
+      },
+      next: { cursor, recursive: folder.recursive, lastSync: syncedAt, known }
+    };
+  }
+
+  private async continueSync(
+    storage: StorageProvider,
+    folder: WatchedFolder,
+    previous: FolderSyncState,
+    syncedAt: string
+  ) {
+    const known = { ...previous.known };
+    const added: StorageEntry[] = [];
+    const modified: StorageEntry[] = [];
+    const deleted: StorageEntry[] = [];
+
+    let cursor = previous.cursor;
+    let hasMore = true;
+
+    while (hasMore) {
+      const page = await storage.listChanges(cursor);
+
+      for (const entry of page.entries) {
+        const key = entry.path_lower!;
+        // Recursive cursors also report the watched folder itself
+        if (key === folder.path.toLowerCase()) continue;
+
+        if (entry['.tag'] === 'deleted') {
+          if (key in known) {
+            deleted.push(entry);
+            delete known[key];
+          }
+          // A deleted folder is reported once, without its children
+          for (const knownKey of Object.keys(known)) {
+            if (knownKey.startsWith(`${key}/`)) delete known[knownKey];
+          }
+        } else if (!(key in known)) {
+          added.push(entry);
+          known[key] = revOf(entry);
+        } else if (known[key] !== revOf(entry)) {
+          modified.push(entry);
+          known[key] = revOf(entry);
+        }
+      }
+
+      cursor = page.cursor;
+      hasMore = page.hasMore;
+    }
+
+    return {
+      changes: {
+        folder: folder.path,
+        initial: false,
+        added,
+        modified,
+        deleted,
+        lastSync: previous.lastSync,
+        syncedAt
+      },
+      next: { cursor, recursive: folder.recursive, lastSync: syncedAt, known }
+    };
+  }
+}
+
+function stateKey(owner: string, folderPath: string): string {
+  return `${owner}\n${folderPath}`;
+}
+
+function revOf(entry: StorageEntry): string {
+  return entry['.tag'] === 'file' ? entry.rev : '';
+}
+
+export const changeTracker = new ChangeTracker();
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ClusterEdit,
+  DEFAULT_SIMILARITY_WEIGHTS,
+  LabeledPair,
+  learnWeights,
+  SimilarityFeatures,
+  SimilarityWeights,
+  weightedSimilarity
+} from './cluster-feedback';
+
+function pairs(count: number, same: boolean, edit: ClusterEdit, features: SimilarityFeatures): LabeledPair[] {
+  return Array.from({ length: count }, (_, i) => ({
+    a: `${edit}-${i}-a.wav`,
+    b: `${edit}-${i}-b.wav`,
+    same,
+    edit,
+    features,
+    createdAt: '2024-01-01T00:00:00.000Z'
+  }));
+}
+
+const total = (weights: SimilarityWeights) => Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+
+describe('learnWeights', () => {
+  it('keeps the defaults until enough pairs are labeled', () => {
+    expect(learnWeights(pairs(9, true, 'merge', { filename: 0.2, acoustic: 0.9 }))).toBeNull();
+  });
+
+  it('gains weight for the term merges agree with and splits disagree with', () => {
+    // Takes merged by hand sound alike but are named differently; files split apart are the reverse
+    const learned = learnWeights([
+      ...pairs(10, true, 'merge', { filename: 0.2, acoustic: 0.9, tempo: 0.8 }),
+      ...pairs(10, false, 'split', { filename: 0.8, acoustic: 0.2, tempo: 0.8 })
+    ])!;
+    expect(learned.acoustic / learned.filename).toBeGreaterThan(
+      DEFAULT_SIMILARITY_WEIGHTS.acoustic / DEFAULT_SIMILARITY_WEIGHTS.filename
+    );
+  });
+
+  it('moves the other way when the names are what tells files apart', () => {
+    const learned = learnWeights([
+      ...pairs(10, true, 'merge', { filename: 0.9, acoustic: 0.3 }),
+      ...pairs(10, false, 'split', { filename: 0.1, acoustic: 0.7 })
+    ])!;
+    expect(learned.filename / learned.acoustic).toBeGreaterThan(
+      DEFAULT_SIMILARITY_WEIGHTS.filename / DEFAULT_SIMILARITY_WEIGHTS.acoustic
+    );
+  });
+
+  it('weighs merges and splits equally however many there are of each', () => {
+    const learned = learnWeights([
+      ...pairs(2, true, 'merge', { filename: 0.2, acoustic: 0.9 }),
+      ...pairs(40, false, 'split', { filename: 0.8, acoustic: 0.2 })
+    ])!;
+    expect(learned.acoustic / learned.filename).toBeGreaterThan(
+      DEFAULT_SIMILARITY_WEIGHTS.acoustic / DEFAULT_SIMILARITY_WEIGHTS.filename
+    );
+  });
+
+  it('returns positive weights with the same total as the defaults', () => {
+    for (const learned of [
+      learnWeights(pairs(20, true, 'merge', { filename: 1, duration: 1, tempo: 1, key: 1, date: 1, format: 1, acoustic: 1 })),
+      learnWeights(pairs(20, false, 'split', { filename: 0, duration: 0, tempo: 0, key: 0, date: 0, format: 0, acoustic: 0 })),
+      learnWeights([
+        ...pairs(10, true, 'merge', { filename: 0.2, acoustic: 0.9 }),
+        ...pairs(10, false, 'remove', { filename: 0.8, acoustic: 0.2 })
+      ])
+    ]) {
+      expect(Object.keys(learned!).sort()).toEqual(Object.keys(DEFAULT_SIMILARITY_WEIGHTS).sort());
+      for (const weight of Object.values(learned!)) expect(weight).toBeGreaterThan(0);
+      expect(total(learned!)).toBeCloseTo(total(DEFAULT_SIMILARITY_WEIGHTS), 2);
+    }
+  });
+});
+
+describe('weightedSimilarity', () => {
+  it('averages only the terms that could be compared', () => {
+    const weights = { ...DEFAULT_SIMILARITY_WEIGHTS, filename: 3, tempo: 1 };
+    expect(weightedSimilarity({ filename: 1, tempo: 0 }, weights)).toBeCloseTo(0.75);
+    expect(weightedSimilarity({}, weights)).toBe(0);
+  });
+});
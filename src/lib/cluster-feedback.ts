@@ -0,0 +1,225 @@
+import { stateCollection } from './state-store';
+
+/**
+ * Relative importance of each term of the clustering similarity. Only the
+ * ratios matter: a pair's similarity is the weighted mean of the terms it has.
+ */
+export interface SimilarityWeights {
+  filename: number;
+  duration: number;
+  tempo: number;
+  key: number;
+  date: number;
+  format: number;
+  acoustic: number;
+}
+
+/**
+ * Per-term similarity of two files, each 0-1. A term is left out when it
+ * can't be compared (no tempo measured, say), and then carries no weight.
+ */
+export type SimilarityFeatures = Partial<Record<keyof SimilarityWeights, number>>;
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+  filename: 0.6,
+  duration: 0.15,
+  tempo: 0.15,
+  key: 0.15,
+  date: 0.15,
+  format: 0.1,
+  acoustic: 0.6
+};
+
+const WEIGHT_NAMES = Object.keys(DEFAULT_SIMILARITY_WEIGHTS) as (keyof SimilarityWeights)[];
+
+export type ClusterEdit = 'merge' | 'split' | 'remove' | 'rename';
+
+/**
+ * Two files a user said do (same) or don't belong together, with the term
+ * similarities they had at the time so weights can be refit without
+ * fingerprinting the files again
+ */
+export interface LabeledPair {
+  a: string;
+  b: string;
+  same: boolean;
+  edit: ClusterEdit;
+  features: SimilarityFeatures;
+  createdAt: string;
+}
+
+export interface ClusterFeedbackSummary {
+  workspace: string;
+  weights: SimilarityWeights;
+  defaults: SimilarityWeights;
+  // True until enough edits were recorded to fit weights
+  isDefault: boolean;
+  pairs: { same: number; different: number };
+  updatedAt?: string;
+}
+
+interface WorkspaceFeedback {
+  pairs: LabeledPair[];
+  weights: SimilarityWeights;
+  isDefault: boolean;
+  updatedAt: string;
+}
+
+// Weights are only fit once this many pairs are labeled; before that the defaults apply
+const MIN_LABELED_PAIRS = 10;
+// Oldest labels are dropped beyond this, so the weights follow how the band files things now
+const MAX_LABELED_PAIRS = 2000;
+
+// Fit: logistic loss on (similarity - DECISION_POINT) * SCALE, by gradient
+// descent on log-weights so they stay positive
+const DECISION_POINT = 0.5;
+const SCALE = 10;
+const EPOCHS = 300;
+const LEARNING_RATE = 0.5;
+// Pull toward the defaults, so a handful of edits nudges the weights instead of overturning them
+const REGULARIZATION = 0.05;
+const MIN_WEIGHT = 0.02;
+const MAX_WEIGHT = 1;
+
+/**
+ * Weighted mean of the term similarities present
+ */
+export function weightedSimilarity(features: SimilarityFeatures, weights: SimilarityWeights): number {
+  let similarity = 0;
+  let weightSum = 0;
+  for (const name of WEIGHT_NAMES) {
+    const value = features[name];
+    if (value === undefined) continue;
+    similarity += value * weights[name];
+    weightSum += weights[name];
+  }
+  return weightSum > 0 ? similarity / weightSum : 0;
+}
+
+/**
+ * Fit weights to labeled pairs: terms that separate the pairs users kept
+ * together from those they pulled apart gain weight. "Same" and "different"
+ * labels count equally however many of each there are. The result adds up
+ * to the same total as the defaults, so the two read side by side. Null
+ * when there are too few labels to go on.
+ */
+export function learnWeights(pairs: LabeledPair[]): SimilarityWeights | null {
+  if (pairs.length < MIN_LABELED_PAIRS) return null;
+
+  const sameCount = pairs.filter(pair => pair.same).length;
+  const differentCount = pairs.length - sameCount;
+  const prior = WEIGHT_NAMES.map(name => Math.log(DEFAULT_SIMILARITY_WEIGHTS[name]));
+  const logWeights = [...prior];
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const weights = logWeights.map(Math.exp);
+    const gradient = logWeights.map((value, k) => 2 * REGULARIZATION * (value - prior[k]));
+
+    for (const pair of pairs) {
+      const present = WEIGHT_NAMES.map(name => pair.features[name]);
+      let weightSum = 0;
+      let weighted = 0;
+      present.forEach((value, k) => {
+        if (value === undefined) return;
+        weightSum += weights[k];
+        weighted += weights[k] * value;
+      });
+      if (weightSum === 0) continue;
+
+      const similarity = weighted / weightSum;
+      const probability = 1 / (1 + Math.exp(-SCALE * (similarity - DECISION_POINT)));
+      const classWeight = pairs.length / (2 * (pair.same ? sameCount : differentCount));
+      const lossSlope = (SCALE * (probability - (pair.same ? 1 : 0)) * classWeight) / pairs.length;
+
+      // d(similarity)/d(log w_k) = w_k * (f_k - similarity) / sum(w)
+      present.forEach((value, k) => {
+        if (value === undefined) return;
+        gradient[k] += lossSlope * (weights[k] * (value - similarity)) / weightSum;
+      });
+    }
+
+    gradient.forEach((slope, k) => {
+      logWeights[k] = Math.min(Math.log(MAX_WEIGHT), Math.max(Math.log(MIN_WEIGHT), logWeights[k] - LEARNING_RATE * slope));
+    });
+  }
+
+  const fitted = logWeights.map(Math.exp);
+  const scale = WEIGHT_NAMES.reduce((sum, name) => sum + DEFAULT_SIMILARITY_WEIGHTS[name], 0) /
+    fitted.reduce((sum, weight) => sum + weight, 0);
+  const learned = { ...DEFAULT_SIMILARITY_WEIGHTS };
+  WEIGHT_NAMES.forEach((name, k) => {
+    learned[name] = Math.round(fitted[k] * scale * 1000) / 1000;
+  });
+  return learned;
+}
+
+const feedbackByWorkspace = stateCollection<WorkspaceFeedback>('cluster-feedback', {
+  file: 'cluster-feedback.json',
+  convert: data => data as { [workspace: string]: WorkspaceFeedback }
+});
+
+/**
+ * Cluster corrections and the similarity weights fit to them, per workspace
+ * (the music folder a team works in)
+ */
+class ClusterFeedbackStore {
+  async getWeights(workspace: string): Promise<SimilarityWeights> {
+    return withDefaults((await feedbackByWorkspace.get(workspace))?.weights);
+  }
+
+  async getSummary(workspace: string): Promise<ClusterFeedbackSummary> {
+    return summarize(workspace, await feedbackByWorkspace.get(workspace));
+  }
+
+  /**
+   * Record labeled pairs and refit the workspace's weights. A pair labeled
+   * again replaces its earlier label.
+   */
+  async addPairs(workspace: string, pairs: LabeledPair[]): Promise<ClusterFeedbackSummary> {
+    const updated = await feedbackByWorkspace.update(workspace, existing => {
+      const byPair = new Map<string, LabeledPair>();
+      for (const pair of [...(existing?.pairs || []), ...pairs]) {
+        const pairKey = [pair.a, pair.b].sort().join('\n');
+        byPair.delete(pairKey);
+        byPair.set(pairKey, pair);
+      }
+
+      const kept = [...byPair.values()].slice(-MAX_LABELED_PAIRS);
+      const learned = learnWeights(kept);
+      return {
+        pairs: kept,
+        weights: learned || DEFAULT_SIMILARITY_WEIGHTS,
+        isDefault: !learned,
+        updatedAt: new Date().toISOString()
+      };
+    });
+    return summarize(workspace, updated);
+  }
+
+  /**
+   * Forget the workspace's corrections and go back to the default weights
+   */
+  async reset(workspace: string): Promise<ClusterFeedbackSummary> {
+    await feedbackByWorkspace.delete(workspace);
+    return summarize(workspace, undefined);
+  }
+}
+
+function summarize(workspace: string, feedback: WorkspaceFeedback | undefined): ClusterFeedbackSummary {
+  const same = feedback?.pairs.filter(pair => pair.same).length || 0;
+  return {
+    workspace,
+    weights: withDefaults(feedback?.weights),
+    defaults: DEFAULT_SIMILARITY_WEIGHTS,
+    isDefault: feedback?.isDefault ?? true,
+    pairs: { same, different: (feedback?.pairs.length || 0) - same },
+    updatedAt: feedback?.updatedAt
+  };
+}
+
+// Weights fit before a term existed get its default
+function withDefaults(weights: Partial<SimilarityWeights> | undefined): SimilarityWeights {
+  return { ...DEFAULT_SIMILARITY_WEIGHTS, ...weights };
+}
+
+export const clusterFeedbackStore = new ClusterFeedbackStore();
@@ -1,8 +1,23 @@
 export const FRONTEND_ORIGIN = process.env.FRONTEND_ORIGIN || 'http://localhost:3000';
+export const BACKEND_ORIGIN = process.env.NEXTAUTH_URL || 'http://localhost:3001';
 
 export const MUSIC_BASE_PATH = process.env.MUSIC_BASE_PATH || '/Music/Fiasco Total';
+// Year folder for files whose recording date is unknown; dated files go to their own year
 export const MUSIC_ACTIVE_YEAR = process.env.MUSIC_ACTIVE_YEAR || '2025';
 
+// 'dropbox' (default) or 'local' to run against a folder on disk, e.g. a NAS mirror
+export const STORAGE_PROVIDER = process.env.STORAGE_PROVIDER || 'dropbox';
+export const LOCAL_STORAGE_ROOT = process.env.LOCAL_STORAGE_ROOT || '';
+
+// Roadie's own records (accounts, sync cursors, caches, catalogs): 'sqlite' (default) or 'json' files,
+// in DATA_DIR (default: working directory)
+export const STATE_STORE = process.env.STATE_STORE || 'sqlite';
+export const DATA_DIR = process.env.DATA_DIR || '';
+
+// 'sqlite' (default) or 'jsonl' for an append-only file, in ACTIVITY_LOG_DIR (default: DATA_DIR)
+export const ACTIVITY_LOG_STORE = process.env.ACTIVITY_LOG_STORE || 'sqlite';
+export const ACTIVITY_LOG_DIR = process.env.ACTIVITY_LOG_DIR || '';
+
 export function getCorsHeaders(origin = FRONTEND_ORIGIN) {
   return {
     'Access-Control-Allow-Origin': origin,
@@ -0,0 +1,99 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { accountStore } from './account-store';
+import { createStorageProvider } from './storage';
+import { processUploads, ProcessUploadsSummary } from './process-uploads';
+
+export interface WebhookJob {
+  accountId: string;
+  startedAt: string;
+  finishedAt?: string;
+  status: 'running' | 'success' | 'error' | 'skipped';
+  message?: string;
+  summary?: Pick<ProcessUploadsSummary, 'processed' | 'skipped' | 'total'>;
+}
+
+/**
+ * Check X-Dropbox-Signature: hex HMAC-SHA256 of the raw body keyed with the app secret
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string | null, appSecret: string): boolean {
+  if (!signature || !appSecret) return false;
+  const expected = Buffer.from(createHmac('sha256', appSecret).update(rawBody).digest('hex'), 'hex');
+  const given = Buffer.from(signature, 'hex');
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Account ids from a notification body ({ list_folder: { accounts: [...] } })
+ */
+export function parseWebhookAccounts(rawBody: string): string[] {
+  const payload = JSON.parse(rawBody);
+  const accounts: unknown = payload?.list_folder?.accounts;
+  if (!Array.isArray(accounts)) return [];
+  return [...new Set(accounts.filter((id): id is string => typeof id === 'string'))];
+}
+
+/**
+ * In-process queue running process-uploads for accounts Dropbox told us about.
+ * Notifications for an account that is already queued or running collapse into
+ * a single follow-up run.
+ */
+class UploadQueue {
+  private pending = new Set<string>();
+  private draining: Promise<void> | null = null;
+  private recentJobs: WebhookJob[] = [];
+
+  enqueue(accountId: string) {
+    this.pending.add(accountId);
+  }
+
+  drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.run().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  getRecentJobs(): WebhookJob[] {
+    return [...this.recentJobs];
+  }
+
+  private async run() {
+    while (this.pending.size > 0) {
+      const accountId = this.pending.values().next().value as string;
+      this.pending.delete(accountId);
+      await this.processAccount(accountId);
+    }
+  }
+
+  private async processAccount(accountId: string) {
+    const job: WebhookJob = { accountId, startedAt: new Date().toISOString(), status: 'running' };
+    this.recentJobs = [job, ...this.recentJobs].slice(0, 20);
+
+    try {
+      const accessToken = await accountStore.getAccessToken(accountId);
+      if (!accessToken) {
+        job.status = 'skipped';
+        job.message = 'No stored token for account; sign in once to enable auto-processing';
+        return;
+      }
+
+      const storage = createStorageProvider(accessToken);
+      const summary = await processUploads(storage, { action: 'process', onlyNew: true });
+
+      job.status = 'success';
+      job.message = summary.message;
+      job.summary = { processed: summary.processed, skipped: summary.skipped, total: summary.total };
+      console.log(`Webhook: processed uploads for ${accountId}: ${summary.message}`);
+    } catch (error) {
+      job.status = 'error';
+      job.message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Webhook: failed to process uploads for ${accountId}:`, error);
+    } finally {
+      job.finishedAt = new Date().toISOString();
+    }
+  }
+}
+
+export const uploadQueue = new UploadQueue();
@@ -1,4 +1,43 @@
-import { Dropbox } from 'dropbox';
+import { createHash } from 'crypto';
+import { Dropbox, DropboxResponse, files } from 'dropbox';
+import {
+  BatchRelocationResult,
+  ChangesPage,
+  collectEntries,
+  ListFilesOptions,
+  ListFilesResult,
+  MoveOptions,
+  RelocationPair,
+  StorageEntry,
+  StorageProvider,
+  UploadOffsetError,
+  UploadOptions,
+  UploadSessionCursor
+} from './storage';
+import { AuthExpiredError, classifyStorageError, NotFoundError, RateLimitedError, StorageError } from './storage-errors';
+
+// filesUpload rejects anything larger; bigger buffers go through an upload session
+const SINGLE_UPLOAD_LIMIT = 150 * 1024 * 1024;
+const SESSION_CHUNK_SIZE = 8 * 1024 * 1024;
+// move_batch_v2/copy_batch_v2 accept at most 1000 entries per call
+const RELOCATION_BATCH_SIZE = 1000;
+const BATCH_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+// Retries for 429s and transient 5xx/network failures
+const MAX_ATTEMPTS = 5;
+// content_hash is computed over blocks of this size
+const HASH_BLOCK_SIZE = 4 * 1024 * 1024;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+
+interface RequestOptions<T> {
+  // The call changes something, so a 5xx or dropped connection doesn't say
+  // whether it went through and it is not simply sent again
+  mutation?: boolean;
+  // For mutations: the call's result if storage shows it went through, or
+  // undefined when it didn't and sending it again is safe. Throw when it
+  // can't be told; the original error is then thrown.
+  landed?: () => Promise<T | undefined>;
+}
 
 export interface DropboxConfig {
   clientId: string;
@@ -6,10 +45,11 @@ export interface DropboxConfig {
   accessToken?: string;
 }
 
-export class DropboxService {
+export class DropboxService implements StorageProvider {
   private dbx: Dropbox;
   private clientId: string;
   private clientSecret: string;
+  private owner?: Promise<string>;
 
   constructor(accessTokenOrConfig: string | DropboxConfig) {
     if (typeof accessTokenOrConfig === 'string') {
@@ -76,62 +116,192 @@ export class DropboxService {
   }
 
   async listFiles(path: string = '') {
+    console.log('Dropbox Service: Listing files for path:', path);
+    const { entries } = await this.listAllFiles(path);
+    console.log('Dropbox Service: Listing complete, entries:', entries.length);
+    return entries;
+  }
+
+  /**
+   * Yield every entry under a folder, following has_more/cursor pages
+   */
+  async *iterateFiles(path: string = '', options: ListFilesOptions = {}): AsyncGenerator<StorageEntry> {
+    const recursive = options.recursive ?? false;
+    let page = await this.request('list files', () => this.dbx.filesListFolder({ path, recursive }));
+    while (true) {
+      for (const entry of page.entries) {
+        // Recursive listings include the folder itself; callers only want its contents
+        if (recursive && entry.path_lower === path.toLowerCase()) continue;
+        yield entry;
+      }
+      if (!page.has_more) break;
+      const cursor = page.cursor;
+      page = await this.request('list files', () => this.dbx.filesListFolderContinue({ cursor }));
+    }
+  }
+
+  async listAllFiles(path: string = '', options: ListFilesOptions = {}): Promise<ListFilesResult> {
+    return collectEntries(this.iterateFiles(path, options), options.limit);
+  }
+
+  /**
+   * Cursor pointing at the current state of a folder, without listing it
+   */
+  async getLatestCursor(path: string = '', options: Pick<ListFilesOptions, 'recursive'> = {}): Promise<string> {
+    const result = await this.request('get latest cursor', () => this.dbx.filesListFolderGetLatestCursor({
+      path,
+      recursive: options.recursive ?? false
+    }));
+    return result.cursor;
+  }
+
+  /**
+   * Entries changed since the cursor was issued. An expired cursor fails with "reset/".
+   */
+  async listChanges(cursor: string): Promise<ChangesPage> {
+    const result = await this.request('list changes', () => this.dbx.filesListFolderContinue({ cursor }));
+    return {
+      entries: result.entries,
+      cursor: result.cursor,
+      hasMore: result.has_more
+    };
+  }
+
+  async uploadFile(path: string, contents: Buffer | File, options: UploadOptions = {}) {
+    const data = Buffer.isBuffer(contents) ? contents : Buffer.from(await contents.arrayBuffer());
+    if (data.length > SINGLE_UPLOAD_LIMIT) {
+      return this.uploadInChunks(path, data, options);
+    }
+    return this.request('upload file', () => this.dbx.filesUpload({
+      path,
+      contents: data,
+      ...writeMode(options)
+    }), {
+      mutation: true,
+      landed: async () => {
+        const existing = await this.metadataOrNull(path);
+        return existing?.['.tag'] === 'file' && existing.content_hash === contentHashOf(data) ? existing : undefined;
+      }
+    });
+  }
+
+  async startUploadSession(chunk: Buffer): Promise<UploadSessionCursor> {
+    const result = await this.request('start upload session', () =>
+      this.dbx.filesUploadSessionStart({ contents: chunk, close: false })
+    );
+    return { sessionId: result.session_id, offset: chunk.length };
+  }
+
+  async appendUploadSession(cursor: UploadSessionCursor, chunk: Buffer): Promise<UploadSessionCursor> {
     try {
-      console.log('Dropbox Service: Listing files for path:', path);
-      const response = await this.dbx.filesListFolder({ path });
-      console.log('Dropbox Service: Response received, entries:', response.result.entries.length);
-      return response.result.entries;
-    } catch (error: any) {
-      console.error('Dropbox Service Error:', error);
-      const errorMessage = error?.error?.error_summary || error?.message || 'Unknown error';
-      throw new Error(`Failed to list files: ${errorMessage}`);
+      await this.request('append to upload session', () => this.dbx.filesUploadSessionAppendV2({
+        cursor: { session_id: cursor.sessionId, offset: cursor.offset },
+        contents: chunk,
+        close: false
+      }));
+      return { sessionId: cursor.sessionId, offset: cursor.offset + chunk.length };
+    } catch (error) {
+      throw toOffsetError(error);
     }
   }
 
-  async uploadFile(path: string, contents: Buffer | File) {
+  async finishUploadSession(
+    cursor: UploadSessionCursor,
+    path: string,
+    chunk: Buffer = Buffer.alloc(0),
+    options: UploadOptions = {}
+  ) {
     try {
-      const response = await this.dbx.filesUpload({
-        path,
-        contents,
-        mode: 'add',
-        autorename: true
+      return await this.request('finish upload session', () => this.dbx.filesUploadSessionFinish({
+        cursor: { session_id: cursor.sessionId, offset: cursor.offset },
+        commit: { path, ...writeMode(options) },
+        contents: chunk
+      }), {
+        mutation: true,
+        landed: async () => {
+          // A repeated finish of a committed session fails anyway, so only a match counts
+          const existing = await this.metadataOrNull(path);
+          if (existing?.['.tag'] === 'file' && existing.size === cursor.offset + chunk.length) return existing;
+          throw new StorageError('finish upload session', 'not found where it was committed');
+        }
       });
-      return response.result;
     } catch (error) {
-      throw new Error(`Failed to upload file: ${error}`);
+      throw toOffsetError(error);
     }
   }
 
+  private async uploadInChunks(path: string, contents: Buffer, options: UploadOptions): Promise<files.FileMetadata> {
+    let cursor = await this.startUploadSession(contents.subarray(0, SESSION_CHUNK_SIZE));
+    while (contents.length - cursor.offset > SESSION_CHUNK_SIZE) {
+      try {
+        cursor = await this.appendUploadSession(cursor, contents.subarray(cursor.offset, cursor.offset + SESSION_CHUNK_SIZE));
+      } catch (error) {
+        // A retried append that had already landed; carry on from where Dropbox is
+        if (!(error instanceof UploadOffsetError)) throw error;
+        cursor = { sessionId: cursor.sessionId, offset: error.correctOffset };
+      }
+    }
+    return this.finishUploadSession(cursor, path, contents.subarray(cursor.offset), options);
+  }
+
   async downloadFile(path: string): Promise<Buffer> {
-    try {
-      const response = await this.dbx.filesDownload({ path });
-      const result = response.result as any;
-      // Convert fileBinary to Buffer
-      if (result.fileBinary) {
-        return Buffer.from(result.fileBinary);
+    const result = await this.request('download file', () => this.dbx.filesDownload({ path })) as { fileBinary?: Buffer };
+    // Convert fileBinary to Buffer
+    if (result.fileBinary) {
+      return Buffer.from(result.fileBinary);
+    }
+    throw new StorageError('download file', 'No file content received');
+  }
+
+  async downloadFileRange(path: string, start: number, end: number): Promise<Buffer> {
+    if (end <= start) return Buffer.alloc(0);
+    // The SDK can't send a Range header, the temporary link can
+    const link = await this.getTemporaryLink(path);
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(link, { headers: { Range: `bytes=${start}-${end - 1}` } });
+      } catch (error) {
+        if (attempt >= MAX_ATTEMPTS) throw classifyStorageError('download file range', errorSummary(error));
+        await sleep(Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS));
+        continue;
       }
-      throw new Error('No file content received');
-    } catch (error) {
-      throw new Error(`Failed to download file: ${error}`);
+
+      // 416: the range starts past the end of the file
+      if (response.status === 416) return Buffer.alloc(0);
+      if (response.ok) {
+        const data = Buffer.from(await response.arrayBuffer());
+        // A plain 200 means the range was ignored and we got the whole file
+        return response.status === 206 ? data : data.subarray(start, end);
+      }
+      if ((response.status === 429 || response.status >= 500) && attempt < MAX_ATTEMPTS) {
+        const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+        await sleep(retryAfter !== undefined ? retryAfter * 1000 : Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS));
+        continue;
+      }
+      throw classifyStorageError('download file range', `http_${response.status}`, response.status);
     }
   }
 
   async getFileMetadata(path: string) {
-    try {
-      const response = await this.dbx.filesGetMetadata({ path });
-      return response.result;
-    } catch (error) {
-      throw new Error(`Failed to get file metadata: ${error}`);
-    }
+    return this.request('get file metadata', () => this.dbx.filesGetMetadata({ path }));
   }
 
   async getTemporaryLink(path: string): Promise<string> {
-    try {
-      const response = await this.dbx.filesGetTemporaryLink({ path });
-      return response.result.link;
-    } catch (error) {
-      throw new Error(`Failed to get temporary link: ${error}`);
+    const result = await this.request('get temporary link', () => this.dbx.filesGetTemporaryLink({ path }));
+    return result.link;
+  }
+
+  async getOwner(): Promise<string> {
+    if (!this.owner) {
+      this.owner = this.request('get current account', () => this.dbx.usersGetCurrentAccount())
+        .then(account => `dropbox:${account.account_id}`);
+      this.owner.catch(() => {
+        this.owner = undefined;
+      });
     }
+    return this.owner;
   }
 
   async moveToUploadsFolder() {
@@ -141,99 +311,339 @@ export class DropboxService {
   }
 
   async createFolder(path: string) {
-    try {
-      const response = await this.dbx.filesCreateFolderV2({ path });
-      return response.result;
-    } catch (error) {
-      throw new Error(`Failed to create folder: ${error}`);
-    }
+    return this.request('create folder', () => this.dbx.filesCreateFolderV2({ path }), {
+      mutation: true,
+      landed: async () => {
+        const existing = await this.metadataOrNull(path);
+        return existing?.['.tag'] === 'folder' ? { metadata: existing } : undefined;
+      }
+    });
   }
 
   async deleteFile(path: string) {
-    try {
-      const response = await this.dbx.filesDeleteV2({ path });
-      return response.result;
-    } catch (error) {
-      throw new Error(`Failed to delete file: ${error}`);
-    }
+    return this.request('delete file', () => this.dbx.filesDeleteV2({ path }), {
+      mutation: true,
+      landed: async () => {
+        // Still there: delete again. Gone: it went through, but the result is lost with the response
+        if (await this.metadataOrNull(path)) return undefined;
+        throw new StorageError('delete file', 'already deleted');
+      }
+    });
   }
 
   async searchFiles(query: string, path: string = '') {
-    try {
-      const response = await this.dbx.filesSearchV2({
-        query,
-        options: {
-          path,
-          file_status: 'active'
+    const result = await this.request('search files', () => this.dbx.filesSearchV2({
+      query,
+      options: {
+        path,
+        file_status: { '.tag': 'active' }
+      }
+    }));
+    return result.matches;
+  }
+
+  async moveFile(fromPath: string, toPath: string, options: MoveOptions = {}) {
+    return this.request('move file', () => this.dbx.filesMoveV2({
+      from_path: fromPath,
+      to_path: toPath,
+      autorename: options.autorename ?? true
+    }), {
+      mutation: true,
+      landed: async () => {
+        const metadata = await this.relocationLanded('move', { fromPath, toPath });
+        return metadata && { metadata };
+      }
+    });
+  }
+
+  async copyFile(fromPath: string, toPath: string) {
+    return this.request('copy file', () => this.dbx.filesCopyV2({
+      from_path: fromPath,
+      to_path: toPath,
+      autorename: true
+    }), {
+      mutation: true,
+      landed: async () => {
+        const metadata = await this.relocationLanded('copy', { fromPath, toPath });
+        return metadata && { metadata };
+      }
+    });
+  }
+
+  async moveFiles(pairs: RelocationPair[]): Promise<BatchRelocationResult[]> {
+    return this.relocateBatch('move', pairs);
+  }
+
+  async copyFiles(pairs: RelocationPair[]): Promise<BatchRelocationResult[]> {
+    return this.relocateBatch('copy', pairs);
+  }
+
+  private async relocateBatch(kind: 'move' | 'copy', pairs: RelocationPair[]): Promise<BatchRelocationResult[]> {
+    const results: BatchRelocationResult[] = [];
+
+    for (let start = 0; start < pairs.length; start += RELOCATION_BATCH_SIZE) {
+      const batch = pairs.slice(start, start + RELOCATION_BATCH_SIZE);
+      const arg = {
+        entries: batch.map(pair => ({ from_path: pair.fromPath, to_path: pair.toPath })),
+        autorename: true
+      };
+
+      // Per entry, where a launch that failed without a clear answer left things
+      let checked: (StorageEntry | undefined | null)[] | undefined;
+
+      try {
+        const launch = await this.request(`${kind} files`, () => kind === 'move'
+          ? this.dbx.filesMoveBatchV2(arg)
+          : this.dbx.filesCopyBatchV2(arg), {
+          mutation: true,
+          landed: async () => {
+            checked = await Promise.all(batch.map(pair => this.relocationLanded(kind, pair).catch(() => null)));
+            // Nothing went through: launch it again
+            if (checked.every(metadata => metadata === undefined)) return undefined;
+            throw new StorageError(`${kind} files`, 'batch ran in part');
+          }
+        });
+        const outcome = launch['.tag'] === 'complete'
+          ? launch
+          : await this.waitForRelocationJob(kind, (launch as { async_job_id: string }).async_job_id);
+
+        outcome.entries.forEach((entry, index) => {
+          const pair = batch[index];
+          if (entry['.tag'] === 'success') {
+            results.push({ ...pair, status: 'success', metadata: entry.success });
+          } else {
+            const reason = entry['.tag'] === 'failure' ? relocationFailureSummary(entry.failure) : 'other/';
+            results.push({ ...pair, status: 'error', error: `Failed to ${kind} file: ${reason}` });
+          }
+        });
+      } catch (error) {
+        // Auth and rate-limit failures are the caller's problem, not per-entry results
+        if (error instanceof AuthExpiredError || error instanceof RateLimitedError) throw error;
+        if (checked && !checked.every(metadata => metadata === undefined)) {
+          // The batch ran at least in part; report what storage shows for each entry
+          results.push(...batch.map((pair, index): BatchRelocationResult => {
+            const metadata = checked![index];
+            if (metadata) return { ...pair, status: 'success', metadata };
+            return {
+              ...pair,
+              status: 'error',
+              error: metadata === undefined ? `Not ${kind === 'move' ? 'moved' : 'copied'}; run again` : `Could not tell whether the ${kind} went through`
+            };
+          }));
+          continue;
         }
-      });
-      return response.result.matches;
-    } catch (error) {
-      throw new Error(`Failed to search files: ${error}`);
+        // Anything else failed the whole call; report it against every entry of this batch
+        const message = error instanceof Error ? error.message : `Failed to ${kind} files`;
+        results.push(...batch.map(pair => ({ ...pair, status: 'error' as const, error: message })));
+      }
     }
+
+    return results;
   }
 
-  async moveFile(fromPath: string, toPath: string) {
-    try {
-      const response = await this.dbx.filesMoveV2({
-        from_path: fromPath,
-        to_path: toPath,
-        autorename: true
-      });
-      return response.result;
-    } catch (error) {
-      throw new Error(`Failed to move file: ${error}`);
+  /**
+   * Where a move or copy that failed without a clear answer left the file:
+   * its metadata at the destination if it went through, undefined if it
+   * didn't (sending it again is safe). Throws when it can't be told, e.g. the
+   * destination was taken and Dropbox may have renamed the file.
+   */
+  private async relocationLanded(kind: 'move' | 'copy', pair: RelocationPair): Promise<StorageEntry | undefined> {
+    const source = await this.metadataOrNull(pair.fromPath);
+    const target = await this.metadataOrNull(pair.toPath);
+
+    if (kind === 'move') {
+      if (source) return undefined;
+      if (target) return target;
+    } else {
+      if (!target) return undefined;
+      if (source?.['.tag'] === 'file' && target['.tag'] === 'file' && source.content_hash === target.content_hash) return target;
     }
+    throw new StorageError(`${kind} file`, `could not tell whether ${pair.fromPath} reached ${pair.toPath}`);
   }
 
-  async copyFile(fromPath: string, toPath: string) {
+  private async metadataOrNull(path: string): Promise<StorageEntry | null> {
     try {
-      const response = await this.dbx.filesCopyV2({
-        from_path: fromPath,
-        to_path: toPath,
-        autorename: true
-      });
-      return response.result;
+      return await this.getFileMetadata(path);
     } catch (error) {
-      throw new Error(`Failed to copy file: ${error}`);
+      if (error instanceof NotFoundError) return null;
+      throw error;
     }
   }
 
-  async getDirectPreviewLink(path: string) {
-    try {
-      const response = await this.dbx.filesGetTemporaryLink({ path });
-      return response.result.link;
-    } catch (error) {
-      throw new Error(`Failed to get preview link: ${error}`);
+  /**
+   * Poll a batch job with backoff until Dropbox reports it complete
+   */
+  private async waitForRelocationJob(kind: 'move' | 'copy', asyncJobId: string): Promise<files.RelocationBatchV2Result> {
+    const deadline = Date.now() + BATCH_POLL_TIMEOUT_MS;
+    let delay = 500;
+
+    while (Date.now() < deadline) {
+      await sleep(delay);
+      const status = await this.request(`check ${kind} job`, () => kind === 'move'
+        ? this.dbx.filesMoveBatchCheckV2({ async_job_id: asyncJobId })
+        : this.dbx.filesCopyBatchCheckV2({ async_job_id: asyncJobId }));
+      if (status['.tag'] === 'complete') {
+        return status as files.RelocationBatchV2JobStatusComplete;
+      }
+      delay = Math.min(delay * 2, 5000);
     }
+
+    throw new StorageError(`${kind} files`, `batch job ${asyncJobId} still in progress after ${BATCH_POLL_TIMEOUT_MS / 1000}s`);
+  }
+
+  async getDirectPreviewLink(path: string) {
+    const result = await this.request('get preview link', () => this.dbx.filesGetTemporaryLink({ path }));
+    return result.link;
   }
 
   async getSharedLink(path: string) {
     try {
-      const response = await this.dbx.sharingCreateSharedLinkWithSettings({
+      const result = await this.request('create shared link', () => this.dbx.sharingCreateSharedLinkWithSettings({
         path,
         settings: {
-          access: 'viewer',
+          access: { '.tag': 'viewer' },
           allow_download: true,
-          audience: 'public',
-          requested_visibility: 'public'
+          audience: { '.tag': 'public' },
+          requested_visibility: { '.tag': 'public' }
         }
-      });
-      const directUrl = response.result.url.replace('?dl=0', '?dl=1');
+      }));
+      const directUrl = result.url.replace('?dl=0', '?dl=1');
       return directUrl;
     } catch (error) {
-      if (error.error && error.error.error && error.error.error['.tag'] === 'shared_link_already_exists') {
-        try {
-          const existingLinks = await this.dbx.sharingListSharedLinks({ path });
-          if (existingLinks.result.links.length > 0) {
-            const directUrl = existingLinks.result.links[0].url.replace('?dl=0', '?dl=1');
-            return directUrl;
+      if (error instanceof StorageError && error.summary.includes('shared_link_already_exists')) {
+        const existingLinks = await this.request('get existing shared link', () => this.dbx.sharingListSharedLinks({ path }));
+        if (existingLinks.links.length > 0) {
+          const directUrl = existingLinks.links[0].url.replace('?dl=0', '?dl=1');
+          return directUrl;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run one SDK call, retrying rate limits and transient failures (5xx,
+   * dropped connections) with exponential backoff, or after the Retry-After
+   * Dropbox sent. A rate-limited call never ran, so any call is sent again
+   * after a 429; after other failures a mutation is only sent again once
+   * `landed` shows it didn't go through. Whatever still fails is thrown as a
+   * typed StorageError.
+   */
+  private async request<T>(
+    operation: string,
+    call: () => Promise<DropboxResponse<T>>,
+    options: RequestOptions<T> = {}
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await call();
+        return response.result;
+      } catch (error) {
+        const { status, retryAfter } = describeError(error);
+        const transient = status === 429 || (status !== undefined && status >= 500) ||
+          (status === undefined && error instanceof TypeError);
+        const failure = () => classifyStorageError(operation, errorSummary(error), status, retryAfter, apiError(error));
+
+        if (!transient || attempt >= MAX_ATTEMPTS) {
+          throw failure();
+        }
+
+        if (options.mutation && status !== 429) {
+          if (!options.landed) throw failure();
+          let result: T | undefined;
+          try {
+            result = await options.landed();
+          } catch {
+            throw failure();
+          }
+          if (result !== undefined) {
+            console.warn(`Dropbox ${operation}: ${status ?? 'network error'}, but it went through`);
+            return result;
           }
-        } catch (listError) {
-          throw new Error(`Failed to get existing shared link: ${listError}`);
         }
+
+        const backoff = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+        // Jitter so parallel requests that were throttled together don't retry together
+        const delay = retryAfter !== undefined ? retryAfter * 1000 : backoff / 2 + Math.random() * backoff / 2;
+        console.warn(`Dropbox ${operation}: ${status ?? 'network error'}, retrying in ${Math.round(delay)}ms (attempt ${attempt}/${MAX_ATTEMPTS})`);
+        await sleep(delay);
       }
-      throw new Error(`Failed to create shared link: ${error}`);
     }
   }
 }
+
+/**
+ * Dropbox content_hash of a buffer: SHA-256 over the SHA-256 of each 4 MB block
+ */
+function contentHashOf(data: Buffer): string {
+  const overall = createHash('sha256');
+  for (let offset = 0; offset < data.length; offset += HASH_BLOCK_SIZE) {
+    overall.update(createHash('sha256').update(data.subarray(offset, offset + HASH_BLOCK_SIZE)).digest());
+  }
+  return overall.digest('hex');
+}
+
+// Without overwrite, an upload to a taken path is saved as "name (1).ext"
+function writeMode(options: UploadOptions): Pick<files.CommitInfo, 'mode' | 'autorename'> {
+  return options.overwrite
+    ? { mode: { '.tag': 'overwrite' }, autorename: false }
+    : { mode: { '.tag': 'add' }, autorename: true };
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// e.g. "relocation_error/to/conflict" for one failed batch entry
+function relocationFailureSummary(failure: files.RelocationBatchErrorEntry): string {
+  const parts: string[] = [failure['.tag']];
+  let nested: unknown = failure['.tag'] === 'relocation_error' ? failure.relocation_error : undefined;
+  while (nested && typeof nested === 'object' && '.tag' in nested) {
+    const tag = (nested as { '.tag': string })['.tag'];
+    parts.push(tag);
+    nested = (nested as Record<string, unknown>)[tag];
+  }
+  return parts.join('/');
+}
+
+// Append reports incorrect_offset directly, finish nests it under lookup_failed
+function toOffsetError(error: unknown): unknown {
+  if (!(error instanceof StorageError)) return error;
+  const details = error.details as files.UploadSessionFinishError | undefined;
+  const lookup = details?.['.tag'] === 'lookup_failed' ? details.lookup_failed : details;
+  if (lookup?.['.tag'] === 'incorrect_offset') {
+    return new UploadOffsetError(lookup.correct_offset);
+  }
+  return error;
+}
+
+interface SdkError {
+  status?: number;
+  headers?: { get?: (name: string) => string | null } & Record<string, unknown>;
+  error?: { error_summary?: string; error?: { retry_after?: number } };
+  message?: string;
+}
+
+// HTTP status and Retry-After (seconds) of a DropboxResponseError, if any
+function describeError(error: unknown): { status?: number; retryAfter?: number } {
+  const err = error as SdkError | undefined;
+  const header = typeof err?.headers?.get === 'function'
+    ? err.headers.get('retry-after')
+    : err?.headers?.['retry-after'];
+  const retryAfter = Number(header ?? err?.error?.error?.retry_after);
+  return {
+    status: typeof err?.status === 'number' ? err.status : undefined,
+    retryAfter: Number.isFinite(retryAfter) && retryAfter >= 0 ? retryAfter : undefined
+  };
+}
+
+// The API's structured error union (e.g. { '.tag': 'path', path: { '.tag': 'not_found' } })
+function apiError(error: unknown): unknown {
+  return (error as SdkError | undefined)?.error?.error;
+}
+
+// Dropbox SDK errors carry the API's error_summary (e.g. "path/not_found/..")
+function errorSummary(error: unknown): string {
+  const err = error as SdkError | undefined;
+  return err?.error?.error_summary || err?.message || 'Unknown error';
+}
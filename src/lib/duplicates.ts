@@ -0,0 +1,118 @@
+import type { files } from 'dropbox';
+import { MUSIC_BASE_PATH } from './config';
+import { StorageProvider } from './storage';
+import { YEAR_SPLIT_FOLDERS } from './year-folders';
+
+// Resolved copies are parked here (under their original relative path) rather than deleted
+export const DUPLICATES_FOLDER = `${MUSIC_BASE_PATH}/_Duplicates`;
+
+// Upper bound on entries read from the music base path in one scan
+const LISTING_LIMIT = 20000;
+
+export type KeepStrategy = 'oldest' | 'canonical';
+
+export interface DuplicateFile {
+  name: string;
+  path: string;
+  folder: string;
+  size: number;
+  // When the copy reached Dropbox, and the modification time its device reported
+  uploadedAt: string;
+  clientModified: string;
+  // Filed under a category year folder by the organizers, as opposed to an inbox
+  canonical: boolean;
+}
+
+export interface DuplicateGroup {
+  contentHash: string;
+  size: number;
+  // Oldest upload first
+  files: DuplicateFile[];
+}
+
+export interface DuplicateScan {
+  groups: DuplicateGroup[];
+  filesScanned: number;
+  listing: { limit: number; returned: number; truncated: boolean };
+}
+
+/**
+ * Group every file under the music base path by content_hash and return the
+ * groups with more than one copy, largest waste first. Files already moved to
+ * DUPLICATES_FOLDER are left out.
+ */
+export async function findDuplicates(storage: StorageProvider): Promise<DuplicateScan> {
+  const { entries, truncated } = await storage.listAllFiles(MUSIC_BASE_PATH, { recursive: true, limit: LISTING_LIMIT });
+  const duplicatesPrefix = `${DUPLICATES_FOLDER.toLowerCase()}/`;
+
+  const byHash = new Map<string, files.FileMetadataReference[]>();
+  let filesScanned = 0;
+  for (const entry of entries) {
+    if (entry['.tag'] !== 'file' || !entry.content_hash || !entry.path_lower) continue;
+    if (entry.path_lower.startsWith(duplicatesPrefix)) continue;
+    filesScanned++;
+    const group = byHash.get(entry.content_hash) || [];
+    group.push(entry);
+    byHash.set(entry.content_hash, group);
+  }
+
+  const groups: DuplicateGroup[] = [];
+  for (const [contentHash, copies] of byHash) {
+    if (copies.length < 2) continue;
+    groups.push({
+      contentHash,
+      size: copies[0].size,
+      files: copies.map(toDuplicateFile).sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt))
+    });
+  }
+  groups.sort((a, b) => b.size * (b.files.length - 1) - a.size * (a.files.length - 1));
+
+  return {
+    groups,
+    filesScanned,
+    listing: { limit: LISTING_LIMIT, returned: entries.length, truncated }
+  };
+}
+
+/**
+ * Copy of a group to keep. 'canonical' prefers a copy the organizers already
+ * filed, and one without an autorename suffix such as "song (1).m4a"; both
+ * strategies fall back to the oldest upload.
+ */
+export function chooseKeeper(group: DuplicateGroup, strategy: KeepStrategy): DuplicateFile {
+  if (strategy === 'canonical') {
+    const rank = (file: DuplicateFile) => (file.canonical ? 0 : 2) + (AUTORENAME_SUFFIX.test(file.name) ? 1 : 0);
+    // files is oldest first and the sort is stable, so ties keep the oldest
+    return [...group.files].sort((a, b) => rank(a) - rank(b))[0];
+  }
+  return group.files[0];
+}
+
+/**
+ * Where a duplicate is parked: its path relative to the music base path,
+ * under DUPLICATES_FOLDER
+ */
+export function duplicatesPathFor(filePath: string): string {
+  const relative = filePath.toLowerCase().startsWith(`${MUSIC_BASE_PATH.toLowerCase()}/`)
+    ? filePath.slice(MUSIC_BASE_PATH.length + 1)
+    : filePath.replace(/^\/+/, '');
+  return `${DUPLICATES_FOLDER}/${relative}`;
+}
+
+const AUTORENAME_SUFFIX = / \(\d+\)(\.[^.]*)?$/;
+
+function toDuplicateFile(entry: files.FileMetadataReference): DuplicateFile {
+  const path = entry.path_display || entry.path_lower!;
+  const folder = path.slice(0, path.lastIndexOf('/'));
+  const relativeFolder = folder.slice(MUSIC_BASE_PATH.length + 1).split('/');
+
+  return {
+    name: entry.name,
+    path,
+    folder,
+    size: entry.size,
+    uploadedAt: entry.server_modified,
+    clientModified: entry.client_modified,
+    canonical: YEAR_SPLIT_FOLDERS.includes(relativeFolder[0]) && /^\d{4}$/.test(relativeFolder[1] || '')
+  };
+}
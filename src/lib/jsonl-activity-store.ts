@@ -0,0 +1,219 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ActivityBatchSummary, ActivityLogEntry } from './activity-log';
+import { ActivityLogStore, ActivityPage, ActivityQuery, BatchQuery, isRelocation } from './activity-store';
+
+/**
+ * Activity log as one JSON entry per line in activity-log.jsonl. Each append
+ * is a single O_APPEND write, so concurrent requests (and processes) add
+ * lines without clobbering each other. Reads keep the parsed lines in memory
+ * with indexes by path, action and batch, and only parse what was appended
+ * since the last read.
+ */
+export class JsonlActivityStore implements ActivityLogStore {
+  private logFilePath: string;
+  private entries: ActivityLogEntry[] = [];
+  private byPath = new Map<string, number[]>();
+  private byAction = new Map<string, number[]>();
+  private byBatch = new Map<string, number[]>();
+  // Batch id -> the entries that reverse it
+  private byUndoOf = new Map<string, number[]>();
+  // Bytes of the file already parsed, and which file they were (deleteBefore replaces it)
+  private readOffset = 0;
+  private readInode = 0;
+  private readQueue: Promise<unknown> = Promise.resolve();
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string) {
+    this.logFilePath = path.join(dir, 'activity-log.jsonl');
+  }
+
+  async append(...entries: ActivityLogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    // Queued only so a rewrite by deleteBefore in this process can't drop the line
+    const run = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.logFilePath), { recursive: true });
+      await fs.appendFile(this.logFilePath, entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+    });
+    this.writeQueue = run.catch(() => undefined);
+    await run;
+  }
+
+  async query(query: ActivityQuery): Promise<ActivityPage> {
+    await this.refresh();
+    const matches = this.match(query);
+    if (query.order !== 'asc') matches.reverse();
+
+    const offset = query.offset || 0;
+    const page = matches.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+
+    return {
+      activities: page.map(index => this.entries[index]),
+      total: matches.length,
+      hasMore: offset + page.length < matches.length
+    };
+  }
+
+  async countActions(query: ActivityQuery): Promise<{ [action: string]: number }> {
+    await this.refresh();
+    const counts: { [action: string]: number } = {};
+    for (const index of this.match(query)) {
+      const { action } = this.entries[index];
+      counts[action] = (counts[action] || 0) + 1;
+    }
+    return counts;
+  }
+
+  async batches(query: BatchQuery): Promise<ActivityBatchSummary[]> {
+    await this.refresh();
+
+    const batchIds = query.batchId
+      ? (this.byBatch.has(query.batchId) ? [query.batchId] : [])
+      // Map order is first appearance; most recent first
+      : [...this.byBatch.keys()].reverse();
+    const offset = query.offset || 0;
+    const page = batchIds.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+
+    return page.map(batchId => {
+      const batchEntries = this.byBatch.get(batchId)!.map(index => this.entries[index]);
+      const undoEntries = (this.byUndoOf.get(batchId) || []).map(index => this.entries[index]);
+      const actions: { [action: string]: number } = {};
+      for (const entry of batchEntries) {
+        actions[entry.action] = (actions[entry.action] || 0) + 1;
+      }
+      return {
+        batchId,
+        startedAt: batchEntries[0].timestamp,
+        actions,
+        moves: batchEntries.filter(isRelocation).length,
+        undoneBy: undoEntries[0]?.batchId,
+        restored: undoEntries.filter(entry => entry.action === 'restore').length
+      };
+    });
+  }
+
+  /**
+   * Rewrite the file without the old entries. Writes to a temporary file and
+   * renames it over the log, so readers never see a half-written file. Lines
+   * another process appends during the rewrite are lost, so run this rarely.
+   */
+  async deleteBefore(timestamp: string): Promise<number> {
+    let removed = 0;
+    const run = this.writeQueue.then(async () => {
+      await this.refresh();
+      const kept = this.entries.filter(entry => entry.timestamp >= timestamp);
+      removed = this.entries.length - kept.length;
+      if (removed === 0) return;
+
+      const tempPath = `${this.logFilePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, kept.map(entry => JSON.stringify(entry) + '\n').join(''));
+      await fs.rename(tempPath, this.logFilePath);
+    });
+    this.writeQueue = run.catch(() => undefined);
+    await run;
+    return removed;
+  }
+
+  /**
+   * Indexes of the entries matching the query, in log order. Starts from the
+   * smallest index that applies instead of scanning every entry.
+   */
+  private match(query: ActivityQuery): number[] {
+    const candidates = [
+      query.filePath !== undefined ? this.byPath.get(query.filePath) || [] : undefined,
+      query.action !== undefined ? this.byAction.get(query.action) || [] : undefined,
+      query.batchId !== undefined ? this.byBatch.get(query.batchId) || [] : undefined,
+      query.undoOf !== undefined ? this.byUndoOf.get(query.undoOf) || [] : undefined
+    ].filter((list): list is number[] => list !== undefined);
+
+    const start = candidates.length > 0
+      ? candidates.reduce((smallest, list) => list.length < smallest.length ? list : smallest)
+      : this.entries.map((_, index) => index);
+
+    return start.filter(index => {
+      const entry = this.entries[index];
+      return (!query.filePath || [entry.filePath, entry.oldPath, entry.newPath].includes(query.filePath)) &&
+        (!query.action || entry.action === query.action) &&
+        (!query.batchId || entry.batchId === query.batchId) &&
+        (!query.undoOf || entry.details?.undoOf === query.undoOf) &&
+        (!query.startDate || entry.timestamp >= query.startDate) &&
+        (!query.endDate || entry.timestamp <= query.endDate);
+    });
+  }
+
+  /**
+   * Parse whatever was appended since the last read, one read at a time
+   */
+  private refresh(): Promise<void> {
+    const run = this.readQueue.then(() => this.readAppended());
+    this.readQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readAppended(): Promise<void> {
+    let handle;
+    try {
+      handle = await fs.open(this.logFilePath, 'r');
+    } catch {
+      // Nothing logged yet
+      this.reset();
+      return;
+    }
+
+    try {
+      const { size, ino } = await handle.stat();
+      // Replaced, or truncated or edited in place: read it again from the start
+      if (ino !== this.readInode || size < this.readOffset) {
+        this.reset();
+        this.readInode = ino;
+      }
+      if (size === this.readOffset) return;
+
+      const buffer = Buffer.alloc(size - this.readOffset);
+      await handle.read(buffer, 0, buffer.length, this.readOffset);
+      // A line still being written has no newline yet; leave it for the next read
+      const complete = buffer.lastIndexOf(0x0a) + 1;
+      for (const line of buffer.subarray(0, complete).toString('utf8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          this.index(JSON.parse(line));
+        } catch {
+          console.warn(`Skipping unreadable line in ${this.logFilePath}`);
+        }
+      }
+      this.readOffset += complete;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private index(entry: ActivityLogEntry): void {
+    const position = this.entries.push(entry) - 1;
+    const add = (map: Map<string, number[]>, key: string | undefined) => {
+      if (!key) return;
+      const list = map.get(key);
+      if (list) {
+        if (list[list.length - 1] !== position) list.push(position);
+      } else {
+        map.set(key, [position]);
+      }
+    };
+
+    add(this.byPath, entry.filePath);
+    add(this.byPath, entry.oldPath);
+    add(this.byPath, entry.newPath);
+    add(this.byAction, entry.action);
+    add(this.byBatch, entry.batchId);
+    add(this.byUndoOf, entry.details?.undoOf);
+  }
+
+  private reset(): void {
+    this.entries = [];
+    this.byPath.clear();
+    this.byAction.clear();
+    this.byBatch.clear();
+    this.byUndoOf.clear();
+    this.readOffset = 0;
+    this.readInode = 0;
+  }
+}
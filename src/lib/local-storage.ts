@@ -0,0 +1,588 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { createReadStream, promises as fs, Stats } from 'fs';
+import os from 'os';
+import path from 'path';
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import type { files } from 'dropbox';
+import { BACKEND_ORIGIN } from './config';
+import {
+  BatchRelocationResult,
+  ChangesPage,
+  collectEntries,
+  ListFilesOptions,
+  ListFilesResult,
+  MoveOptions,
+  RelocationPair,
+  StorageEntry,
+  StorageProvider,
+  UploadOffsetError,
+  UploadOptions,
+  UploadSessionCursor,
+} from './storage';
+import { classifyStorageError, StorageError } from './storage-errors';
+import { stateCollection } from './state-store';
+
+const LINK_TTL_MS = 4 * 60 * 60 * 1000; // same 4h lifetime as Dropbox temporary links
+const HASH_BLOCK_SIZE = 4 * 1024 * 1024;
+// Partial uploads live outside the root so they never show up in listings
+const UPLOAD_SESSION_DIR = path.join(os.tmpdir(), 'roadie-uploads');
+
+// A local "cursor" is a compressed snapshot of the folder: path_display -> rev
+interface LocalCursor {
+  path: string;
+  recursive: boolean;
+  snapshot: { [pathDisplay: string]: string };
+}
+
+// content_hash reads the whole file, so it is remembered per file path
+// until the file's size or mtime change, across restarts too
+interface CachedContentHash {
+  size: number;
+  mtimeMs: number;
+  hash: string;
+}
+
+const contentHashCache = new Map<string, CachedContentHash>();
+const storedContentHashes = stateCollection<CachedContentHash>('local-content-hashes');
+
+/**
+ * Storage backend rooted at a local directory (e.g. a NAS mount).
+ * Storage paths look like Dropbox paths ("/Music/Fiasco Total/...") and are
+ * resolved relative to the root; entries are returned in Dropbox metadata shape.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async listFiles(storagePath: string = ''): Promise<StorageEntry[]> {
+    const { entries } = await this.listAllFiles(storagePath);
+    return entries;
+  }
+
+  async *iterateFiles(storagePath: string = '', options: ListFilesOptions = {}): AsyncGenerator<StorageEntry> {
+    for await (const { entryPath, stats } of this.walk(storagePath, options.recursive ?? false)) {
+      yield await this.toEntry(entryPath, stats);
+    }
+  }
+
+  async listAllFiles(storagePath: string = '', options: ListFilesOptions = {}): Promise<ListFilesResult> {
+    return collectEntries(this.iterateFiles(storagePath, options), options.limit);
+  }
+
+  async getLatestCursor(storagePath: string = '', options: Pick<ListFilesOptions, 'recursive'> = {}): Promise<string> {
+    const recursive = options.recursive ?? false;
+    const snapshot = await this.snapshot(storagePath, recursive);
+    return encodeCursor({ path: storagePath, recursive, snapshot });
+  }
+
+  /**
+   * Diff the folder against the snapshot carried in the cursor
+   */
+  async listChanges(cursor: string): Promise<ChangesPage> {
+    let previous: LocalCursor;
+    try {
+      previous = decodeCursor(cursor);
+    } catch {
+      throw new StorageError('list changes', 'reset/');
+    }
+
+    const current = await this.snapshot(previous.path, previous.recursive);
+    const entries: StorageEntry[] = [];
+
+    for (const [pathDisplay, rev] of Object.entries(current)) {
+      if (previous.snapshot[pathDisplay] !== rev) {
+        entries.push(await this.getFileMetadata(pathDisplay));
+      }
+    }
+    for (const pathDisplay of Object.keys(previous.snapshot)) {
+      if (!(pathDisplay in current)) {
+        entries.push({
+          '.tag': 'deleted',
+          name: path.posix.basename(pathDisplay),
+          path_lower: pathDisplay.toLowerCase(),
+          path_display: pathDisplay,
+        });
+      }
+    }
+
+    return {
+      entries,
+      cursor: encodeCursor({ ...previous, snapshot: current }),
+      hasMore: false,
+    };
+  }
+
+  async uploadFile(storagePath: string, contents: Buffer | File, options: UploadOptions = {}): Promise<files.FileMetadata> {
+    try {
+      const targetPath = options.overwrite ? normalizeStoragePath(storagePath) : await this.availablePath(storagePath);
+      const data = Buffer.isBuffer(contents) ? contents : Buffer.from(await contents.arrayBuffer());
+      const absolutePath = await this.resolve(targetPath);
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, data);
+      return await this.getFileMetadata(targetPath) as files.FileMetadataReference;
+    } catch (error) {
+      throw toStorageError('upload file', error);
+    }
+  }
+
+  async startUploadSession(chunk: Buffer): Promise<UploadSessionCursor> {
+    try {
+      const sessionId = randomUUID();
+      await fs.mkdir(UPLOAD_SESSION_DIR, { recursive: true });
+      await fs.writeFile(sessionFile(sessionId), chunk);
+      return { sessionId, offset: chunk.length };
+    } catch (error) {
+      throw toStorageError('start upload session', error);
+    }
+  }
+
+  async appendUploadSession(cursor: UploadSessionCursor, chunk: Buffer): Promise<UploadSessionCursor> {
+    try {
+      await checkSessionOffset(cursor);
+      await fs.appendFile(sessionFile(cursor.sessionId), chunk);
+      return { sessionId: cursor.sessionId, offset: cursor.offset + chunk.length };
+    } catch (error) {
+      throw toStorageError('append to upload session', error);
+    }
+  }
+
+  async finishUploadSession(
+    cursor: UploadSessionCursor,
+    storagePath: string,
+    chunk: Buffer = Buffer.alloc(0),
+    options: UploadOptions = {}
+  ): Promise<files.FileMetadata> {
+    try {
+      await checkSessionOffset(cursor);
+      const tempPath = sessionFile(cursor.sessionId);
+      if (chunk.length > 0) {
+        await fs.appendFile(tempPath, chunk);
+      }
+
+      const targetPath = options.overwrite ? normalizeStoragePath(storagePath) : await this.availablePath(storagePath);
+      const absolutePath = await this.resolve(targetPath);
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      try {
+        await fs.rename(tempPath, absolutePath);
+      } catch (error) {
+        // tmpdir is often on a different filesystem than the NAS mount
+        if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+        await fs.copyFile(tempPath, absolutePath);
+        await fs.rm(tempPath);
+      }
+      return await this.getFileMetadata(targetPath) as files.FileMetadataReference;
+    } catch (error) {
+      throw toStorageError('finish upload session', error);
+    }
+  }
+
+  async downloadFile(storagePath: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(await this.resolve(storagePath));
+    } catch (error) {
+      throw toStorageError('download file', error);
+    }
+  }
+
+  async downloadFileRange(storagePath: string, start: number, end: number): Promise<Buffer> {
+    if (end <= start) return Buffer.alloc(0);
+    try {
+      const handle = await fs.open(await this.resolve(storagePath), 'r');
+      try {
+        const buffer = Buffer.alloc(end - start);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      throw toStorageError('download file range', error);
+    }
+  }
+
+  async getFileMetadata(storagePath: string): Promise<StorageEntry> {
+    if (storagePath.startsWith('id:')) return this.findById(storagePath);
+    try {
+      const stats = await fs.stat(await this.resolve(storagePath));
+      return await this.toEntry(normalizeStoragePath(storagePath), stats);
+    } catch (error) {
+      throw toStorageError('get file metadata', error);
+    }
+  }
+
+  async moveFile(fromPath: string, toPath: string, options: MoveOptions = {}): Promise<files.RelocationResult> {
+    try {
+      const targetPath = options.autorename === false ? normalizeStoragePath(toPath) : await this.availablePath(toPath);
+      const absolutePath = await this.resolve(targetPath);
+      if (options.autorename === false && await exists(absolutePath)) {
+        throw classifyStorageError('move file', 'to/conflict/file/');
+      }
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.rename(await this.resolve(fromPath), absolutePath);
+      return { metadata: await this.getFileMetadata(targetPath) };
+    } catch (error) {
+      throw toStorageError('move file', error);
+    }
+  }
+
+  async copyFile(fromPath: string, toPath: string): Promise<files.RelocationResult> {
+    try {
+      const targetPath = await this.availablePath(toPath);
+      const absolutePath = await this.resolve(targetPath);
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.cp(await this.resolve(fromPath), absolutePath, { recursive: true, errorOnExist: true });
+      return { metadata: await this.getFileMetadata(targetPath) };
+    } catch (error) {
+      throw toStorageError('copy file', error);
+    }
+  }
+
+  // No batch API on disk; entries are relocated one by one in request order
+  async moveFiles(pairs: RelocationPair[]): Promise<BatchRelocationResult[]> {
+    return relocateEach(pairs, pair => this.moveFile(pair.fromPath, pair.toPath));
+  }
+
+  async copyFiles(pairs: RelocationPair[]): Promise<BatchRelocationResult[]> {
+    return relocateEach(pairs, pair => this.copyFile(pair.fromPath, pair.toPath));
+  }
+
+  async createFolder(storagePath: string): Promise<files.CreateFolderResult> {
+    try {
+      const dirPath = await this.resolve(storagePath);
+      await fs.mkdir(path.dirname(dirPath), { recursive: true });
+      await fs.mkdir(dirPath);
+      const metadata = await this.getFileMetadata(storagePath) as files.FolderMetadataReference;
+      return { metadata };
+    } catch (error) {
+      throw toStorageError('create folder', error);
+    }
+  }
+
+  async deleteFile(storagePath: string): Promise<files.DeleteResult> {
+    try {
+      const metadata = await this.getFileMetadata(storagePath);
+      await fs.rm(await this.resolve(storagePath), { recursive: true });
+      return { metadata };
+    } catch (error) {
+      throw toStorageError('delete file', error);
+    }
+  }
+
+  async searchFiles(query: string, storagePath: string = ''): Promise<files.SearchMatchV2[]> {
+    try {
+      const needle = query.toLowerCase();
+      const matches: files.SearchMatchV2[] = [];
+
+      for await (const entry of this.iterateFiles(storagePath, { recursive: true })) {
+        if (entry.name.toLowerCase().includes(needle)) {
+          matches.push({ metadata: { '.tag': 'metadata', metadata: entry } });
+        }
+      }
+
+      return matches;
+    } catch (error) {
+      throw toStorageError('search files', error);
+    }
+  }
+
+  async getTemporaryLink(storagePath: string): Promise<string> {
+    try {
+      // Make sure the file exists before handing out a link, like Dropbox does
+      await fs.access(await this.resolve(storagePath));
+      const normalized = normalizeStoragePath(storagePath);
+      const expires = Date.now() + LINK_TTL_MS;
+      const params = new URLSearchParams({
+        path: normalized,
+        expires: String(expires),
+        sig: signLocalLink(normalized, expires),
+      });
+      return `${BACKEND_ORIGIN}/api/storage/local?${params.toString()}`;
+    } catch (error) {
+      throw toStorageError('get temporary link', error);
+    }
+  }
+
+  async getOwner(): Promise<string> {
+    return `local:${this.root}`;
+  }
+
+  /**
+   * Absolute filesystem path for a storage path, refusing anything outside the root
+   */
+  async resolve(storagePath: string): Promise<string> {
+    const resolved = path.resolve(this.root, '.' + normalizeStoragePath(storagePath));
+    if (!isWithin(this.root, resolved)) {
+      throw new OutsideRootError(storagePath);
+    }
+    // Symlinks are followed too, so a link inside the root can't lead out of it.
+    // Paths about to be written are checked through their nearest existing folder.
+    const real = await realPathOf(resolved);
+    if (!real || !isWithin(await fs.realpath(this.root), real)) {
+      throw new OutsideRootError(storagePath);
+    }
+    return resolved;
+  }
+
+  /**
+   * Paths and stats under a folder. Listings build entries from these; cursor
+   * snapshots only need the stats, so they never read file contents.
+   */
+  private async *walk(storagePath: string, recursive: boolean): AsyncGenerator<{ entryPath: string; stats: Stats }> {
+    try {
+      const names = await fs.readdir(await this.resolve(storagePath));
+
+      for (const name of names) {
+        const entryPath = joinStoragePath(storagePath, name);
+        let stats: Stats;
+        try {
+          stats = await fs.stat(await this.resolve(entryPath));
+        } catch (error) {
+          if (error instanceof OutsideRootError) continue; // a link out of the root isn't listed
+          throw error;
+        }
+        yield { entryPath, stats };
+
+        if (recursive && stats.isDirectory()) {
+          yield* this.walk(entryPath, recursive);
+        }
+      }
+    } catch (error) {
+      throw toStorageError('list files', error);
+    }
+  }
+
+  /**
+   * Entry whose id (the inode, which a rename keeps) is `id`, like Dropbox's
+   * lookups by file id. Walks the whole root, so it is only for occasional use.
+   */
+  private async findById(id: string): Promise<StorageEntry> {
+    for await (const { entryPath, stats } of this.walk('', true)) {
+      if (`id:${stats.ino}` === id) return this.toEntry(entryPath, stats);
+    }
+    throw classifyStorageError('get file metadata', 'path/not_found/');
+  }
+
+  private async snapshot(storagePath: string, recursive: boolean): Promise<LocalCursor['snapshot']> {
+    const snapshot: LocalCursor['snapshot'] = {};
+    for await (const { entryPath, stats } of this.walk(storagePath, recursive)) {
+      snapshot[entryPath] = stats.isDirectory() ? '' : revOf(stats);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Mirror Dropbox's autorename: "song.m4a" becomes "song (1).m4a" on conflict
+   */
+  private async availablePath(storagePath: string): Promise<string> {
+    const normalized = normalizeStoragePath(storagePath);
+    const ext = path.posix.extname(normalized);
+    const stem = normalized.slice(0, normalized.length - ext.length);
+
+    let candidate = normalized;
+    for (let i = 1; await exists(await this.resolve(candidate)); i++) {
+      candidate = `${stem} (${i})${ext}`;
+    }
+    return candidate;
+  }
+
+  private async toEntry(storagePath: string, stats: Stats): Promise<StorageEntry> {
+    const normalized = normalizeStoragePath(storagePath);
+    const base = {
+      id: `id:${stats.ino}`,
+      name: path.posix.basename(normalized),
+      path_lower: normalized.toLowerCase(),
+      path_display: normalized,
+    };
+
+    if (stats.isDirectory()) {
+      return { '.tag': 'folder', ...base };
+    }
+
+    const modified = stats.mtime.toISOString().replace(/\.\d{3}Z$/, 'Z');
+    return {
+      '.tag': 'file',
+      ...base,
+      client_modified: modified,
+      server_modified: modified,
+      rev: revOf(stats),
+      size: stats.size,
+      is_downloadable: true,
+      content_hash: await this.contentHash(await this.resolve(normalized), stats),
+    };
+  }
+
+  /**
+   * Dropbox content_hash: SHA-256 over the concatenated SHA-256 digests of 4 MB blocks
+   */
+  private async contentHash(filePath: string, stats: Stats): Promise<string> {
+    const isCurrent = (cached?: CachedContentHash) => cached?.size === stats.size && cached.mtimeMs === stats.mtimeMs;
+    const remembered = contentHashCache.get(filePath);
+    if (isCurrent(remembered)) return remembered!.hash;
+
+    const stored = await storedContentHashes.get(filePath).catch(() => undefined);
+    if (isCurrent(stored)) {
+      contentHashCache.set(filePath, stored!);
+      return stored!.hash;
+    }
+
+    const overall = createHash('sha256');
+    let block = createHash('sha256');
+    let blockBytes = 0;
+
+    for await (const chunk of createReadStream(filePath) as AsyncIterable<Buffer>) {
+      let offset = 0;
+      while (offset < chunk.length) {
+        const take = Math.min(HASH_BLOCK_SIZE - blockBytes, chunk.length - offset);
+        block.update(chunk.subarray(offset, offset + take));
+        blockBytes += take;
+        offset += take;
+        if (blockBytes === HASH_BLOCK_SIZE) {
+          overall.update(block.digest());
+          block = createHash('sha256');
+          blockBytes = 0;
+        }
+      }
+    }
+    if (blockBytes > 0) {
+      overall.update(block.digest());
+    }
+
+    const hash = overall.digest('hex');
+    const computed = { size: stats.size, mtimeMs: stats.mtimeMs, hash };
+    contentHashCache.set(filePath, computed);
+    // Only a cache: a store that can't be written just means hashing again after a restart
+    await storedContentHashes.set(filePath, computed).catch(error => {
+      console.warn(`Could not store the content hash of ${filePath}:`, error instanceof Error ? error.message : error);
+    });
+    return hash;
+  }
+}
+
+export function signLocalLink(storagePath: string, expires: number): string {
+  return createHmac('sha256', linkSecret()).update(`${storagePath}\n${expires}`).digest('hex');
+}
+
+export function verifyLocalLink(storagePath: string, expires: number, sig: string): boolean {
+  if (!Number.isFinite(expires) || expires < Date.now()) return false;
+  const expected = Buffer.from(signLocalLink(storagePath, expires), 'hex');
+  const given = Buffer.from(sig, 'hex');
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// A random fallback would quietly break every link handed out before a restart
+function linkSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET must be set to sign local storage links');
+  }
+  return secret;
+}
+
+class OutsideRootError extends Error {
+  constructor(storagePath: string) {
+    super(`path/malformed_path/: ${storagePath} is outside the storage root`);
+  }
+}
+
+function isWithin(root: string, filePath: string): boolean {
+  return filePath === root || filePath.startsWith(root + path.sep);
+}
+
+/**
+ * `filePath` with its symlinks resolved. For a path that doesn't exist yet the
+ * nearest existing folder is resolved and the rest appended; null when the
+ * path is a dangling link, as writing to it would follow the link.
+ */
+async function realPathOf(filePath: string): Promise<string | null> {
+  try {
+    return await fs.realpath(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  if (await fs.lstat(filePath).then(() => true, () => false)) return null;
+  const parent = path.dirname(filePath);
+  if (parent === filePath) return filePath;
+  const realParent = await realPathOf(parent);
+  return realParent && path.join(realParent, path.basename(filePath));
+}
+
+function revOf(stats: Stats): string {
+  return Math.floor(stats.mtimeMs).toString(16).padStart(9, '0');
+}
+
+function encodeCursor(cursor: LocalCursor): string {
+  return `local:${deflateRawSync(JSON.stringify(cursor)).toString('base64url')}`;
+}
+
+function decodeCursor(cursor: string): LocalCursor {
+  if (!cursor.startsWith('local:')) throw new Error('Not a local cursor');
+  return JSON.parse(inflateRawSync(Buffer.from(cursor.slice('local:'.length), 'base64url')).toString('utf8'));
+}
+
+async function relocateEach(
+  pairs: RelocationPair[],
+  relocate: (pair: RelocationPair) => Promise<files.RelocationResult>
+): Promise<BatchRelocationResult[]> {
+  const results: BatchRelocationResult[] = [];
+  for (const pair of pairs) {
+    try {
+      const { metadata } = await relocate(pair);
+      results.push({ ...pair, status: 'success', metadata });
+    } catch (error) {
+      results.push({ ...pair, status: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return results;
+}
+
+function sessionFile(sessionId: string): string {
+  // Session ids come from clients; only accept the UUIDs we hand out
+  if (!/^[0-9a-f-]{36}$/i.test(sessionId)) {
+    throw new Error('upload_session/not_found/');
+  }
+  return path.join(UPLOAD_SESSION_DIR, sessionId);
+}
+
+async function checkSessionOffset(cursor: UploadSessionCursor): Promise<void> {
+  const { size } = await fs.stat(sessionFile(cursor.sessionId));
+  if (size !== cursor.offset) {
+    throw new UploadOffsetError(size);
+  }
+}
+
+function normalizeStoragePath(storagePath: string): string {
+  const trimmed = storagePath.replace(/\/+$/, '');
+  if (!trimmed) return '';
+  return path.posix.normalize(trimmed.startsWith('/') ? trimmed : `/${trimmed}`);
+}
+
+function joinStoragePath(dir: string, name: string): string {
+  return `${normalizeStoragePath(dir)}/${name}`;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Use Dropbox-style error summaries and the same typed errors as the Dropbox
+// backend so callers behave the same on either one
+function toStorageError(operation: string, error: unknown): Error {
+  if (error instanceof StorageError) {
+    return error; // already wrapped by a nested call
+  }
+  const code = (error as NodeJS.ErrnoException)?.code;
+  let summary = error instanceof Error ? error.message : String(error);
+  if (code === 'ENOENT') summary = 'path/not_found/';
+  else if (code === 'EEXIST') summary = 'path/conflict/';
+  else if (code === 'ENOSPC') summary = 'path/insufficient_space/';
+  else if (code === 'EACCES' || code === 'EPERM') summary = 'path/no_write_permission/';
+  return classifyStorageError(operation, summary);
+}
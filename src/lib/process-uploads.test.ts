@@ -0,0 +1,80 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { UploadRule } from './upload-rules';
+
+const SAMPLE_RATE = 8000;
+
+// Mono 16-bit PCM WAV of silence, `seconds` long
+function wav(seconds: number): Buffer {
+  const dataSize = seconds * SAMPLE_RATE * 2;
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVEfmt ', 8, 'latin1');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(dataSize, 40);
+  return Buffer.concat([header, Buffer.alloc(dataSize)]);
+}
+
+const RULES: UploadRule[] = [
+  {
+    id: 'full-set',
+    name: 'Full sets',
+    priority: 2,
+    category: 'live-recording',
+    target: '{base}/Live Recordings/{year}',
+    match: { extensions: ['.wav'], minDuration: 30 }
+  },
+  {
+    id: 'idea',
+    name: 'Short ideas',
+    priority: 1,
+    category: 'song-idea',
+    target: '{base}/Song Ideas/{year}',
+    match: { extensions: ['.wav'] }
+  }
+];
+
+describe('planUploads', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'process-uploads-'));
+    vi.stubEnv('STATE_STORE', 'json');
+    vi.stubEnv('DATA_DIR', path.join(dir, 'data'));
+    vi.stubEnv('MUSIC_BASE_PATH', '/Music/Band');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('routes audio by the duration in its headers', async () => {
+    const root = path.join(dir, 'root');
+    mkdirSync(path.join(root, 'Music/Band/New Uploads'), { recursive: true });
+    writeFileSync(path.join(root, 'Music/Band/New Uploads/gig.wav'), wav(40));
+    writeFileSync(path.join(root, 'Music/Band/New Uploads/riff.wav'), wav(5));
+
+    // Imported after the environment is set, as the state store reads it on load
+    const { uploadRuleStore } = await import('./upload-rules');
+    const { planUploads } = await import('./process-uploads');
+    const { LocalStorageProvider } = await import('./local-storage');
+    expect(await uploadRuleStore.saveRules(RULES)).toEqual([]);
+
+    const plan = await planUploads(new LocalStorageProvider(root));
+    const ruleOf = (name: string) => plan.moves.find(move => move.fileName === name)?.rule;
+    expect(ruleOf('gig.wav')).toBe('full-set');
+    expect(ruleOf('riff.wav')).toBe('idea');
+    expect(plan.moves.find(move => move.fileName === 'gig.wav')?.targetFolder).toMatch(/^\/Music\/Band\/Live Recordings\/\d{4}$/);
+  });
+});
@@ -0,0 +1,603 @@
+import path from 'path';
+import type { IAudioMetadata } from 'music-metadata';
+import type { StorageProvider } from './storage';
+import { ConflictError, NotFoundError } from './storage-errors';
+import {
+  AUDIO_EXTENSIONS,
+  matchRule,
+  needsAudioHeaders,
+  renderTarget,
+  TargetVariables,
+  uploadRuleStore,
+  UploadFacts,
+  usesDate
+} from './upload-rules';
+import { probeAudioHeaders } from './audio-probe';
+import { embeddedDateOf } from './recording-date';
+import { yearFolderFor } from './year-folders';
+import { activityLogger, createBatchId } from './activity-log';
+import { changeTracker, FolderChanges } from './change-tracker';
+
+// Upper bound on entries read from New Uploads in one run
+const LISTING_LIMIT = 1000;
+
+export interface ProcessResult {
+  fileName: string;
+  originalPath: string;
+  newPath: string;
+  category: string;
+  status: 'success' | 'error' | 'skipped';
+  message?: string;
+  detectedDate?: string;
+  dateSource?: string;
+  folderCreated?: string;
+}
+
+function extractDateFromFilename(filename: string): { date: string; source: string } | null {
+  // Pattern 1: YYYYMMDD at start (20240315_filename.mp3)
+  const pattern1 = /^(\d{4})(\d{2})(\d{2})[_-]/;
+  const match1 = filename.match(pattern1);
+  if (match1) {
+    return {
+      date: `${match1[1]}.${match1[2]}.${match1[3]}`,
+      source: 'filename-prefix'
+    };
+  }
+
+  // Pattern 2: YYYY-MM-DD anywhere (recording-2024-03-15.mp3)
+  const pattern2 = /(\d{4})-(\d{2})-(\d{2})/;
+  const match2 = filename.match(pattern2);
+  if (match2) {
+    return {
+      date: `${match2[1]}.${match2[2]}.${match2[3]}`,
+      source: 'filename-embedded'
+    };
+  }
+
+  // Pattern 3: MM/DD/YYYY or MM-DD-YYYY
+  const pattern3 = /(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/;
+  const match3 = filename.match(pattern3);
+  if (match3) {
+    const month = match3[1].padStart(2, '0');
+    const day = match3[2].padStart(2, '0');
+    return {
+      date: `${match3[3]}.${month}.${day}`,
+      source: 'filename-us-format'
+    };
+  }
+
+  return null;
+}
+
+function formatDateForFilename(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function hasDatePrefix(filename: string): boolean {
+  return /^\d{8}[_-]/.test(filename);
+}
+
+/**
+ * Whether a folder already exists. Read-only: folders are only created when a
+ * plan is applied. Each parent folder is listed once per plan.
+ */
+async function folderExists(
+  storage: StorageProvider,
+  folderPath: string,
+  listedParents: Map<string, Promise<Set<string>>>
+): Promise<boolean> {
+  const parent = path.posix.dirname(folderPath);
+
+  if (!listedParents.has(parent)) {
+    listedParents.set(parent, storage.listFiles(parent)
+      .then(entries => new Set(entries.filter(entry => entry['.tag'] === 'folder').map(folder => folder.name)))
+      .catch(error => {
+        // No parent folder yet: nothing under it exists either
+        if (error instanceof NotFoundError) return new Set<string>();
+        throw error;
+      }));
+  }
+
+  const folders = await listedParents.get(parent)!;
+  return folders.has(path.posix.basename(folderPath));
+}
+
+// Duration and text tags (by music-metadata's common names: artist, album, genre...) for the rules
+function headerFacts(metadata: IAudioMetadata | null): Pick<UploadFacts, 'duration' | 'tags'> {
+  if (!metadata) return {};
+  const tags: { [tag: string]: string } = {};
+  for (const [tag, value] of Object.entries(metadata.common)) {
+    const values = (Array.isArray(value) ? value : [value]).filter(item => typeof item === 'string' || typeof item === 'number');
+    if (values.length > 0) tags[tag] = values.join(', ');
+  }
+  return { duration: metadata.format.duration, tags };
+}
+
+// Template variables for a file; detectedDate may be YYYY.MM.DD or YYYY-MM-DD.
+// {year} follows the recording date, so a 2024-12-30 take uploaded in January stays in 2024.
+function targetVariables(base: string, category: string, detectedDate: string): TargetVariables {
+  const match = detectedDate.match(/^(\d{4})[.-](\d{2})[.-](\d{2})$/);
+  return {
+    base,
+    year: yearFolderFor(detectedDate),
+    category,
+    date: match ? `${match[1]}.${match[2]}.${match[3]}` : undefined,
+    month: match?.[2],
+    day: match?.[3]
+  };
+}
+
+export interface ProcessUploadsOptions {
+  action: 'preview' | 'process';
+  // Only consider files added or changed in New Uploads since the last sync
+  onlyNew?: boolean;
+}
+
+export interface UploadListing {
+  limit: number;
+  returned: number;
+  truncated: boolean;
+  incremental?: boolean;
+  lastSync?: string;
+}
+
+export interface ProcessUploadsSummary {
+  message: string;
+  results: ProcessResult[];
+  processed: number;
+  skipped: number;
+  foldersCreated: number;
+  total: number;
+  listing: UploadListing;
+}
+
+/**
+ * One file move in an upload plan. When a plan is applied the file at
+ * originalPath is moved to `${targetFolder}/${newName}`; edit those two
+ * fields (or drop the entry) to change what happens to it.
+ */
+export interface PlannedMove {
+  fileName: string;
+  originalPath: string;
+  category: string;
+  // Id of the upload rule that picked the target
+  rule?: string;
+  targetFolder: string;
+  newName: string;
+  newPath: string;
+  detectedDate?: string;
+  dateSource?: string;
+  // targetFolder does not exist yet and will be created
+  createsFolder?: boolean;
+}
+
+export interface UploadPlan {
+  createdAt: string;
+  moves: PlannedMove[];
+  // Files that will be left in New Uploads, with the reason
+  skipped: ProcessResult[];
+  foldersToCreate: string[];
+  listing: UploadListing;
+}
+
+// An applied plan referenced paths outside the music folders
+export class InvalidPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPlanError';
+  }
+}
+
+/**
+ * Work out where everything in New Uploads should go, without touching storage.
+ * With `onlyNew` only files changed since the last sync are planned, from
+ * `changes` when given; the New Uploads cursor is left where it is either way.
+ */
+export async function planUploads(
+  storage: StorageProvider,
+  { onlyNew = false, changes: given }: { onlyNew?: boolean; changes?: FolderChanges } = {}
+): Promise<UploadPlan> {
+  const basePath = process.env.MUSIC_BASE_PATH || '/Music/Fiasco Total';
+  const newUploadsPath = `${basePath}/New Uploads`;
+
+  const moves: PlannedMove[] = [];
+  const skipped: ProcessResult[] = [];
+  const listedParents = new Map<string, Promise<Set<string>>>();
+  const { rules } = await uploadRuleStore.getRules();
+  const rulesNeedHeaders = needsAudioHeaders(rules);
+
+  let files;
+  let listing: UploadListing;
+
+  if (onlyNew) {
+    // Only files added or changed since the last sync
+    const changes = given || await changeTracker.getChanges(
+      storage,
+      { path: newUploadsPath, recursive: false },
+      { peek: true }
+    );
+    const changed = [...changes.added, ...changes.modified];
+    files = changed.filter(entry => entry['.tag'] === 'file');
+    listing = {
+      limit: LISTING_LIMIT,
+      returned: changed.length,
+      truncated: false,
+      incremental: !changes.initial,
+      lastSync: changes.lastSync
+    };
+  } else {
+    // Get all files in New Uploads folder
+    const listingResult = await storage.listAllFiles(newUploadsPath, { limit: LISTING_LIMIT });
+    files = listingResult.entries.filter(entry => entry['.tag'] === 'file');
+    listing = {
+      limit: LISTING_LIMIT,
+      returned: listingResult.entries.length,
+      truncated: listingResult.truncated
+    };
+  }
+
+  for (const file of files) {
+    const fileName = file.name;
+    const fileExt = fileName.substring(fileName.lastIndexOf('.')).toLowerCase();
+    const filePath = file.path_display!;
+
+    // Check if file already has a date prefix - if so, skip renaming
+    const alreadyHasDate = hasDatePrefix(fileName);
+
+    let organizedName = fileName;
+    let detectedDate = '';
+    let dateSource = '';
+    let createsFolder = false;
+
+    // Audio headers hold the duration, tags and recording date; read them once, when needed
+    let headers: Promise<IAudioMetadata | null> | undefined;
+    const audioHeaders = () => headers ??= AUDIO_EXTENSIONS.includes(fileExt)
+      ? probeAudioHeaders(storage, filePath, file.size).catch(error => {
+        console.warn(`Could not read audio headers of ${fileName}:`, error);
+        return null;
+      })
+      : Promise.resolve(null);
+
+    // The highest-priority matching rule decides the category and target folder
+    const rule = matchRule(rules, {
+      name: fileName,
+      size: file.size,
+      uploader: file.sharing_info?.modified_by,
+      ...(rulesNeedHeaders ? headerFacts(await audioHeaders()) : {})
+    });
+
+    if (!rule) {
+      // Nothing matches - skip processing
+      skipped.push({
+        fileName,
+        originalPath: filePath,
+        newPath: filePath,
+        category: 'unknown',
+        status: 'skipped',
+        message: 'No upload rule matches this file - skipped'
+      });
+      continue;
+    }
+
+    const category = rule.category;
+
+    if (!alreadyHasDate) {
+      try {
+        // Try to get date from filename first
+        const filenameDate = extractDateFromFilename(fileName);
+        // Then the date tags inside the audio itself
+        const metadata = filenameDate ? null : await audioHeaders();
+        const embeddedDate = metadata ? embeddedDateOf(metadata) : null;
+
+        if (filenameDate) {
+          detectedDate = filenameDate.date;
+          dateSource = filenameDate.source;
+          const datePrefix = filenameDate.date.replace(/-/g, '');
+
+          // Clean the original filename (remove the date if it was embedded)
+          let cleanName = fileName.replace(/\.[^/.]+$/, ''); // Remove extension
+          if (filenameDate.source === 'filename-prefix') {
+            cleanName = cleanName.replace(/^\d{8}[_-]/, ''); // Remove date prefix
+          } else if (filenameDate.source === 'filename-embedded' || filenameDate.source === 'filename-us-format') {
+            cleanName = cleanName.replace(/(\d{4})-(\d{2})-(\d{2})|(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/g, '').replace(/[_-]{2,}/g, '_').replace(/^[_-]|[_-]$/g, '');
+          }
+
+          organizedName = `${datePrefix}_${cleanName}${fileExt}`;
+        } else if (embeddedDate) {
+          // Recorders and phones stamp the recording date; sync time can be days later
+          detectedDate = embeddedDate.date;
+          dateSource = embeddedDate.source;
+          organizedName = `${embeddedDate.date.replace(/\./g, '')}_${fileName}`;
+        } else {
+          // Fallback: Get file metadata for server_modified date (when uploaded to Dropbox)
+          try {
+            const metadata = await storage.getFileMetadata(filePath);
+            if (metadata.server_modified) {
+              const uploadDate = new Date(metadata.server_modified);
+              detectedDate = uploadDate.toISOString().slice(0, 10).replace(/-/g, '.');
+              dateSource = 'dropbox-upload';
+              const datePrefix = formatDateForFilename(uploadDate);
+
+              let cleanName = fileName.replace(/\.[^/.]+$/, ''); // Remove extension
+              organizedName = `${datePrefix}_${cleanName}${fileExt}`;
+            }
+          } catch (metadataError) {
+            // If metadata fails, use current date as last resort
+            const fallbackDate = new Date();
+            detectedDate = fallbackDate.toISOString().slice(0, 10).replace(/-/g, '.');
+            dateSource = 'processing-date';
+            const datePrefix = formatDateForFilename(fallbackDate);
+
+            let cleanName = fileName.replace(/\.[^/.]+$/, ''); // Remove extension
+            organizedName = `${datePrefix}_${cleanName}${fileExt}`;
+          }
+        }
+      } catch (error) {
+        console.error(`Error processing date for ${fileName}:`, error);
+        // Keep original filename if date processing fails
+        organizedName = fileName;
+        dateSource = 'original-preserved';
+      }
+    } else {
+      dateSource = 'already-has-date';
+      detectedDate = 'preserved';
+      // Extract date from existing prefix for live recordings clustering
+      const match = fileName.match(/^(\d{4})(\d{2})(\d{2})/);
+      if (match) {
+        detectedDate = `${match[1]}-${match[2]}-${match[3]}`;
+      }
+    }
+
+    // Date-based targets need a date; without one the file goes under today
+    if (usesDate(rule.target) && !targetVariables(basePath, category, detectedDate).date) {
+      detectedDate = new Date().toISOString().slice(0, 10).replace(/-/g, '.');
+      dateSource = 'current-date-fallback';
+    }
+
+    const targetFolder = renderTarget(rule.target, targetVariables(basePath, category, detectedDate))!;
+
+    if (usesDate(rule.target)) {
+      try {
+        createsFolder = !(await folderExists(storage, targetFolder, listedParents));
+      } catch (error) {
+        console.error('Error looking up date folder:', error);
+        // Skip this file rather than falling back to the parent folder
+        skipped.push({
+          fileName,
+          originalPath: filePath,
+          newPath: filePath,
+          category,
+          status: 'error',
+          message: `Failed to look up date folder: ${error}`,
+          detectedDate,
+          dateSource
+        });
+        continue;
+      }
+    }
+
+    moves.push({
+      fileName,
+      originalPath: filePath,
+      category,
+      rule: rule.id,
+      targetFolder,
+      newName: organizedName,
+      newPath: `${targetFolder}/${organizedName}`,
+      detectedDate,
+      dateSource,
+      createsFolder
+    });
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    moves,
+    skipped,
+    foldersToCreate: [...new Set(moves.filter(move => move.createsFolder).map(move => move.targetFolder))],
+    listing
+  };
+}
+
+/**
+ * Execute a plan exactly as given: create new date folders, then move
+ * every entry in one batch. Plans may have been edited by hand, so every path
+ * is checked to stay inside the music folders first. The run is logged as
+ * one batch, so it can be undone as a whole.
+ */
+export async function applyUploadPlan(
+  storage: StorageProvider,
+  plan: Pick<UploadPlan, 'moves'> & Partial<Pick<UploadPlan, 'skipped'>>
+): Promise<ProcessResult[]> {
+  const basePath = process.env.MUSIC_BASE_PATH || '/Music/Fiasco Total';
+  const newUploadsPath = `${basePath}/New Uploads`;
+
+  const moves = plan.moves.map(move => ({ ...move, newPath: `${move.targetFolder}/${move.newName}` }));
+  for (const move of moves) {
+    if (!isInside(move.originalPath, newUploadsPath)) {
+      throw new InvalidPlanError(`${move.originalPath} is not in ${newUploadsPath}`);
+    }
+    if (!isInside(move.targetFolder, basePath) || !move.newName || move.newName.includes('/')) {
+      throw new InvalidPlanError(`${move.newPath} is not a valid destination under ${basePath}`);
+    }
+  }
+
+  const results: ProcessResult[] = [...(plan.skipped || [])];
+  const createdFolders = new Set<string>();
+  const batchId = createBatchId();
+
+  // Only planned date folders are created up front (and logged); moves create
+  // any other missing parent on their own
+  for (const folder of new Set(moves.filter(move => move.createsFolder).map(move => move.targetFolder))) {
+    try {
+      await storage.createFolder(folder);
+      createdFolders.add(folder);
+
+      // Log folder creation
+      await activityLogger.logActivity({
+        action: 'create_folder',
+        filePath: folder,
+        batchId,
+        details: {
+          folderCreated: folder.split('/').pop(),
+          dateSource: 'process-uploads'
+        }
+      });
+    } catch (error) {
+      // Already there is fine; anything else will surface again as a move failure
+      if (!(error instanceof ConflictError)) {
+        console.error(`Failed to create folder ${folder}:`, error);
+      }
+    }
+  }
+
+  if (moves.length === 0) return results;
+
+  const outcomes = await storage.moveFiles(
+    moves.map(move => ({ fromPath: move.originalPath, toPath: move.newPath }))
+  );
+
+  for (const [index, outcome] of outcomes.entries()) {
+    const move = moves[index];
+    const result: ProcessResult = {
+      fileName: move.fileName,
+      originalPath: move.originalPath,
+      newPath: move.newPath,
+      category: move.category,
+      status: 'success',
+      detectedDate: move.detectedDate,
+      dateSource: move.dateSource
+    };
+    results.push(result);
+
+    if (outcome.status === 'error') {
+      console.error(`Error processing ${move.fileName}:`, outcome.error);
+      result.status = 'error';
+      result.message = outcome.error || 'Failed to process';
+      continue;
+    }
+
+    result.newPath = outcome.metadata?.path_display || move.newPath;
+    result.message = `Moved to ${move.category}`;
+    if (createdFolders.has(move.targetFolder)) {
+      result.folderCreated = move.targetFolder.split('/').pop();
+    }
+
+    // Log the activity
+    await activityLogger.logActivity({
+      action: 'organize',
+      filePath: result.newPath,
+      oldPath: move.originalPath,
+      newPath: result.newPath,
+      batchId,
+      details: {
+        originalName: move.fileName,
+        newName: move.newName,
+        category: move.category,
+        dateSource: move.dateSource,
+        detectedDate: move.detectedDate,
+        folderCreated: result.folderCreated,
+        contentHash: outcome.metadata && 'content_hash' in outcome.metadata ? outcome.metadata.content_hash : undefined
+      }
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Summarize a plan (preview) or the results of applying one (process)
+ */
+export function summarizeUploads(
+  action: 'preview' | 'process',
+  results: ProcessResult[],
+  listing: UploadListing = { limit: LISTING_LIMIT, returned: results.length, truncated: false },
+  emptyMessage = 'No files to process in New Uploads folder'
+): ProcessUploadsSummary {
+  const total = results.length;
+  const successCount = results.filter(r => r.status === 'success').length;
+  const skippedCount = results.filter(r => r.status === 'skipped').length;
+  const foldersCreated = new Set(results.filter(r => r.folderCreated).map(r => r.folderCreated)).size;
+
+  let message = total === 0
+    ? emptyMessage
+    : action === 'preview'
+      ? `Found ${total} files to process (${skippedCount} will be skipped)`
+      : `Processed ${successCount} of ${total} files (${skippedCount} skipped)`;
+
+  if (foldersCreated > 0) {
+    message += action === 'preview'
+      ? `. Will create ${foldersCreated} date-based folders.`
+      : `. Created ${foldersCreated} date-based folders.`;
+  }
+
+  if (listing.truncated) {
+    message += ` Only the first ${listing.limit} entries were read; run again to process the rest.`;
+  }
+
+  return {
+    message,
+    results,
+    processed: action === 'preview' ? 0 : successCount,
+    skipped: skippedCount,
+    foldersCreated,
+    total,
+    listing
+  };
+}
+
+/**
+ * Date-prefix, categorize and file everything in New Uploads.
+ * Shared by the process-uploads route and the Dropbox webhook.
+ */
+export async function processUploads(
+  storage: StorageProvider,
+  { action, onlyNew = false }: ProcessUploadsOptions
+): Promise<ProcessUploadsSummary> {
+  const emptyMessage = onlyNew ? 'No new files in New Uploads since the last sync' : undefined;
+
+  if (action === 'preview') {
+    // Previews leave the change cursor alone
+    const plan = await planUploads(storage, { onlyNew });
+    return summarizeUploads('preview', [...plan.skipped, ...plan.moves.map(planToResult)], plan.listing, emptyMessage);
+  }
+
+  if (action === 'process') {
+    if (!onlyNew) {
+      const plan = await planUploads(storage);
+      const results = await applyUploadPlan(storage, plan);
+      return summarizeUploads('process', results, plan.listing, emptyMessage);
+    }
+
+    // The cursor only moves past these files once the plan was applied, so
+    // they are offered again if applying it fails (e.g. the token expired)
+    const basePath = process.env.MUSIC_BASE_PATH || '/Music/Fiasco Total';
+    return changeTracker.processChanges(storage, { path: `${basePath}/New Uploads`, recursive: false }, async changes => {
+      const plan = await planUploads(storage, { onlyNew, changes });
+      const results = await applyUploadPlan(storage, plan);
+      return summarizeUploads('process', results, plan.listing, emptyMessage);
+    });
+  }
+
+  // Anything else leaves New Uploads alone
+  return summarizeUploads('preview', [], undefined, `Unknown action ${action}; nothing was moved`);
+}
+
+// What a planned move will look like once applied
+export function planToResult(move: PlannedMove): ProcessResult {
+  return {
+    fileName: move.fileName,
+    originalPath: move.originalPath,
+    newPath: move.newPath,
+    category: move.category,
+    status: 'success',
+    detectedDate: move.detectedDate,
+    dateSource: move.dateSource,
+    folderCreated: move.createsFolder ? move.targetFolder.split('/').pop() : undefined
+  };
+}
+
+function isInside(storagePath: string, folder: string): boolean {
+  const normalized = path.posix.normalize(storagePath || '/').toLowerCase();
+  return normalized.startsWith(`${folder.toLowerCase()}/`) && !normalized.includes('/../');
+}
@@ -0,0 +1,63 @@
+import type { IAudioMetadata } from 'music-metadata';
+
+// mvhd creation times before this are encoder defaults (1904/1970), not recording dates
+const EARLIEST_RECORDING_YEAR = 1990;
+
+export interface EmbeddedDate {
+  // YYYY.MM.DD, like the date folders
+  date: string;
+  // Which tag it came from: bwf-origination, voice-memo, mp4-day, id3-tdrc, mp4-creation-time
+  source: string;
+}
+
+/**
+ * Recording date stored in an audio file's headers (see probeAudioHeaders):
+ * Broadcast WAV `bext` origination date, iPhone Voice Memos creation time,
+ * MP4 `©day` or ID3 `TDRC`, in that order. Returns null when the file has
+ * none of them.
+ */
+export function embeddedDateOf(metadata: IAudioMetadata): EmbeddedDate | null {
+  const nativeTag = (format: string, id: string): unknown =>
+    metadata.native[format]?.find(tag => tag.id === id)?.value;
+
+  const origination = normalizeDate(nativeTag('exif', 'bext.originationDate'));
+  if (origination) return { date: origination, source: 'bwf-origination' };
+
+  const mp4Day = normalizeDate(nativeTag('iTunes', '©day'));
+  const tool = String(nativeTag('iTunes', '©too') ?? '');
+  if (tool.includes('VoiceMemos')) {
+    const recorded = mp4Day || normalizeDate(metadata.format.creationTime);
+    if (recorded) return { date: recorded, source: 'voice-memo' };
+  }
+  if (mp4Day) return { date: mp4Day, source: 'mp4-day' };
+
+  const id3Date = ['ID3v2.4', 'ID3v2.3']
+    .map(format => normalizeDate(nativeTag(format, 'TDRC')))
+    .find(Boolean);
+  if (id3Date) return { date: id3Date, source: 'id3-tdrc' };
+
+  const creation = normalizeDate(metadata.format.creationTime);
+  if (creation) return { date: creation, source: 'mp4-creation-time' };
+
+  return null;
+}
+
+// Full dates only: a bare year in TDRC/©day doesn't pick a session folder
+function normalizeDate(value: unknown): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime()) || value.getFullYear() < EARLIEST_RECORDING_YEAR || value.getTime() > Date.now() + 86400000) {
+      return null;
+    }
+    return value.toISOString().slice(0, 10).replace(/-/g, '.');
+  }
+  if (typeof value !== 'string') return null;
+
+  // bext allows '-', '_', ':', ' ' or '.' between the parts
+  const match = value.trim().match(/^(\d{4})[-_:. ]?(\d{2})[-_:. ]?(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  if (Number(year) < EARLIEST_RECORDING_YEAR || Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) {
+    return null;
+  }
+  return `${year}.${month}.${day}`;
+}
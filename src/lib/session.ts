@@ -22,30 +22,13 @@ export async function ensureAccessToken(req: NextRequest): Promise<TokenResult |
   // Try refresh
   if (refresh) {
     try {
-      const tokenResp = await fetch('https://api.dropboxapi.com/oauth2/token', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body: new URLSearchParams({
-          grant_type: 'refresh_token',
-          refresh_token: refresh,
-          client_id: process.env.DROPBOX_CLIENT_ID!,
-          client_secret: process.env.DROPBOX_CLIENT_SECRET!,
-        }),
-      });
-
-      const data = await tokenResp.json();
-      if (!tokenResp.ok) {
-        throw new Error(data.error_description || 'Failed to refresh token');
-      }
-
-      const newAccess = data.access_token as string;
-      const expiresIn = (data.expires_in as number) ?? 14400; // default 4h
-      const newExp = String(Date.now() + expiresIn * 1000);
+      const refreshed = await refreshAccessToken(refresh);
+      const newExp = String(refreshed.expiresAt);
 
       return {
-        accessToken: newAccess,
+        accessToken: refreshed.accessToken,
         cookiesToSet: [
-          { name: 'roadie_token', value: newAccess, options: cookieOptions() },
+          { name: 'roadie_token', value: refreshed.accessToken, options: cookieOptions() },
           { name: 'roadie_token_exp', value: newExp, options: cookieOptions() },
         ],
       };
@@ -57,6 +40,33 @@ export async function ensureAccessToken(req: NextRequest): Promise<TokenResult |
   return null;
 }
 
+/**
+ * Exchange a refresh token for a fresh access token
+ */
+export async function refreshAccessToken(refreshToken: string): Promise<{ accessToken: string; expiresAt: number }> {
+  const tokenResp = await fetch('https://api.dropboxapi.com/oauth2/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: process.env.DROPBOX_CLIENT_ID!,
+      client_secret: process.env.DROPBOX_CLIENT_SECRET!,
+    }),
+  });
+
+  const data = await tokenResp.json();
+  if (!tokenResp.ok) {
+    throw new Error(data.error_description || 'Failed to refresh token');
+  }
+
+  const expiresIn = (data.expires_in as number) ?? 14400; // default 4h
+  return {
+    accessToken: data.access_token as string,
+    expiresAt: Date.now() + expiresIn * 1000,
+  };
+}
+
 export function getAuthFromCookies(req: NextRequest): { access_token: string; refresh_token?: string; expiry_time?: number } | null {
   const cookies = req.cookies;
   const access = cookies.get('roadie_token')?.value;
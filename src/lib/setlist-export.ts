@@ -0,0 +1,187 @@
+import path from 'path';
+import { MUSIC_BASE_PATH } from './config';
+import { Setlist, summarizeSetlist } from './setlists';
+
+export const SETLISTS_FOLDER = `${MUSIC_BASE_PATH}/Setlists`;
+
+export const SETLIST_EXPORT_FORMATS = ['pdf', 'txt', 'm3u'] as const;
+export type SetlistExportFormat = typeof SETLIST_EXPORT_FORMATS[number];
+
+export interface SetlistExport {
+  format: SetlistExportFormat;
+  // Where to save it in Dropbox
+  path: string;
+  contents: Buffer;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+// Average Helvetica glyph width as a fraction of the font size, for cutting lines to the page
+const AVERAGE_GLYPH_WIDTH = 0.55;
+
+/**
+ * Render the setlist in each format, with Dropbox paths under SETLISTS_FOLDER
+ * named after the gig date and setlist name
+ */
+export function exportSetlist(setlist: Setlist, formats: readonly SetlistExportFormat[] = SETLIST_EXPORT_FORMATS): SetlistExport[] {
+  const baseName = [setlist.date, setlist.name]
+    .filter(Boolean)
+    .join('_')
+    .replace(/[\\/:*?"<>|]+/g, '-')
+    .trim();
+
+  return formats.map(format => ({
+    format,
+    path: `${SETLISTS_FOLDER}/${baseName}.${format}`,
+    contents: format === 'pdf'
+      ? setlistPdf(setlist)
+      : Buffer.from(format === 'txt' ? setlistText(setlist) : setlistM3u(setlist), 'utf8')
+  }));
+}
+
+/**
+ * "4:05", or "1:02:30" past an hour
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+function heading(setlist: Setlist): string {
+  return [setlist.name, setlist.venue, setlist.date].filter(Boolean).join(' - ');
+}
+
+function totalLine(setlist: Setlist): string {
+  const summary = summarizeSetlist(setlist);
+  const untimed = summary.untimed > 0 ? ` + ${summary.untimed} untimed` : '';
+  return `${setlist.entries.length} songs, ${formatDuration(summary.totalDuration)}${untimed}`;
+}
+
+function setlistText(setlist: Setlist): string {
+  const summary = summarizeSetlist(setlist);
+  const lines = [heading(setlist), totalLine(setlist), ''];
+
+  setlist.entries.forEach((entry, index) => {
+    const details = [
+      entry.duration !== undefined ? formatDuration(entry.duration) : '?:??',
+      entry.key,
+      entry.tempo ? `${entry.tempo} BPM` : undefined
+    ].filter(Boolean).join('  ');
+    lines.push(`${String(index + 1).padStart(2)}. ${entry.title.padEnd(32)} ${details}  [${formatDuration(summary.startTimes[index])}]`);
+    if (entry.notes) lines.push(`    ${entry.notes}`);
+  });
+
+  if (summary.transitions.length > 0) {
+    lines.push('', 'Transitions to watch:');
+    for (const transition of summary.transitions) {
+      lines.push(`  ${transition.fromTitle} -> ${transition.toTitle}: ${transition.warnings.join('; ')}`);
+    }
+  }
+  if (setlist.notes) lines.push('', setlist.notes);
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Extended M3U of the reference takes, with paths relative to the Setlists
+ * folder so it plays from a synced Dropbox folder on any machine
+ */
+function setlistM3u(setlist: Setlist): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${heading(setlist)}`];
+  for (const entry of setlist.entries) {
+    lines.push(`#EXTINF:${entry.duration !== undefined ? Math.round(entry.duration) : -1},${entry.title}`);
+    lines.push(path.posix.relative(SETLISTS_FOLDER, entry.takePath));
+  }
+  return lines.join('\n') + '\n';
+}
+
+interface PdfLine {
+  text: string;
+  size: number;
+  bold?: boolean;
+}
+
+/**
+ * Stage copy: big numbered titles with key and tempo, readable from the floor
+ */
+function setlistPdf(setlist: Setlist): Buffer {
+  const lines: PdfLine[] = [
+    { text: heading(setlist), size: 16, bold: true },
+    { text: totalLine(setlist), size: 11 },
+    { text: '', size: 11 }
+  ];
+
+  setlist.entries.forEach((entry, index) => {
+    lines.push({ text: `${index + 1}. ${entry.title}`, size: 22, bold: true });
+    const details = [entry.key, entry.tempo ? `${entry.tempo} BPM` : undefined, entry.notes].filter(Boolean).join('  |  ');
+    if (details) lines.push({ text: details, size: 11 });
+  });
+
+  return textPdf(lines);
+}
+
+/**
+ * Minimal PDF of left-aligned lines in the standard Helvetica fonts, paged
+ * as needed; lines too wide for the page are cut short. Characters outside
+ * Latin-1 print as "?".
+ */
+function textPdf(lines: PdfLine[]): Buffer {
+  const pages: string[] = [];
+  let content: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const height = line.size * 1.4;
+    if (y - height < MARGIN && content.length > 0) {
+      pages.push(content.join('\n'));
+      content = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= height;
+    if (line.text) {
+      const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (line.size * AVERAGE_GLYPH_WIDTH));
+      const text = line.text.length > maxChars ? `${line.text.slice(0, maxChars - 3)}...` : line.text;
+      content.push(`BT /${line.bold ? 'F2' : 'F1'} ${line.size} Tf ${MARGIN} ${Math.round(y)} Td (${pdfString(text)}) Tj ET`);
+    }
+  }
+  pages.push(content.join('\n'));
+
+  // 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ];
+  pages.forEach((stream, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+function pdfString(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
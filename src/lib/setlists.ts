@@ -0,0 +1,294 @@
+import type { StorageProvider } from './storage';
+import { NotFoundError } from './storage-errors';
+import { audioCache } from './audio-cache';
+import { AudioClusteringService } from './audio-clustering';
+import { keySignatureDistance } from './audio-key';
+import type { Song, SongAsset } from './song-catalog';
+import { stateCollection } from './state-store';
+
+/**
+ * One song in a set, played from (and timed by) a reference take in Dropbox
+ */
+export interface SetlistEntry {
+  songId?: string;
+  title: string;
+  // Dropbox path of the reference take
+  takePath: string;
+  // Seconds, from the take's headers; absent when they couldn't be read
+  duration?: number;
+  key?: string;
+  tempo?: number;
+  notes?: string;
+}
+
+export interface Setlist {
+  id: string;
+  name: string;
+  venue?: string;
+  // YYYY-MM-DD of the gig
+  date?: string;
+  notes?: string;
+  entries: SetlistEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A song as a client adds it: from the catalog, a take path, or both
+export interface SetlistEntryInput {
+  songId?: string;
+  takePath?: string;
+  title?: string;
+  notes?: string;
+}
+
+// Fields a client may set besides the entries
+const EDITABLE_FIELDS = ['name', 'venue', 'date', 'notes'] as const;
+
+export type SetlistInput = Partial<Pick<Setlist, typeof EDITABLE_FIELDS[number]>> & {
+  entries?: SetlistEntryInput[];
+};
+
+export interface SetlistTransition {
+  // Index of the song the transition leaves
+  from: number;
+  fromTitle: string;
+  toTitle: string;
+  warnings: string[];
+}
+
+export interface SetlistSummary {
+  // Seconds, over the songs whose duration is known
+  totalDuration: number;
+  // Songs without a duration, so the total is short by their length
+  untimed: number;
+  // Seconds into the set each song starts
+  startTimes: number[];
+  // Adjacent songs with a key or tempo change that is hard to segue
+  transitions: SetlistTransition[];
+}
+
+// Keys more than this many steps apart on the circle of fifths share few notes
+const AWKWARD_KEY_DISTANCE = 3;
+// BPM change beyond which the drummer needs a count-in rather than a segue
+const AWKWARD_TEMPO_CHANGE = 30;
+// Tempos within this of half or double each other share a pulse (half-time feel)
+const HALF_TIME_TOLERANCE = 0.04;
+
+/**
+ * Problems with a setlist's fields, one message per problem; empty when valid.
+ * With `partial`, missing fields are fine (updates).
+ */
+export function validateSetlist(input: unknown, partial = false): string[] {
+  if (!input || typeof input !== 'object') return ['setlist must be an object'];
+  const setlist = input as SetlistInput;
+  const errors: string[] = [];
+
+  if (setlist.name !== undefined || !partial) {
+    if (typeof setlist.name !== 'string' || !setlist.name.trim()) errors.push('name is required');
+  }
+  if (setlist.venue !== undefined && typeof setlist.venue !== 'string') errors.push('venue must be a string');
+  if (setlist.date !== undefined && !(typeof setlist.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(setlist.date))) {
+    errors.push('date must be YYYY-MM-DD');
+  }
+  if (setlist.notes !== undefined && typeof setlist.notes !== 'string') errors.push('notes must be a string');
+
+  if (setlist.entries !== undefined) {
+    if (!Array.isArray(setlist.entries)) {
+      errors.push('entries must be an array');
+    } else {
+      setlist.entries.forEach((entry, index) => {
+        const label = `entries[${index}]`;
+        if (!entry || typeof entry !== 'object') {
+          errors.push(`${label}: must be an object`);
+          return;
+        }
+        if (!entry.songId && !entry.takePath) errors.push(`${label}: songId or takePath is required`);
+        for (const field of ['songId', 'takePath', 'title', 'notes'] as const) {
+          if (entry[field] !== undefined && typeof entry[field] !== 'string') errors.push(`${label}: ${field} must be a string`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Fill in each entry's take, title, duration, key and tempo. A song without
+ * a takePath is played from its most recently linked take. Key and tempo come
+ * from the catalog, or from the take's cached analysis when the song has
+ * none. Problems (unknown song, missing take) are returned instead of entries.
+ */
+export async function resolveEntries(
+  storage: StorageProvider,
+  inputs: SetlistEntryInput[],
+  songs: Song[]
+): Promise<{ entries: SetlistEntry[]; errors: string[] }> {
+  const clustering = new AudioClusteringService(storage);
+  const entries: SetlistEntry[] = [];
+  const errors: string[] = [];
+
+  for (const [index, input] of inputs.entries()) {
+    const label = `entries[${index}]`;
+    const song = input.songId ? songs.find(s => s.id === input.songId) : undefined;
+    if (input.songId && !song) {
+      errors.push(`${label}: no song ${input.songId}`);
+      continue;
+    }
+
+    const take = input.takePath ? undefined : latestTake(song!);
+    if (!input.takePath && !take) {
+      errors.push(`${label}: ${song!.title} has no take linked; link one or give takePath`);
+      continue;
+    }
+
+    // A linked take is looked up by file id, so it is found wherever it was moved since
+    let metadata;
+    try {
+      metadata = await storage.getFileMetadata(input.takePath || take!.fileId || take!.ref);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        errors.push(`${label}: ${input.takePath || take!.ref} not found`);
+        continue;
+      }
+      throw error;
+    }
+    const takePath = metadata.path_display || input.takePath || take!.ref;
+
+    const fileInfo = 'size' in metadata ? { size: metadata.size, content_hash: metadata.content_hash } : {};
+    const technical = await clustering.getTechnicalInfo(takePath, fileInfo);
+    const cached = fileInfo.content_hash ? await audioCache.get(fileInfo.content_hash) : undefined;
+    const cachedTempo = cached?.tempo?.bpm;
+
+    entries.push({
+      songId: song?.id,
+      title: input.title?.trim() || song?.title || metadata.name.replace(/\.[^/.]+$/, ''),
+      takePath,
+      duration: technical?.duration,
+      key: song?.key || cached?.key?.label,
+      tempo: song?.tempo || (cachedTempo ? Math.round(cachedTempo) : undefined),
+      notes: input.notes
+    });
+  }
+
+  return { entries, errors };
+}
+
+/**
+ * Running time and the transitions worth a second look
+ */
+export function summarizeSetlist(setlist: Setlist): SetlistSummary {
+  const startTimes: number[] = [];
+  let elapsed = 0;
+  for (const entry of setlist.entries) {
+    startTimes.push(Math.round(elapsed));
+    elapsed += entry.duration || 0;
+  }
+
+  const transitions: SetlistTransition[] = [];
+  setlist.entries.slice(1).forEach((next, index) => {
+    const previous = setlist.entries[index];
+    const warnings = transitionWarnings(previous, next);
+    if (warnings.length > 0) {
+      transitions.push({ from: index, fromTitle: previous.title, toTitle: next.title, warnings });
+    }
+  });
+
+  return {
+    totalDuration: Math.round(elapsed),
+    untimed: setlist.entries.filter(entry => entry.duration === undefined).length,
+    startTimes,
+    transitions
+  };
+}
+
+function transitionWarnings(previous: SetlistEntry, next: SetlistEntry): string[] {
+  const warnings: string[] = [];
+
+  if (previous.key && next.key) {
+    const distance = keySignatureDistance(previous.key, next.key);
+    if (distance !== null && distance >= AWKWARD_KEY_DISTANCE) {
+      warnings.push(`${previous.key} to ${next.key} is ${distance} steps apart on the circle of fifths`);
+    }
+  }
+
+  if (previous.tempo && next.tempo) {
+    const change = next.tempo - previous.tempo;
+    const ratio = Math.max(previous.tempo, next.tempo) / Math.min(previous.tempo, next.tempo);
+    if (Math.abs(change) >= AWKWARD_TEMPO_CHANGE && Math.abs(ratio - 2) > 2 * HALF_TIME_TOLERANCE) {
+      warnings.push(`Tempo ${change > 0 ? 'jumps' : 'drops'} from ${previous.tempo} to ${next.tempo} BPM`);
+    }
+  }
+
+  return warnings;
+}
+
+function latestTake(song: Song): SongAsset | undefined {
+  const takes = song.assets
+    .filter(asset => asset.kind === 'take' && asset.source === 'dropbox')
+    .sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+  return takes[0];
+}
+
+const setlistsById = stateCollection<Setlist>('setlists', {
+  file: 'setlists.json',
+  convert: data => (data as { setlists: { [id: string]: Setlist } }).setlists
+});
+
+/**
+ * Setlists for gigs, kept in the state store. Entries are expected to have
+ * been resolved with resolveEntries.
+ */
+class SetlistStore {
+  async listSetlists(): Promise<Setlist[]> {
+    // Upcoming and recent gigs first; undated ones last
+    return Object.values(await setlistsById.getAll()).sort((a, b) =>
+      (b.date || '').localeCompare(a.date || '') || b.updatedAt.localeCompare(a.updatedAt)
+    );
+  }
+
+  async getSetlist(id: string): Promise<Setlist | null> {
+    return (await setlistsById.get(id)) || null;
+  }
+
+  async createSetlist(fields: Omit<SetlistInput, 'entries'>, entries: SetlistEntry[]): Promise<Setlist> {
+    const now = new Date().toISOString();
+    const setlist: Setlist = {
+      id: `setlist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: fields.name!.trim(),
+      venue: fields.venue,
+      date: fields.date,
+      notes: fields.notes,
+      entries,
+      createdAt: now,
+      updatedAt: now
+    };
+    await setlistsById.set(setlist.id, setlist);
+    return setlist;
+  }
+
+  /**
+   * Change the fields given; `entries`, when given, replaces the running order.
+   * Null when there is no such setlist.
+   */
+  async updateSetlist(id: string, fields: Omit<SetlistInput, 'entries'>, entries?: SetlistEntry[]): Promise<Setlist | null> {
+    // Request bodies land here as they are; only the editable fields are copied
+    const changes: Partial<Setlist> = Object.fromEntries(
+      EDITABLE_FIELDS.filter(field => fields[field] !== undefined).map(field => [field, fields[field]])
+    );
+    const updated = await setlistsById.update(id, setlist => setlist && {
+      ...setlist,
+      ...changes,
+      name: fields.name?.trim() || setlist.name,
+      entries: entries || setlist.entries,
+      updatedAt: new Date().toISOString()
+    });
+    return updated || null;
+  }
+
+  async deleteSetlist(id: string): Promise<boolean> {
+    return setlistsById.delete(id);
+  }
+}
+
+export const setlistStore = new SetlistStore();
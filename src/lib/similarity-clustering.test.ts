@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { averageLinkage, cutDendrogram, silhouetteScore, SimilarityMatrix } from './similarity-clustering';
+
+function matrixOf(rows: number[][]): SimilarityMatrix {
+  return rows.map(row => Float64Array.from(row));
+}
+
+// Two takes of one song (0-2), two of another (3-4), and a stray idea (5)
+const TAKES = matrixOf([
+  [1, 0.92, 0.85, 0.2, 0.15, 0.1],
+  [0.92, 1, 0.8, 0.25, 0.1, 0.05],
+  [0.85, 0.8, 1, 0.1, 0.2, 0.15],
+  [0.2, 0.25, 0.1, 1, 0.88, 0.3],
+  [0.15, 0.1, 0.2, 0.88, 1, 0.25],
+  [0.1, 0.05, 0.15, 0.3, 0.25, 1]
+]);
+
+// The same matrix with its items listed in `order`
+function reordered(matrix: SimilarityMatrix, order: number[]): SimilarityMatrix {
+  return order.map(i => Float64Array.from(order.map(j => matrix[i][j])));
+}
+
+describe('averageLinkage', () => {
+  it('merges the closest pair first and numbers new clusters after the items', () => {
+    const merges = averageLinkage(matrixOf([
+      [1, 0.9, 0.5],
+      [0.9, 1, 0.3],
+      [0.5, 0.3, 1]
+    ]));
+    expect(merges).toEqual([
+      { a: 0, b: 1, similarity: 0.9 },
+      // Cluster 3 (items 0 and 1) joins item 2 at the mean of 0.5 and 0.3
+      { a: 3, b: 2, similarity: 0.4 }
+    ]);
+  });
+
+  it('joins a file to the group it resembles as a whole', () => {
+    // Item 3 is closer to item 2 than to item 1, but closer to the 0-1 group on average
+    const merges = averageLinkage(matrixOf([
+      [1, 0.9, 0.1, 0.78],
+      [0.9, 1, 0.1, 0.7],
+      [0.1, 0.1, 1, 0.72],
+      [0.78, 0.7, 0.72, 1]
+    ]));
+    expect(merges[0]).toEqual({ a: 0, b: 1, similarity: 0.9 });
+    expect(merges[1].a).toBe(4);
+    expect(merges[1].b).toBe(3);
+    expect(merges[1].similarity).toBeCloseTo(0.74);
+    expect(cutDendrogram(4, merges, 0.73)).toEqual([[0, 1, 3], [2]]);
+  });
+
+  it('never merges at a higher similarity than the merge before', () => {
+    const merges = averageLinkage(TAKES);
+    expect(merges).toHaveLength(TAKES.length - 1);
+    merges.slice(1).forEach((merge, k) => {
+      expect(merge.similarity).toBeLessThanOrEqual(merges[k].similarity);
+    });
+  });
+
+  it('breaks ties by the lowest-numbered pair', () => {
+    const merges = averageLinkage(matrixOf([
+      [1, 0.5, 0.5],
+      [0.5, 1, 0.5],
+      [0.5, 0.5, 1]
+    ]));
+    expect(merges[0]).toEqual({ a: 0, b: 1, similarity: 0.5 });
+  });
+
+  it('has nothing to merge for fewer than two items', () => {
+    expect(averageLinkage([])).toEqual([]);
+    expect(averageLinkage(matrixOf([[1]]))).toEqual([]);
+  });
+});
+
+describe('cutDendrogram', () => {
+  const merges = averageLinkage(TAKES);
+
+  it('applies the merges at or above the threshold', () => {
+    expect(cutDendrogram(6, merges, 0.6)).toEqual([[0, 1, 2], [3, 4], [5]]);
+    expect(cutDendrogram(6, merges, 0.88)).toEqual([[0, 1], [2], [3, 4], [5]]);
+  });
+
+  it('leaves every item alone above the first merge and joins all at zero', () => {
+    expect(cutDendrogram(6, merges, 0.95)).toEqual([[0], [1], [2], [3], [4], [5]]);
+    expect(cutDendrogram(6, merges, 0)).toEqual([[0, 1, 2, 3, 4, 5]]);
+  });
+});
+
+describe('clustering order', () => {
+  it('groups the same files whatever order they are listed in', () => {
+    const labels = ['a1', 'a2', 'a3', 'b1', 'b2', 'idea'];
+    const grouping = (order: number[]) => {
+      const matrix = reordered(TAKES, order);
+      return cutDendrogram(order.length, averageLinkage(matrix), 0.6)
+        .map(group => group.map(index => labels[order[index]]).sort().join(' '))
+        .sort();
+    };
+
+    const expected = grouping([0, 1, 2, 3, 4, 5]);
+    expect(expected).toEqual(['a1 a2 a3', 'b1 b2', 'idea']);
+    for (const order of [[5, 4, 3, 2, 1, 0], [3, 0, 5, 1, 4, 2], [2, 5, 0, 4, 1, 3]]) {
+      expect(grouping(order)).toEqual(expected);
+    }
+  });
+});
+
+describe('silhouetteScore', () => {
+  it('is 1 for groups that are alike inside and unlike each other', () => {
+    const matrix = matrixOf([
+      [1, 1, 0, 0],
+      [1, 1, 0, 0],
+      [0, 0, 1, 1],
+      [0, 0, 1, 1]
+    ]);
+    expect(silhouetteScore(matrix, [[0, 1], [2, 3]])).toBeCloseTo(1);
+  });
+
+  it('prefers the grouping that fits', () => {
+    const fits = silhouetteScore(TAKES, [[0, 1, 2], [3, 4], [5]]);
+    const mixed = silhouetteScore(TAKES, [[0, 3], [1, 4], [2, 5]]);
+    expect(fits).toBeGreaterThan(0.5);
+    expect(mixed).toBeLessThan(0);
+  });
+
+  it('scores singletons as 0, so clustering nothing is never rewarded', () => {
+    expect(silhouetteScore(TAKES, [[0], [1], [2], [3], [4], [5]])).toBe(0);
+    // Only items in groups of several count, over all items
+    const partial = silhouetteScore(TAKES, [[0, 1, 2], [3], [4], [5]]);
+    expect(partial).toBeGreaterThan(0);
+    expect(partial).toBeLessThan(silhouetteScore(TAKES, [[0, 1, 2], [3, 4], [5]]));
+  });
+
+  it('is 0 for a single cluster or no items', () => {
+    expect(silhouetteScore(TAKES, [[0, 1, 2, 3, 4, 5]])).toBe(0);
+    expect(silhouetteScore([], [])).toBe(0);
+  });
+});
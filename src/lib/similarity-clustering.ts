@@ -0,0 +1,124 @@
+/**
+ * Symmetric pairwise similarities in 0-1; the diagonal is ignored
+ */
+export type SimilarityMatrix = Float64Array[];
+
+/**
+ * One step of agglomerative clustering: clusters `a` and `b` (ids as in
+ * scipy's linkage: 0..n-1 are the items, n+k the cluster made by merge k)
+ * joined at average similarity `similarity`
+ */
+export interface Merge {
+  a: number;
+  b: number;
+  similarity: number;
+}
+
+/**
+ * Average-linkage (UPGMA) agglomerative clustering over a similarity matrix.
+ * Each step joins the two clusters with the highest mean pairwise similarity,
+ * so a take that resembles a group as a whole joins it even when it is not
+ * close to any single member. Ties go to the lowest-numbered pair, which
+ * makes the result depend only on the matrix. Merge similarities never
+ * increase, so a dendrogram can be cut at any threshold afterwards.
+ */
+export function averageLinkage(matrix: SimilarityMatrix): Merge[] {
+  const n = matrix.length;
+  // Similarity between active clusters, updated in place (Lance-Williams)
+  const similarity = matrix.map(row => Float64Array.from(row));
+  const sizes = new Array(n).fill(1);
+  const ids = Array.from({ length: n }, (_, i) => i);
+  const active = new Set(ids);
+  const merges: Merge[] = [];
+
+  while (active.size > 1) {
+    let bestI = -1;
+    let bestJ = -1;
+    let best = -Infinity;
+    for (const i of active) {
+      for (const j of active) {
+        if (j <= i) continue;
+        if (similarity[i][j] > best) {
+          best = similarity[i][j];
+          bestI = i;
+          bestJ = j;
+        }
+      }
+    }
+
+    merges.push({ a: ids[bestI], b: ids[bestJ], similarity: best });
+
+    // The merged cluster lives on in slot bestI
+    const total = sizes[bestI] + sizes[bestJ];
+    for (const k of active) {
+      if (k === bestI || k === bestJ) continue;
+      const merged = (sizes[bestI] * similarity[bestI][k] + sizes[bestJ] * similarity[bestJ][k]) / total;
+      similarity[bestI][k] = merged;
+      similarity[k][bestI] = merged;
+    }
+    sizes[bestI] = total;
+    ids[bestI] = n + merges.length - 1;
+    active.delete(bestJ);
+  }
+
+  return merges;
+}
+
+/**
+ * Flat clusters from a dendrogram: apply every merge at or above `threshold`.
+ * Returns item indices per cluster (singletons included), each sorted, ordered
+ * by their first item.
+ */
+export function cutDendrogram(itemCount: number, merges: Merge[], threshold: number): number[][] {
+  const members: number[][] = Array.from({ length: itemCount }, (_, i) => [i]);
+  const roots = new Set(members.keys());
+
+  for (const merge of merges) {
+    // Merge similarities never increase, so the rest are below the threshold too
+    if (merge.similarity < threshold) break;
+    roots.delete(merge.a);
+    roots.delete(merge.b);
+    roots.add(members.push([...members[merge.a], ...members[merge.b]]) - 1);
+  }
+
+  return [...roots]
+    .map(id => [...members[id]].sort((x, y) => x - y))
+    .sort((x, y) => x[0] - y[0]);
+}
+
+/**
+ * Mean silhouette over all items, using 1 - similarity as distance: for each
+ * item, how much closer it is to its own cluster than to the nearest other
+ * one, in -1..1. Singletons score 0, so leaving everything unclustered is
+ * never better than a grouping that fits. 0 when there is only one cluster.
+ */
+export function silhouetteScore(matrix: SimilarityMatrix, clusters: number[][]): number {
+  const n = matrix.length;
+  if (n === 0 || clusters.length < 2) return 0;
+
+  let total = 0;
+  for (const cluster of clusters) {
+    if (cluster.length < 2) continue;
+    for (const i of cluster) {
+      const a = meanDistance(matrix, i, cluster);
+      let b = Infinity;
+      for (const other of clusters) {
+        if (other !== cluster) b = Math.min(b, meanDistance(matrix, i, other));
+      }
+      const spread = Math.max(a, b);
+      total += spread > 0 ? (b - a) / spread : 0;
+    }
+  }
+  return total / n;
+}
+
+function meanDistance(matrix: SimilarityMatrix, item: number, cluster: number[]): number {
+  let sum = 0;
+  let count = 0;
+  for (const other of cluster) {
+    if (other === item) continue;
+    sum += 1 - matrix[item][other];
+    count++;
+  }
+  return count > 0 ? sum / count : 0;
+}
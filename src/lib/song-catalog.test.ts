@@ -0,0 +1,34 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SongInput } from './song-catalog';
+
+describe('songCatalog.updateSong', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'song-catalog-'));
+    vi.stubEnv('STATE_STORE', 'json');
+    vi.stubEnv('DATA_DIR', dir);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('only changes the editable fields of a PUT body', async () => {
+    // Imported after the environment is set, as the state store reads it on load
+    const { songCatalog } = await import('./song-catalog');
+    const song = await songCatalog.createSong({ title: 'Bridge', key: 'A' });
+
+    const body = { id: 'song_other', createdAt: '2000-01-01T00:00:00.000Z', owner: 'someone', tempo: 120 };
+    const updated = await songCatalog.updateSong(song.id, body as SongInput);
+
+    expect(updated).toMatchObject({ id: song.id, createdAt: song.createdAt, title: 'Bridge', key: 'A', tempo: 120 });
+    expect(updated).not.toHaveProperty('owner');
+    expect(await songCatalog.getSong('song_other')).toBeNull();
+    expect(await songCatalog.getSong(song.id)).toEqual(updated);
+  });
+});
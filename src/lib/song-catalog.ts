@@ -0,0 +1,340 @@
+import { stateCollection } from './state-store';
+import type { StorageProvider } from './storage';
+import { NotFoundError } from './storage-errors';
+import { AUDIO_EXTENSIONS } from './upload-rules';
+
+export const SONG_STATUSES = ['idea', 'arranging', 'gig-ready', 'retired'] as const;
+export type SongStatus = typeof SONG_STATUSES[number];
+
+export const SONG_ASSET_KINDS = ['take', 'lyrics', 'chart', 'media'] as const;
+export type SongAssetKind = typeof SONG_ASSET_KINDS[number];
+
+/**
+ * A file that belongs to a song: a recording, lyrics, a chart or a photo/video
+ */
+export interface SongAsset {
+  kind: SongAssetKind;
+  source: 'dropbox' | 'google_docs';
+  // Dropbox path (where the file was last seen), or the Google Doc id
+  ref: string;
+  // Dropbox file id, which follows the file when it is moved or renamed
+  fileId?: string;
+  name: string;
+  // Link to open it, for Google Docs
+  url?: string;
+  addedAt: string;
+}
+
+export interface Song {
+  id: string;
+  title: string;
+  // Working titles and nicknames; suggestions match these as well as the title
+  aliases: string[];
+  key?: string;
+  tempo?: number;
+  status: SongStatus;
+  notes?: string;
+  assets: SongAsset[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Fields a client may set
+const EDITABLE_FIELDS = ['title', 'aliases', 'key', 'tempo', 'status', 'notes'] as const;
+
+export type SongInput = Partial<Pick<Song, typeof EDITABLE_FIELDS[number]>> & {
+  assets?: Omit<SongAsset, 'addedAt'>[];
+};
+
+// Asset files looked up at once when locating moved files
+const LOCATE_BATCH_SIZE = 5;
+
+const MEDIA_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.mp4', '.mov'];
+const LYRICS_EXTENSIONS = ['.txt', '.md', '.lyrics', '.doc', '.docx'];
+
+/**
+ * What kind of song asset a Dropbox file is, from its extension; null for anything else
+ */
+export function assetKindFor(fileName: string): SongAssetKind | null {
+  const ext = fileName.includes('.') ? fileName.substring(fileName.lastIndexOf('.')).toLowerCase() : '';
+  if (AUDIO_EXTENSIONS.includes(ext)) return 'take';
+  if (LYRICS_EXTENSIONS.includes(ext)) return 'lyrics';
+  if (ext === '.pdf') return 'chart';
+  if (MEDIA_EXTENSIONS.includes(ext)) return 'media';
+  return null;
+}
+
+/**
+ * Title reduced for comparison: lowercase words only, without the date
+ * prefixes the organizers add ("20250922_Blue_River" and "Blue River (live)"
+ * both become "blue river")
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .replace(/\.[^/.]+$/, '')
+    .replace(/^\d{4}-\d{2}-\d{2}\s*-\s*/, '')
+    .replace(/^(\d{8}_)+/, '')
+    .replace(/\([^)]*\)/g, ' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Song whose title or one of whose aliases matches `title`
+ */
+export function findSongByTitle(songs: Song[], title: string): Song | undefined {
+  const wanted = normalizeTitle(title);
+  if (!wanted) return undefined;
+  return songs.find(song => [song.title, ...song.aliases].some(name => normalizeTitle(name) === wanted));
+}
+
+/**
+ * Problems with a song's fields, one message per problem; empty when valid.
+ * With `partial`, missing fields are fine (updates).
+ */
+export function validateSong(input: unknown, partial = false): string[] {
+  if (!input || typeof input !== 'object') return ['song must be an object'];
+  const song = input as SongInput;
+  const errors: string[] = [];
+
+  if (song.title !== undefined || !partial) {
+    if (typeof song.title !== 'string' || !song.title.trim()) errors.push('title is required');
+  }
+  if (song.aliases !== undefined && !(Array.isArray(song.aliases) && song.aliases.every(alias => typeof alias === 'string'))) {
+    errors.push('aliases must be an array of strings');
+  }
+  if (song.key !== undefined && typeof song.key !== 'string') errors.push('key must be a string');
+  if (song.tempo !== undefined && !(typeof song.tempo === 'number' && song.tempo > 0)) errors.push('tempo must be a positive number');
+  if (song.status !== undefined && !SONG_STATUSES.includes(song.status)) {
+    errors.push(`status must be one of ${SONG_STATUSES.join(', ')}`);
+  }
+  if (song.notes !== undefined && typeof song.notes !== 'string') errors.push('notes must be a string');
+  if (song.assets !== undefined) errors.push(...validateAssets(song.assets));
+
+  return errors;
+}
+
+export function validateAssets(assets: unknown): string[] {
+  if (!Array.isArray(assets)) return ['assets must be an array'];
+
+  const errors: string[] = [];
+  assets.forEach((asset: Partial<SongAsset>, index) => {
+    const label = `assets[${index}]`;
+    if (!asset || typeof asset !== 'object') {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+    if (!SONG_ASSET_KINDS.includes(asset.kind as SongAssetKind)) {
+      errors.push(`${label}: kind must be one of ${SONG_ASSET_KINDS.join(', ')}`);
+    }
+    if (asset.source !== 'dropbox' && asset.source !== 'google_docs') {
+      errors.push(`${label}: source must be dropbox or google_docs`);
+    }
+    if (!asset.ref || typeof asset.ref !== 'string') errors.push(`${label}: ref is required`);
+    if (asset.fileId !== undefined && typeof asset.fileId !== 'string') errors.push(`${label}: fileId must be a string`);
+    if (!asset.name || typeof asset.name !== 'string') errors.push(`${label}: name is required`);
+  });
+  return errors;
+}
+
+const songsById = stateCollection<Song>('song-catalog', {
+  file: 'song-catalog.json',
+  convert: data => (data as { songs: { [id: string]: Song } }).songs
+});
+
+/**
+ * Songs and what is linked to them, kept in the state store. Inputs are
+ * expected to have passed validateSong.
+ */
+class SongCatalog {
+  async listSongs(): Promise<Song[]> {
+    return Object.values(await songsById.getAll()).sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  async getSong(id: string): Promise<Song | null> {
+    return (await songsById.get(id)) || null;
+  }
+
+  async createSong(input: SongInput): Promise<Song> {
+    const now = new Date().toISOString();
+    const song: Song = {
+      id: `song_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      title: input.title!.trim(),
+      aliases: input.aliases || [],
+      key: input.key,
+      tempo: input.tempo,
+      status: input.status || 'idea',
+      notes: input.notes,
+      assets: mergeAssets([], input.assets || [], now),
+      createdAt: now,
+      updatedAt: now
+    };
+    await songsById.set(song.id, song);
+    return song;
+  }
+
+  /**
+   * Change the fields given; `assets`, when given, replaces the list. Null when there is no such song.
+   */
+  async updateSong(id: string, input: SongInput): Promise<Song | null> {
+    const updated = await songsById.update(id, song => {
+      if (!song) return undefined;
+      const now = new Date().toISOString();
+      // Request bodies land here as they are; only the editable fields are copied
+      const fields: Partial<Song> = Object.fromEntries(
+        EDITABLE_FIELDS.filter(field => input[field] !== undefined).map(field => [field, input[field]])
+      );
+      return {
+        ...song,
+        ...fields,
+        title: input.title?.trim() || song.title,
+        assets: input.assets ? mergeAssets([], input.assets, now, song.assets) : song.assets,
+        updatedAt: now
+      };
+    });
+    return updated || null;
+  }
+
+  async deleteSong(id: string): Promise<boolean> {
+    return songsById.delete(id);
+  }
+
+  /**
+   * Link more assets to a song; ones already linked (same ref or file) are left as they are
+   */
+  async linkAssets(id: string, assets: Omit<SongAsset, 'addedAt'>[]): Promise<Song | null> {
+    const updated = await songsById.update(id, song => {
+      if (!song) return undefined;
+      const now = new Date().toISOString();
+      return { ...song, assets: mergeAssets(song.assets, assets, now), updatedAt: now };
+    });
+    return updated || null;
+  }
+
+  /**
+   * Unlink the asset with ref (or Dropbox file id) `ref`
+   */
+  async unlinkAsset(id: string, ref: string): Promise<Song | null> {
+    const updated = await songsById.update(id, song => song && {
+      ...song,
+      assets: song.assets.filter(asset => asset.ref !== ref && asset.fileId !== ref),
+      updatedAt: new Date().toISOString()
+    });
+    return updated || null;
+  }
+
+  /**
+   * Record where moved files are now: `moved` maps Dropbox file ids to their
+   * current path and name. Returns the songs that changed.
+   */
+  async relocateAssets(moved: Map<string, { ref: string; name: string }>): Promise<Song[]> {
+    const changed: Song[] = [];
+    for (const song of Object.values(await songsById.getAll())) {
+      if (!song.assets.some(asset => asset.fileId && moved.has(asset.fileId))) continue;
+      const updated = await songsById.update(song.id, current => current && {
+        ...current,
+        assets: current.assets.map(asset => {
+          const location = asset.fileId ? moved.get(asset.fileId) : undefined;
+          return location ? { ...asset, ...location } : asset;
+        })
+      });
+      if (updated) changed.push(updated);
+    }
+    return changed;
+  }
+}
+
+/**
+ * Look up the Dropbox file id of assets linked by path, so they can be
+ * followed when the file moves. Paths that don't exist are returned as
+ * errors instead.
+ */
+export async function identifyAssets(
+  storage: StorageProvider,
+  assets: Omit<SongAsset, 'addedAt'>[]
+): Promise<{ assets: Omit<SongAsset, 'addedAt'>[]; errors: string[] }> {
+  const identified: Omit<SongAsset, 'addedAt'>[] = [];
+  const errors: string[] = [];
+
+  for (const [index, asset] of assets.entries()) {
+    if (asset.source !== 'dropbox' || asset.fileId) {
+      identified.push(asset);
+      continue;
+    }
+    try {
+      const metadata = await storage.getFileMetadata(asset.ref);
+      const fileId = 'id' in metadata ? metadata.id : undefined;
+      identified.push({ ...asset, ref: metadata.path_display || asset.ref, fileId });
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      errors.push(`assets[${index}]: ${asset.ref} not found`);
+    }
+  }
+
+  return { assets: identified, errors };
+}
+
+/**
+ * The songs with each Dropbox asset's ref at the path its file has now,
+ * found by file id. Moves are saved to the catalog; assets whose file is
+ * gone keep the path it was last seen at.
+ */
+export async function locateAssets(storage: StorageProvider, songs: Song[]): Promise<Song[]> {
+  const lastSeen = new Map<string, string>();
+  for (const asset of songs.flatMap(song => song.assets)) {
+    if (asset.fileId) lastSeen.set(asset.fileId, asset.ref);
+  }
+  const fileIds = [...lastSeen.keys()];
+  const moved = new Map<string, { ref: string; name: string }>();
+
+  for (let i = 0; i < fileIds.length; i += LOCATE_BATCH_SIZE) {
+    await Promise.all(fileIds.slice(i, i + LOCATE_BATCH_SIZE).map(async fileId => {
+      try {
+        const metadata = await storage.getFileMetadata(fileId);
+        if (metadata.path_display && metadata.path_display !== lastSeen.get(fileId)) {
+          moved.set(fileId, { ref: metadata.path_display, name: metadata.name });
+        }
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+      }
+    }));
+  }
+
+  if (moved.size === 0) return songs;
+  const relocated = new Map((await songCatalog.relocateAssets(moved)).map(song => [song.id, song]));
+  return songs.map(song => relocated.get(song.id) || song);
+}
+
+/**
+ * `existing` plus the assets of `added` that aren't there yet (by ref or
+ * file id). `previous` supplies addedAt for assets that were linked before.
+ */
+function mergeAssets(
+  existing: SongAsset[],
+  added: Omit<SongAsset, 'addedAt'>[],
+  now: string,
+  previous: SongAsset[] = existing
+): SongAsset[] {
+  const merged = [...existing];
+  for (const asset of added) {
+    if (merged.some(linked => sameAsset(linked, asset))) continue;
+    const addedAt = previous.find(linked => sameAsset(linked, asset))?.addedAt || now;
+    merged.push({
+      kind: asset.kind,
+      source: asset.source,
+      ref: asset.ref,
+      fileId: asset.fileId,
+      name: asset.name,
+      url: asset.url,
+      addedAt
+    });
+  }
+  return merged;
+}
+
+function sameAsset(a: Omit<SongAsset, 'addedAt'>, b: Omit<SongAsset, 'addedAt'>): boolean {
+  return a.ref === b.ref || (a.fileId !== undefined && a.fileId === b.fileId);
+}
+
+export const songCatalog = new SongCatalog();
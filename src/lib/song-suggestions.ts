@@ -0,0 +1,178 @@
+import { MUSIC_BASE_PATH } from './config';
+import { StorageEntry, StorageProvider } from './storage';
+import { DUPLICATES_FOLDER } from './duplicates';
+import { assetKindFor, findSongByTitle, normalizeTitle, Song, SongAsset } from './song-catalog';
+
+// Upper bound on entries read from the music base path for one set of suggestions
+const LISTING_LIMIT = 20000;
+
+// Folders organize_cluster and rename-clusters create: "20250922_Blue_River" (but not "20250922_01")
+const SONG_FOLDER_PATTERN = /^\d{8}_(?!\d+$)(.+)$/;
+// Generic names AudioClusteringService gives clusters it found no common words for
+const GENERIC_CLUSTER_NAME = /^(Similar Audio|Recording Session)\b/i;
+
+type AssetLink = Omit<SongAsset, 'addedAt'>;
+
+// The parts of a cluster suggestions need, from a cluster analysis or the archive job
+export interface ClusterLike {
+  name: string;
+  files: { filePath: string; fileName: string; tempo?: number; key?: string }[];
+  averageTempo?: number;
+  dominantKey?: string;
+}
+
+export interface GoogleDoc {
+  id: string;
+  name: string;
+  url?: string;
+}
+
+export interface SongSuggestion {
+  // Song to link the assets to; absent when a new song is suggested
+  songId?: string;
+  title: string;
+  key?: string;
+  tempo?: number;
+  assets: AssetLink[];
+  source: 'cluster' | 'folder' | 'title';
+  reason: string;
+}
+
+/**
+ * Songs to create and assets to link, from audio clusters, song folders made
+ * by the cluster organizers, and lyrics/charts/media/Google Docs whose names
+ * contain a song title. Anything already linked to a song is left out.
+ */
+export async function suggestSongLinks(
+  storage: StorageProvider,
+  songs: Song[],
+  clusters: ClusterLike[],
+  googleDocs: GoogleDoc[] = []
+): Promise<SongSuggestion[]> {
+  // Linked assets by path and, for Dropbox files, by file id, so files that moved since are still known
+  const songByRef = new Map<string, Song>();
+  for (const song of songs) {
+    for (const asset of song.assets) {
+      songByRef.set(asset.ref, song);
+      if (asset.fileId) songByRef.set(asset.fileId, song);
+    }
+  }
+  const linkedSong = (asset: AssetLink) => songByRef.get(asset.ref) || (asset.fileId ? songByRef.get(asset.fileId) : undefined);
+  const suggestions = new Map<string, SongSuggestion>();
+
+  const add = (candidate: SongSuggestion) => {
+    const song = candidate.songId ? songs.find(s => s.id === candidate.songId) : findSongByTitle(songs, candidate.title);
+    const assets = candidate.assets.filter(asset => !linkedSong(asset));
+    if (assets.length === 0) return;
+
+    const suggestionKey = song ? song.id : normalizeTitle(candidate.title);
+    const existing = suggestions.get(suggestionKey);
+    if (existing) {
+      existing.assets.push(...assets.filter(asset => !existing.assets.some(other => other.ref === asset.ref)));
+      return;
+    }
+    suggestions.set(suggestionKey, {
+      ...candidate,
+      songId: song?.id,
+      title: song?.title || candidate.title,
+      assets: [...assets]
+    });
+  };
+
+  const { entries } = await storage.listAllFiles(MUSIC_BASE_PATH, { recursive: true, limit: LISTING_LIMIT });
+  const duplicatesPrefix = `${DUPLICATES_FOLDER.toLowerCase()}/`;
+  const files = entries.filter(entry =>
+    entry['.tag'] === 'file' && entry.path_display && !entry.path_lower?.startsWith(duplicatesPrefix)
+  );
+
+  const fileByPath = new Map(files.map(file => [file.path_lower!, file]));
+
+  for (const cluster of clusters) {
+    const takes = cluster.files
+      .map(file => dropboxAsset(file.filePath, file.fileName, fileByPath.get(file.filePath.toLowerCase())))
+      .filter(isAsset);
+    // A cluster that already holds a linked take belongs to that song, whatever it is called
+    const knownSong = takes.map(linkedSong).find(Boolean);
+    const title = clusterTitle(cluster.name);
+    if (!knownSong && !title) continue;
+
+    add({
+      songId: knownSong?.id,
+      title: knownSong?.title || title!,
+      key: cluster.dominantKey,
+      tempo: cluster.averageTempo ? Math.round(cluster.averageTempo) : undefined,
+      assets: takes,
+      source: 'cluster',
+      reason: knownSong
+        ? `Clustered with takes already linked to ${knownSong.title}`
+        : `Audio cluster "${cluster.name}"`
+    });
+  }
+
+  for (const entry of entries) {
+    const match = entry['.tag'] === 'folder' && entry.name.match(SONG_FOLDER_PATTERN);
+    if (!match || !entry.path_lower) continue;
+    const folderPrefix = `${entry.path_lower}/`;
+    const assets = files
+      .filter(file => file.path_lower!.startsWith(folderPrefix) && !file.path_lower!.slice(folderPrefix.length).includes('/'))
+      .map(file => dropboxAsset(file.path_display!, file.name, file))
+      .filter(isAsset);
+
+    add({
+      title: match[1].replace(/_/g, ' ').trim(),
+      assets,
+      source: 'folder',
+      reason: `Song folder ${entry.path_display}`
+    });
+  }
+
+  // Lyrics, charts, media and docs named after a song or a suggested one
+  const titled = [
+    ...songs.map(song => ({ songId: song.id as string | undefined, title: song.title, names: [song.title, ...song.aliases] })),
+    ...[...suggestions.values()].filter(s => !s.songId).map(s => ({ songId: undefined, title: s.title, names: [s.title] }))
+  ];
+  const namedAssets: AssetLink[] = [
+    ...files
+      .map(file => dropboxAsset(file.path_display!, file.name, file))
+      .filter((asset): asset is AssetLink => isAsset(asset) && asset.kind !== 'take'),
+    ...googleDocs.map(doc => ({ kind: 'lyrics' as const, source: 'google_docs' as const, ref: doc.id, name: doc.name, url: doc.url }))
+  ];
+
+  for (const { songId, title, names } of titled) {
+    const wanted = names.map(normalizeTitle).filter(Boolean);
+    const assets = namedAssets.filter(asset => {
+      const name = ` ${normalizeTitle(asset.name)} `;
+      return wanted.some(title => name.includes(` ${title} `));
+    });
+
+    add({
+      songId,
+      title,
+      assets,
+      source: 'title',
+      reason: `Named after ${title}`
+    });
+  }
+
+  return [...suggestions.values()].sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Song title in a cluster name ("blue river - Takes (3 versions)"), or null for generic names
+ */
+function clusterTitle(name: string): string | null {
+  if (GENERIC_CLUSTER_NAME.test(name)) return null;
+  const title = name.replace(/\s*-\s*(Takes|Variations)\s*\([^)]+\).*$/i, '').trim();
+  return title || null;
+}
+
+function dropboxAsset(filePath: string, fileName: string, entry?: StorageEntry): AssetLink | null {
+  const kind = assetKindFor(fileName);
+  if (!kind) return null;
+  const fileId = entry && 'id' in entry ? entry.id : undefined;
+  return { kind, source: 'dropbox', ref: filePath, fileId, name: fileName };
+}
+
+function isAsset(asset: AssetLink | null): asset is AssetLink {
+  return asset !== null;
+}
@@ -0,0 +1,162 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { ActivityBatchSummary, ActivityLogEntry } from './activity-log';
+import type { ActivityLogStore, ActivityPage, ActivityQuery, BatchQuery } from './activity-store';
+
+// How long a write waits for another process holding the database lock
+const BUSY_TIMEOUT_MS = 5000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS activities (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    timestamp TEXT NOT NULL,
+    action TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    old_path TEXT,
+    new_path TEXT,
+    batch_id TEXT,
+    undo_of TEXT,
+    entry TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS activities_timestamp ON activities (timestamp);
+  CREATE INDEX IF NOT EXISTS activities_action ON activities (action, timestamp);
+  CREATE INDEX IF NOT EXISTS activities_file_path ON activities (file_path);
+  CREATE INDEX IF NOT EXISTS activities_old_path ON activities (old_path);
+  CREATE INDEX IF NOT EXISTS activities_new_path ON activities (new_path);
+  CREATE INDEX IF NOT EXISTS activities_batch ON activities (batch_id);
+  CREATE INDEX IF NOT EXISTS activities_undo_of ON activities (undo_of);
+`;
+
+/**
+ * Activity log in an embedded SQLite database (activity-log.db). WAL mode
+ * lets readers run alongside a writer, and the busy timeout queues writers
+ * from other processes instead of failing them.
+ */
+export class SqliteActivityStore implements ActivityLogStore {
+  private db: Database.Database;
+
+  constructor(dir: string) {
+    mkdirSync(dir, { recursive: true });
+    this.db = new Database(path.join(dir, 'activity-log.db'));
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    this.db.exec(SCHEMA);
+  }
+
+  async append(...entries: ActivityLogEntry[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO activities (id, timestamp, action, file_path, old_path, new_path, batch_id, undo_of, entry)
+      VALUES (@id, @timestamp, @action, @filePath, @oldPath, @newPath, @batchId, @undoOf, @entry)
+    `);
+    const insertAll = this.db.transaction((rows: ActivityLogEntry[]) => {
+      for (const entry of rows) {
+        insert.run({
+          id: entry.id,
+          timestamp: entry.timestamp,
+          action: entry.action,
+          filePath: entry.filePath,
+          oldPath: entry.oldPath ?? null,
+          newPath: entry.newPath ?? null,
+          batchId: entry.batchId ?? null,
+          undoOf: entry.details?.undoOf ?? null,
+          entry: JSON.stringify(entry)
+        });
+      }
+    });
+    insertAll(entries);
+  }
+
+  async query(query: ActivityQuery): Promise<ActivityPage> {
+    const { where, params } = whereClause(query);
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM activities ${where}`).get(params) as { total: number };
+
+    const offset = query.offset || 0;
+    const rows = this.db.prepare(`
+      SELECT entry FROM activities ${where}
+      ORDER BY seq ${query.order === 'asc' ? 'ASC' : 'DESC'}
+      LIMIT @limit OFFSET @offset
+    `).all({ ...params, limit: query.limit ?? -1, offset }) as { entry: string }[];
+
+    return {
+      activities: rows.map(row => JSON.parse(row.entry)),
+      total,
+      hasMore: offset + rows.length < total
+    };
+  }
+
+  async countActions(query: ActivityQuery): Promise<{ [action: string]: number }> {
+    const { where, params } = whereClause(query);
+    const rows = this.db.prepare(`SELECT action, COUNT(*) AS count FROM activities ${where} GROUP BY action`)
+      .all(params) as { action: string; count: number }[];
+    return Object.fromEntries(rows.map(row => [row.action, row.count]));
+  }
+
+  async batches(query: BatchQuery): Promise<ActivityBatchSummary[]> {
+    const rows = this.db.prepare(`
+      SELECT batch_id AS batchId, MIN(timestamp) AS startedAt, MIN(seq) AS firstSeq,
+        SUM(old_path IS NOT NULL AND new_path IS NOT NULL AND old_path != new_path) AS moves
+      FROM activities
+      WHERE batch_id IS NOT NULL ${query.batchId ? 'AND batch_id = @batchId' : ''}
+      GROUP BY batch_id
+      ORDER BY firstSeq DESC
+      LIMIT @limit OFFSET @offset
+    `).all({ batchId: query.batchId, limit: query.limit ?? -1, offset: query.offset || 0 }) as
+      { batchId: string; startedAt: string; moves: number }[];
+
+    const actionCounts = this.db.prepare('SELECT action, COUNT(*) AS count FROM activities WHERE batch_id = ? GROUP BY action');
+    const undo = this.db.prepare(`
+      SELECT MIN(seq), batch_id AS batchId, SUM(action = 'restore') AS restored FROM activities WHERE undo_of = ?
+    `);
+
+    return rows.map(row => {
+      const counts = actionCounts.all(row.batchId) as { action: string; count: number }[];
+      const undone = undo.get(row.batchId) as { batchId: string | null; restored: number | null };
+      return {
+        batchId: row.batchId,
+        startedAt: row.startedAt,
+        actions: Object.fromEntries(counts.map(count => [count.action, count.count])),
+        moves: row.moves,
+        undoneBy: undone.batchId ?? undefined,
+        restored: undone.restored ?? 0
+      };
+    });
+  }
+
+  async deleteBefore(timestamp: string): Promise<number> {
+    return this.db.prepare('DELETE FROM activities WHERE timestamp < ?').run(timestamp).changes;
+  }
+}
+
+function whereClause(query: ActivityQuery): { where: string; params: Record<string, string> } {
+  const conditions: string[] = [];
+  const params: Record<string, string> = {};
+
+  if (query.filePath) {
+    conditions.push('(file_path = @filePath OR old_path = @filePath OR new_path = @filePath)');
+    params.filePath = query.filePath;
+  }
+  if (query.action) {
+    conditions.push('action = @action');
+    params.action = query.action;
+  }
+  if (query.batchId) {
+    conditions.push('batch_id = @batchId');
+    params.batchId = query.batchId;
+  }
+  if (query.undoOf) {
+    conditions.push('undo_of = @undoOf');
+    params.undoOf = query.undoOf;
+  }
+  if (query.startDate) {
+    conditions.push('timestamp >= @startDate');
+    params.startDate = query.startDate;
+  }
+  if (query.endDate) {
+    conditions.push('timestamp <= @endDate');
+    params.endDate = query.endDate;
+  }
+
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
@@ -0,0 +1,312 @@
+import { mkdirSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { DATA_DIR, STATE_STORE } from './config';
+
+/**
+ * One kind of record Roadie keeps for itself (accounts, sync cursors, the
+ * audio cache, the song catalog...), keyed by string
+ */
+export interface StateCollection<T> {
+  get(key: string): Promise<T | undefined>;
+  getAll(): Promise<{ [key: string]: T }>;
+  set(key: string, value: T): Promise<void>;
+  /**
+   * Read-modify-write of one record, atomic against every other writer,
+   * including other processes when the store is SQLite. Return undefined
+   * from `mutate` to delete the record.
+   */
+  update(key: string, mutate: (current: T | undefined) => T | undefined): Promise<T | undefined>;
+  // Whether there was a record to delete
+  delete(key: string): Promise<boolean>;
+  // Swap every record of the collection in one write
+  replaceAll(records: { [key: string]: T }): Promise<void>;
+}
+
+export interface LegacyStateFile<T> {
+  // File name in the working directory, where the collection used to be kept
+  file: string;
+  // Records to import from its parsed contents
+  convert: (data: unknown) => { [key: string]: T };
+}
+
+type StateRecords = { [key: string]: unknown };
+
+interface StateBackend {
+  get(collection: string, key: string): Promise<unknown>;
+  getAll(collection: string): Promise<StateRecords>;
+  update(collection: string, key: string, mutate: (current: unknown) => unknown): Promise<unknown>;
+  replaceAll(collection: string, records: StateRecords): Promise<void>;
+  isEmpty(collection: string): Promise<boolean>;
+}
+
+// How long a write waits for another process holding the database lock
+const BUSY_TIMEOUT_MS = 5000;
+
+/**
+ * Directory Roadie keeps its own data in: DATA_DIR, else the working
+ * directory, except on Vercel where only the temp directory is writable
+ */
+export function dataDir(): string {
+  if (DATA_DIR) return DATA_DIR;
+  return process.env.VERCEL ? os.tmpdir() : process.cwd();
+}
+
+/**
+ * A collection in the store selected by STATE_STORE. With `legacy`, records
+ * from the JSON file the collection used to live in are imported the first
+ * time it is used while empty, and the file is renamed to *.imported.
+ */
+export function stateCollection<T>(name: string, legacy?: LegacyStateFile<T>): StateCollection<T> {
+  let ready: Promise<void> | undefined;
+  const open = async (): Promise<StateBackend> => {
+    if (!ready) {
+      ready = legacy ? importLegacy(name, legacy) : Promise.resolve();
+      // Let a later call try again, e.g. once the file is readable
+      ready.catch(() => {
+        ready = undefined;
+      });
+    }
+    await ready;
+    return getBackend();
+  };
+
+  return {
+    async get(key) {
+      return (await open()).get(name, key) as Promise<T | undefined>;
+    },
+    async getAll() {
+      return (await open()).getAll(name) as Promise<{ [key: string]: T }>;
+    },
+    async set(key, value) {
+      await (await open()).update(name, key, () => value);
+    },
+    async update(key, mutate) {
+      return (await open()).update(name, key, current => mutate(current as T | undefined)) as Promise<T | undefined>;
+    },
+    async delete(key) {
+      let existed = false;
+      await (await open()).update(name, key, current => {
+        existed = current !== undefined;
+        return undefined;
+      });
+      return existed;
+    },
+    async replaceAll(records) {
+      await (await open()).replaceAll(name, records);
+    }
+  };
+}
+
+let backend: StateBackend | undefined;
+
+function getBackend(): StateBackend {
+  if (!backend) backend = createBackend();
+  return backend;
+}
+
+/**
+ * SQLite is the default; when its native module can't be loaded the records
+ * go to one JSON file per collection instead
+ */
+function createBackend(): StateBackend {
+  const dir = dataDir();
+
+  switch (STATE_STORE) {
+    case 'json':
+      return new JsonStateBackend(dir);
+    case 'sqlite':
+      try {
+        return new SqliteStateBackend(dir);
+      } catch (error) {
+        console.error('Could not open the SQLite state store, using JSON files instead:', error);
+        return new JsonStateBackend(dir);
+      }
+    default:
+      throw new Error(`Unknown state store: ${STATE_STORE}`);
+  }
+}
+
+async function importLegacy<T>(name: string, legacy: LegacyStateFile<T>): Promise<void> {
+  const legacyPath = path.join(process.cwd(), legacy.file);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.readFile(legacyPath, 'utf8'));
+  } catch {
+    // Never written, or already imported
+    return;
+  }
+
+  const store = getBackend();
+  if (await store.isEmpty(name)) {
+    const records = legacy.convert(data);
+    await store.replaceAll(name, records);
+    console.log(`Imported ${Object.keys(records).length} ${name} records from ${legacyPath}`);
+  }
+  try {
+    await fs.rename(legacyPath, `${legacyPath}.imported`);
+  } catch (error) {
+    // Read-only deployments keep the file; the collection is no longer empty, so it is not imported twice
+    console.warn(`Could not rename ${legacyPath}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Records as JSON in a table of state.db. Updates run in IMMEDIATE
+ * transactions, so a read-modify-write holds the write lock from the read
+ * on and processes sharing the file can't lose each other's writes.
+ */
+class SqliteStateBackend implements StateBackend {
+  private db: Database.Database;
+
+  constructor(dir: string) {
+    mkdirSync(dir, { recursive: true });
+    this.db = new Database(path.join(dir, 'state.db'));
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS state (
+        collection TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (collection, key)
+      )
+    `);
+  }
+
+  async get(collection: string, key: string): Promise<unknown> {
+    const row = this.db.prepare('SELECT value FROM state WHERE collection = ? AND key = ?').get(collection, key) as
+      { value: string } | undefined;
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  async getAll(collection: string): Promise<StateRecords> {
+    const rows = this.db.prepare('SELECT key, value FROM state WHERE collection = ?').all(collection) as
+      { key: string; value: string }[];
+    return Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.value)]));
+  }
+
+  async update(collection: string, key: string, mutate: (current: unknown) => unknown): Promise<unknown> {
+    const run = this.db.transaction(() => {
+      const row = this.db.prepare('SELECT value FROM state WHERE collection = ? AND key = ?').get(collection, key) as
+        { value: string } | undefined;
+      const next = mutate(row ? JSON.parse(row.value) : undefined);
+      if (next === undefined) {
+        this.db.prepare('DELETE FROM state WHERE collection = ? AND key = ?').run(collection, key);
+      } else {
+        this.db.prepare(`
+          INSERT INTO state (collection, key, value, updated_at) VALUES (?, ?, ?, ?)
+          ON CONFLICT (collection, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+        `).run(collection, key, JSON.stringify(next), new Date().toISOString());
+      }
+      return next;
+    });
+    return run.immediate();
+  }
+
+  async replaceAll(collection: string, records: StateRecords): Promise<void> {
+    const insert = this.db.prepare('INSERT INTO state (collection, key, value, updated_at) VALUES (?, ?, ?, ?)');
+    const run = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM state WHERE collection = ?').run(collection);
+      const now = new Date().toISOString();
+      for (const [key, value] of Object.entries(records)) {
+        insert.run(collection, key, JSON.stringify(value), now);
+      }
+    });
+    run.immediate();
+  }
+
+  async isEmpty(collection: string): Promise<boolean> {
+    return !this.db.prepare('SELECT 1 FROM state WHERE collection = ? LIMIT 1').get(collection);
+  }
+}
+
+/**
+ * One JSON file per collection under state/. Writes are queued and land by
+ * renaming a temporary file, so readers never see half a file; parsed files
+ * are kept until they change on disk. Writers in other processes can still
+ * overwrite each other, so this is for single-process setups.
+ */
+class JsonStateBackend implements StateBackend {
+  private dir: string;
+  private parsed = new Map<string, { mtimeMs: number; size: number; records: StateRecords }>();
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string) {
+    this.dir = path.join(dir, 'state');
+  }
+
+  async get(collection: string, key: string): Promise<unknown> {
+    const value = (await this.read(collection))[key];
+    // Callers may change what they get; the parsed copy must stay as on disk
+    return value === undefined ? undefined : structuredClone(value);
+  }
+
+  async getAll(collection: string): Promise<StateRecords> {
+    return structuredClone(await this.read(collection));
+  }
+
+  async update(collection: string, key: string, mutate: (current: unknown) => unknown): Promise<unknown> {
+    return this.queue(async () => {
+      const records = { ...(await this.read(collection)) };
+      const next = mutate(records[key] === undefined ? undefined : structuredClone(records[key]));
+      if (next === undefined) {
+        delete records[key];
+      } else {
+        records[key] = next;
+      }
+      await this.write(collection, records);
+      return next;
+    });
+  }
+
+  async replaceAll(collection: string, records: StateRecords): Promise<void> {
+    await this.queue(() => this.write(collection, structuredClone(records)));
+  }
+
+  async isEmpty(collection: string): Promise<boolean> {
+    return Object.keys(await this.read(collection)).length === 0;
+  }
+
+  private queue<R>(task: () => Promise<R>): Promise<R> {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private filePath(collection: string): string {
+    return path.join(this.dir, `${collection}.json`);
+  }
+
+  private async read(collection: string): Promise<StateRecords> {
+    const filePath = this.filePath(collection);
+    let stats;
+    try {
+      stats = await fs.stat(filePath);
+    } catch {
+      // Nothing stored yet
+      return {};
+    }
+
+    const cached = this.parsed.get(collection);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) return cached.records;
+
+    const records = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    this.parsed.set(collection, { mtimeMs: stats.mtimeMs, size: stats.size, records });
+    return records;
+  }
+
+  private async write(collection: string, records: StateRecords): Promise<void> {
+    const filePath = this.filePath(collection);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(records), { mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+
+    const stats = await fs.stat(filePath);
+    this.parsed.set(collection, { mtimeMs: stats.mtimeMs, size: stats.size, records });
+  }
+}
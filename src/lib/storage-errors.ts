@@ -0,0 +1,90 @@
+// Typed storage failures. Messages keep the "Failed to <operation>: <summary>"
+// form so existing checks like message.includes('conflict') keep working,
+// while routes can switch on the class (or `status`) to pick an HTTP status.
+
+export class StorageError extends Error {
+  // HTTP status a route should answer with
+  status = 500;
+
+  // details: the backend's structured error, when it has one
+  constructor(public operation: string, public summary: string, public details?: unknown) {
+    super(`Failed to ${operation}: ${summary}`);
+    this.name = 'StorageError';
+  }
+}
+
+export class NotFoundError extends StorageError {
+  status = 404;
+  name = 'NotFoundError';
+}
+
+export class ConflictError extends StorageError {
+  status = 409;
+  name = 'ConflictError';
+}
+
+export class RateLimitedError extends StorageError {
+  status = 429;
+  name = 'RateLimitedError';
+
+  // Seconds the backend asked us to wait before trying again
+  constructor(operation: string, summary: string, public retryAfter?: number, details?: unknown) {
+    super(operation, summary, details);
+  }
+}
+
+export class AuthExpiredError extends StorageError {
+  status = 401;
+  name = 'AuthExpiredError';
+}
+
+export class InsufficientSpaceError extends StorageError {
+  status = 507;
+  name = 'InsufficientSpaceError';
+}
+
+/**
+ * Pick the error class from an HTTP status and a Dropbox-style error summary
+ * ("path/not_found/..", "to/conflict/file/..", "insufficient_space/..")
+ */
+export function classifyStorageError(
+  operation: string,
+  summary: string,
+  httpStatus?: number,
+  retryAfter?: number,
+  details?: unknown
+): StorageError {
+  if (httpStatus === 401 || /expired_access_token|invalid_access_token/.test(summary)) {
+    return new AuthExpiredError(operation, summary, details);
+  }
+  if (httpStatus === 429 || /too_many_(requests|write_operations)/.test(summary)) {
+    return new RateLimitedError(operation, summary, retryAfter, details);
+  }
+  if (summary.includes('insufficient_space')) {
+    return new InsufficientSpaceError(operation, summary, details);
+  }
+  if (summary.includes('not_found')) {
+    return new NotFoundError(operation, summary, details);
+  }
+  if (summary.includes('conflict')) {
+    return new ConflictError(operation, summary, details);
+  }
+  return new StorageError(operation, summary, details);
+}
+
+/**
+ * HTTP status for an error caught in a route: the storage error's own status, 500 otherwise
+ */
+export function errorStatus(error: unknown): number {
+  return error instanceof StorageError ? error.status : 500;
+}
+
+/**
+ * Extra response headers for an error; rate limits pass Retry-After through to the client
+ */
+export function errorHeaders(error: unknown): Record<string, string> {
+  if (error instanceof RateLimitedError && error.retryAfter !== undefined) {
+    return { 'Retry-After': String(error.retryAfter) };
+  }
+  return {};
+}
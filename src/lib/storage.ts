@@ -0,0 +1,139 @@
+import type { files } from 'dropbox';
+import { STORAGE_PROVIDER, LOCAL_STORAGE_ROOT } from './config';
+import { DropboxService } from './dropbox';
+import { LocalStorageProvider } from './local-storage';
+import { ConflictError } from './storage-errors';
+
+// Entries are Dropbox-shaped regardless of backend so routes can keep
+// switching on entry['.tag'] and reading path_display / server_modified.
+export type StorageEntry =
+  | files.FileMetadataReference
+  | files.FolderMetadataReference
+  | files.DeletedMetadataReference;
+
+export interface ListFilesOptions {
+  recursive?: boolean;
+  // Stop after this many entries; the result is then flagged as truncated
+  limit?: number;
+}
+
+export interface UploadOptions {
+  // Replace a file already at the path instead of saving next to it under a new name
+  overwrite?: boolean;
+}
+
+export interface ListFilesResult {
+  entries: StorageEntry[];
+  truncated: boolean;
+}
+
+export interface ChangesPage {
+  // Changed entries; removals come back as '.tag': 'deleted'
+  entries: StorageEntry[];
+  cursor: string;
+  hasMore: boolean;
+}
+
+export interface RelocationPair {
+  fromPath: string;
+  toPath: string;
+}
+
+export interface MoveOptions {
+  // Default true: a taken toPath gets " (1)" added. With false the move fails with a ConflictError.
+  autorename?: boolean;
+}
+
+// Outcome of one entry of a batch move/copy, in the same order as the request.
+// metadata.path_display is where the entry actually ended up (after autorename).
+export interface BatchRelocationResult extends RelocationPair {
+  status: 'success' | 'error';
+  metadata?: StorageEntry;
+  error?: string;
+}
+
+// Position in a chunked upload; the next chunk must start at `offset`
+export interface UploadSessionCursor {
+  sessionId: string;
+  offset: number;
+}
+
+/**
+ * A chunk was sent for the wrong offset (usually a retried request whose first
+ * attempt actually landed). Resume from `correctOffset`.
+ */
+export class UploadOffsetError extends ConflictError {
+  name = 'UploadOffsetError';
+
+  constructor(public correctOffset: number) {
+    super('upload chunk', `incorrect_offset/ (expected ${correctOffset})`);
+  }
+}
+
+export interface StorageProvider {
+  listFiles(path?: string): Promise<StorageEntry[]>;
+  iterateFiles(path: string, options?: ListFilesOptions): AsyncIterable<StorageEntry>;
+  listAllFiles(path: string, options?: ListFilesOptions): Promise<ListFilesResult>;
+  getLatestCursor(path: string, options?: Pick<ListFilesOptions, 'recursive'>): Promise<string>;
+  listChanges(cursor: string): Promise<ChangesPage>;
+  uploadFile(path: string, contents: Buffer | File, options?: UploadOptions): Promise<files.FileMetadata>;
+  startUploadSession(chunk: Buffer): Promise<UploadSessionCursor>;
+  appendUploadSession(cursor: UploadSessionCursor, chunk: Buffer): Promise<UploadSessionCursor>;
+  finishUploadSession(
+    cursor: UploadSessionCursor,
+    path: string,
+    chunk?: Buffer,
+    options?: UploadOptions
+  ): Promise<files.FileMetadata>;
+  downloadFile(path: string): Promise<Buffer>;
+  // Bytes [start, end) of a file; shorter when the file ends first
+  downloadFileRange(path: string, start: number, end: number): Promise<Buffer>;
+  // By path, or by the entry's id ("id:..."), which stays the same when the file moves
+  getFileMetadata(path: string): Promise<StorageEntry>;
+  moveFile(fromPath: string, toPath: string, options?: MoveOptions): Promise<files.RelocationResult>;
+  copyFile(fromPath: string, toPath: string): Promise<files.RelocationResult>;
+  moveFiles(pairs: RelocationPair[]): Promise<BatchRelocationResult[]>;
+  copyFiles(pairs: RelocationPair[]): Promise<BatchRelocationResult[]>;
+  createFolder(path: string): Promise<files.CreateFolderResult>;
+  deleteFile(path: string): Promise<files.DeleteResult>;
+  searchFiles(query: string, path?: string): Promise<files.SearchMatchV2[]>;
+  getTemporaryLink(path: string): Promise<string>;
+  // Who the files belong to ("dropbox:<account_id>", "local:<root>"), for keeping per-account state apart
+  getOwner(): Promise<string>;
+}
+
+/**
+ * Drain a paginated listing, stopping early once `limit` entries were collected
+ */
+export async function collectEntries(iterator: AsyncIterable<StorageEntry>, limit?: number): Promise<ListFilesResult> {
+  const entries: StorageEntry[] = [];
+
+  for await (const entry of iterator) {
+    if (limit !== undefined && entries.length >= limit) {
+      return { entries, truncated: true };
+    }
+    entries.push(entry);
+  }
+
+  return { entries, truncated: false };
+}
+
+export type StorageProviderName = 'dropbox' | 'local';
+
+/**
+ * Build the storage backend selected by STORAGE_PROVIDER.
+ * The access token is only used by the Dropbox backend.
+ */
+export function createStorageProvider(accessToken: string): StorageProvider {
+  switch (STORAGE_PROVIDER as StorageProviderName) {
+    case 'local':
+      if (!LOCAL_STORAGE_ROOT) {
+        throw new Error('LOCAL_STORAGE_ROOT must be set when STORAGE_PROVIDER=local');
+      }
+      return new LocalStorageProvider(LOCAL_STORAGE_ROOT);
+    case 'dropbox':
+      return new DropboxService(accessToken);
+    default:
+      throw new Error(`Unknown storage provider: ${STORAGE_PROVIDER}`);
+  }
+}
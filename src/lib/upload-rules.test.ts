@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AUDIO_EXTENSIONS,
+  DEFAULT_UPLOAD_RULES,
+  matchRule,
+  renderTarget,
+  UploadRule,
+  usesDate,
+  validateRules
+} from './upload-rules';
+
+function rule(id: string, priority: number, match: UploadRule['match'], extra: Partial<UploadRule> = {}): UploadRule {
+  return { id, name: id, priority, category: id, target: `{base}/${id}/{year}`, match, ...extra };
+}
+
+describe('matchRule with the default rules', () => {
+  it.each([
+    ['2024-05-01 Final Mix.wav', 'song-demo'],
+    ['Bridge MASTER v2.flac', 'song-demo'],
+    ['riff in drop d.m4a', 'song-idea'],
+    ['Sunday jam.mp3', 'song-idea'],
+    ['2024.11.02 Gig at the Crown.wav', 'live-recording'],
+    ['setlist lyrics.docx', 'lyrics'],
+    ['Chart - Bridge.pdf', 'sheet-music'],
+    ['IMG_0042.JPG', 'media']
+  ])('files %s as %s', (name, category) => {
+    expect(matchRule(DEFAULT_UPLOAD_RULES, { name })?.category).toBe(category);
+  });
+
+  it('leaves files no rule covers', () => {
+    expect(matchRule(DEFAULT_UPLOAD_RULES, { name: 'session.logicx' })).toBeNull();
+    expect(matchRule(DEFAULT_UPLOAD_RULES, { name: 'README' })).toBeNull();
+  });
+});
+
+describe('matchRule priority', () => {
+  it('tries higher priorities first, wherever they are in the list', () => {
+    const rules = [rule('low', 1, {}), rule('high', 5, {})];
+    expect(matchRule(rules, { name: 'a.wav' })?.id).toBe('high');
+  });
+
+  it('keeps list order between equal priorities', () => {
+    const rules = [rule('first', 3, {}), rule('second', 3, {})];
+    expect(matchRule(rules, { name: 'a.wav' })?.id).toBe('first');
+    expect(matchRule([...rules].reverse(), { name: 'a.wav' })?.id).toBe('second');
+  });
+
+  it('skips disabled rules', () => {
+    const rules = [rule('off', 9, {}, { enabled: false }), rule('on', 1, {})];
+    expect(matchRule(rules, { name: 'a.wav' })?.id).toBe('on');
+  });
+
+  it('falls through to a lower rule when a higher one does not match', () => {
+    const rules = [rule('wav', 9, { extensions: ['.wav'] }), rule('any', 1, {})];
+    expect(matchRule(rules, { name: 'a.mp3' })?.id).toBe('any');
+  });
+});
+
+describe('matchRule conditions', () => {
+  const only = (match: UploadRule['match']) => [rule('only', 1, match)];
+
+  it('matches globs against the whole name, ignoring case', () => {
+    expect(matchRule(only({ name: '*mix*' }), { name: 'Rough MIX 3.wav' })).not.toBeNull();
+    expect(matchRule(only({ name: 'IMG_????.jpg' }), { name: 'img_0001.JPG' })).not.toBeNull();
+    expect(matchRule(only({ name: 'IMG_????.jpg' }), { name: 'IMG_12345.jpg' })).toBeNull();
+    expect(matchRule(only({ name: 'mix' }), { name: 'final mix.wav' })).toBeNull();
+  });
+
+  it('treats regex characters in globs literally', () => {
+    expect(matchRule(only({ name: 'song (1).wav' }), { name: 'song (1).wav' })).not.toBeNull();
+    expect(matchRule(only({ name: 'a.b' }), { name: 'axb' })).toBeNull();
+  });
+
+  it('matches regular expressions anywhere in the name, ignoring case', () => {
+    expect(matchRule(only({ nameRegex: '^\\d{4}-\\d{2}' }), { name: '2024-05 demo.wav' })).not.toBeNull();
+    expect(matchRule(only({ nameRegex: 'DEMO' }), { name: 'new demo.wav' })).not.toBeNull();
+    expect(matchRule(only({ nameRegex: '^demo' }), { name: 'new demo.wav' })).toBeNull();
+  });
+
+  it('compares extensions without regard to case', () => {
+    expect(matchRule(only({ extensions: ['.wav'] }), { name: 'TAKE.WAV' })).not.toBeNull();
+    expect(matchRule(only({ extensions: AUDIO_EXTENSIONS }), { name: 'notes.txt' })).toBeNull();
+    expect(matchRule(only({ extensions: ['.wav'] }), { name: 'no-extension' })).toBeNull();
+  });
+
+  it('checks size bounds inclusively and never matches an unknown size', () => {
+    const match = { minSize: 1000, maxSize: 2000 };
+    expect(matchRule(only(match), { name: 'a.wav', size: 1000 })).not.toBeNull();
+    expect(matchRule(only(match), { name: 'a.wav', size: 2000 })).not.toBeNull();
+    expect(matchRule(only(match), { name: 'a.wav', size: 999 })).toBeNull();
+    expect(matchRule(only(match), { name: 'a.wav', size: 2001 })).toBeNull();
+    expect(matchRule(only(match), { name: 'a.wav' })).toBeNull();
+  });
+
+  it('checks durations and never matches an unknown duration', () => {
+    expect(matchRule(only({ minDuration: 600 }), { name: 'set.wav', duration: 3600 })).not.toBeNull();
+    expect(matchRule(only({ minDuration: 600 }), { name: 'idea.wav', duration: 45 })).toBeNull();
+    expect(matchRule(only({ maxDuration: 120 }), { name: 'idea.wav' })).toBeNull();
+  });
+
+  it('requires every tag pattern to match a present tag', () => {
+    const match = { tags: { genre: '^rock$', artist: 'fiasco' } };
+    expect(matchRule(only(match), { name: 'a.mp3', tags: { genre: 'Rock', artist: 'Fiasco Total' } })).not.toBeNull();
+    expect(matchRule(only(match), { name: 'a.mp3', tags: { genre: 'punk rock', artist: 'Fiasco Total' } })).toBeNull();
+    expect(matchRule(only(match), { name: 'a.mp3', tags: { genre: 'rock' } })).toBeNull();
+    expect(matchRule(only(match), { name: 'a.mp3' })).toBeNull();
+  });
+
+  it('matches only the listed uploaders', () => {
+    const match = { uploaders: ['dbid:drummer'] };
+    expect(matchRule(only(match), { name: 'a.wav', uploader: 'dbid:drummer' })).not.toBeNull();
+    expect(matchRule(only(match), { name: 'a.wav', uploader: 'dbid:singer' })).toBeNull();
+    expect(matchRule(only(match), { name: 'a.wav' })).toBeNull();
+  });
+
+  it('needs every condition of a rule to hold', () => {
+    const match = { extensions: ['.wav'], nameRegex: 'demo', minSize: 10 };
+    expect(matchRule(only(match), { name: 'demo.wav', size: 10 })).not.toBeNull();
+    expect(matchRule(only(match), { name: 'demo.wav', size: 9 })).toBeNull();
+    expect(matchRule(only(match), { name: 'demo.mp3', size: 10 })).toBeNull();
+  });
+});
+
+describe('renderTarget', () => {
+  const variables = { base: '/Music/Band', year: '2024', category: 'live-recording' };
+
+  it('fills in every variable', () => {
+    expect(renderTarget('{base}/Live Recordings/{year}/{date}', {
+      ...variables,
+      date: '2024.11.02'
+    })).toBe('/Music/Band/Live Recordings/2024/2024.11.02');
+  });
+
+  it('returns null when the template needs a date the file does not have', () => {
+    expect(renderTarget('{base}/Live Recordings/{year}/{date}', variables)).toBeNull();
+    expect(renderTarget('{base}/{year}/{month}', variables)).toBeNull();
+  });
+
+  it('does not need a date for templates without one', () => {
+    expect(renderTarget('{base}/Songs/{year}', variables)).toBe('/Music/Band/Songs/2024');
+    expect(usesDate('{base}/Songs/{year}')).toBe(false);
+    expect(usesDate('{base}/{year}/{day}')).toBe(true);
+  });
+});
+
+describe('validateRules', () => {
+  it('accepts the default rules', () => {
+    expect(validateRules(DEFAULT_UPLOAD_RULES)).toEqual([]);
+  });
+
+  it('reports mistyped match fields instead of throwing', () => {
+    const errors = validateRules([
+      rule('a', 1, { extensions: '.wav' as unknown as string[] }),
+      rule('b', 1, { tags: 'genre' as unknown as { [tag: string]: string } }),
+      rule('c', 1, { tags: { genre: 5 as unknown as string } }),
+      rule('d', 1, { uploaders: 'dbid:x' as unknown as string[], minSize: '10' as unknown as number })
+    ]);
+    expect(errors).toEqual([
+      'rules[0] (a): extensions must be an array, e.g. [".wav"]',
+      'rules[1] (b): tags must be an object of tag name to regular expression',
+      'rules[2] (c): regular expressions must be strings, got 5',
+      'rules[3] (d): uploaders must be an array of account ids',
+      'rules[3] (d): minSize must be a number'
+    ]);
+  });
+
+  it('reports bad patterns, duplicate ids and unknown template variables', () => {
+    const errors = validateRules([
+      rule('a', 1, { nameRegex: '(' }),
+      rule('a', 1, { extensions: ['wav'] }, { target: '{base}/{decade}' })
+    ]);
+    expect(errors).toEqual([
+      'rules[0] (a): invalid regular expression "("',
+      'rules[1] (a): duplicate id',
+      'rules[1] (a): unknown template variable {decade}',
+      'rules[1] (a): extensions must start with a dot'
+    ]);
+  });
+
+  it('keeps targets under {base}', () => {
+    const errors = validateRules([
+      rule('outside', 1, {}, { target: '/Other/{year}' }),
+      rule('up', 1, {}, { target: '{base}/../Elsewhere' }),
+      rule('base', 1, {}, { target: '{base}' }),
+      rule('../x', 1, {}, { target: '{base}/{category}' }),
+      rule('inside', 1, {}, { target: '{base}/Songs/{category}/{year}' })
+    ]);
+    expect(errors).toEqual([
+      'rules[0] (outside): target must be a folder under {base}, e.g. "{base}/Songs/{year}"',
+      'rules[1] (up): target must be a folder under {base}, e.g. "{base}/Songs/{year}"',
+      'rules[2] (base): target must be a folder under {base}, e.g. "{base}/Songs/{year}"',
+      'rules[3] (../x): category is part of the target, so it can\'t contain / or be . or ..'
+    ]);
+  });
+
+  it('rejects anything that is not a list of rules', () => {
+    expect(validateRules({ rules: [] })).toEqual(['rules must be an array']);
+    expect(validateRules([null])).toEqual(['rules[0]: must be an object']);
+  });
+});
@@ -0,0 +1,316 @@
+import { stateCollection } from './state-store';
+
+/**
+ * Conditions a file must meet for a rule to apply. Every condition that is
+ * set has to match; a rule without conditions matches everything.
+ */
+export interface RuleMatch {
+  // Glob on the file name, case-insensitive ("*mix*", "IMG_????.jpg")
+  name?: string;
+  // Regular expression on the file name, case-insensitive
+  nameRegex?: string;
+  // Extensions including the dot (".wav")
+  extensions?: string[];
+  // Bytes
+  minSize?: number;
+  maxSize?: number;
+  // Seconds; rules with these never match files whose duration is unknown
+  minDuration?: number;
+  maxDuration?: number;
+  // Metadata tag -> regular expression its value must match (e.g. { genre: "^rock$" })
+  tags?: { [tag: string]: string };
+  // Dropbox account ids of who uploaded the file
+  uploaders?: string[];
+}
+
+export interface UploadRule {
+  id: string;
+  name: string;
+  // Higher runs first; equal priorities keep their order in the file
+  priority: number;
+  enabled?: boolean;
+  category: string;
+  // Target folder template, e.g. "{base}/Songs/{year}" or "{base}/Live Recordings/{year}/{date}"
+  target: string;
+  match: RuleMatch;
+}
+
+// What the rules are evaluated against
+export interface UploadFacts {
+  name: string;
+  size?: number;
+  duration?: number;
+  tags?: { [tag: string]: string };
+  uploader?: string;
+}
+
+export interface TargetVariables {
+  base: string;
+  year: string;
+  // YYYY.MM.DD, the same format organize-live-recordings uses for date folders
+  date?: string;
+  month?: string;
+  day?: string;
+  category: string;
+}
+
+const TEMPLATE_VARIABLES = ['base', 'year', 'date', 'month', 'day', 'category'];
+
+export const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.aac', '.ogg', '.flac'];
+
+// The categories process-uploads has always used
+export const DEFAULT_UPLOAD_RULES: UploadRule[] = [
+  {
+    id: 'song-demo',
+    name: 'Mixes, masters and demos',
+    priority: 40,
+    category: 'song-demo',
+    target: '{base}/Songs/{year}',
+    match: { extensions: AUDIO_EXTENSIONS, nameRegex: 'mix|master|demo' }
+  },
+  {
+    id: 'song-idea',
+    name: 'Ideas, riffs and jams',
+    priority: 30,
+    category: 'song-idea',
+    target: '{base}/Song Ideas/{year}',
+    match: { extensions: AUDIO_EXTENSIONS, nameRegex: 'idea|riff|jam' }
+  },
+  {
+    id: 'live-recording',
+    name: 'Everything else that is audio',
+    priority: 20,
+    category: 'live-recording',
+    target: '{base}/Live Recordings/{year}/{date}',
+    match: { extensions: AUDIO_EXTENSIONS }
+  },
+  {
+    id: 'lyrics',
+    name: 'Lyrics and notes',
+    priority: 10,
+    category: 'lyrics',
+    target: '{base}/Lyrics/{year}',
+    match: { extensions: ['.txt', '.md', '.doc', '.docx'] }
+  },
+  {
+    id: 'sheet-music',
+    name: 'Sheet music',
+    priority: 10,
+    category: 'sheet-music',
+    target: '{base}/Sheet Music/{year}',
+    match: { extensions: ['.pdf'] }
+  },
+  {
+    id: 'media',
+    name: 'Photos',
+    priority: 10,
+    category: 'media',
+    target: '{base}/Media/{year}',
+    match: { extensions: ['.jpg', '.jpeg', '.png', '.gif'] }
+  }
+];
+
+/**
+ * Problems with a rule set, one message per problem; empty when it is valid
+ */
+export function validateRules(rules: unknown): string[] {
+  if (!Array.isArray(rules)) return ['rules must be an array'];
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  rules.forEach((rule: Partial<UploadRule>, index) => {
+    const label = `rules[${index}]${rule?.id ? ` (${rule.id})` : ''}`;
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+    if (!rule.id || typeof rule.id !== 'string') errors.push(`${label}: id is required`);
+    else if (ids.has(rule.id)) errors.push(`${label}: duplicate id`);
+    else ids.add(rule.id);
+    if (typeof rule.priority !== 'number') errors.push(`${label}: priority must be a number`);
+    if (!rule.category || typeof rule.category !== 'string') errors.push(`${label}: category is required`);
+    if (!rule.target || typeof rule.target !== 'string') {
+      errors.push(`${label}: target is required`);
+    } else {
+      // process-uploads refuses to move anything outside the music folder
+      if (!rule.target.startsWith('{base}/') || rule.target.split('/').some(part => part === '..' || part === '.')) {
+        errors.push(`${label}: target must be a folder under {base}, e.g. "{base}/Songs/{year}"`);
+      }
+      if (rule.target.includes('{category}') && typeof rule.category === 'string' && /\/|^\.\.?$/.test(rule.category)) {
+        errors.push(`${label}: category is part of the target, so it can't contain / or be . or ..`);
+      }
+      for (const [, variable] of rule.target.matchAll(/\{(\w+)\}/g)) {
+        if (!TEMPLATE_VARIABLES.includes(variable)) {
+          errors.push(`${label}: unknown template variable {${variable}}`);
+        }
+      }
+    }
+
+    const match = rule.match;
+    if (!match || typeof match !== 'object') {
+      errors.push(`${label}: match is required (use {} to match everything)`);
+      return;
+    }
+    const patterns: unknown[] = [match.nameRegex];
+    if (match.tags !== undefined) {
+      if (!isPlainObject(match.tags)) {
+        errors.push(`${label}: tags must be an object of tag name to regular expression`);
+      } else {
+        patterns.push(...Object.values(match.tags));
+      }
+    }
+    for (const pattern of patterns.filter(p => p !== undefined)) {
+      if (typeof pattern !== 'string') {
+        errors.push(`${label}: regular expressions must be strings, got ${JSON.stringify(pattern)}`);
+        continue;
+      }
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        errors.push(`${label}: invalid regular expression ${JSON.stringify(pattern)}`);
+      }
+    }
+    if (match.name !== undefined && typeof match.name !== 'string') {
+      errors.push(`${label}: name must be a string`);
+    }
+    if (match.extensions !== undefined) {
+      if (!Array.isArray(match.extensions)) {
+        errors.push(`${label}: extensions must be an array, e.g. [".wav"]`);
+      } else if (!match.extensions.every(ext => typeof ext === 'string' && ext.startsWith('.'))) {
+        errors.push(`${label}: extensions must start with a dot`);
+      }
+    }
+    if (match.uploaders !== undefined && !(Array.isArray(match.uploaders) && match.uploaders.every(id => typeof id === 'string'))) {
+      errors.push(`${label}: uploaders must be an array of account ids`);
+    }
+    for (const bound of ['minSize', 'maxSize', 'minDuration', 'maxDuration'] as const) {
+      if (match[bound] !== undefined && typeof match[bound] !== 'number') {
+        errors.push(`${label}: ${bound} must be a number`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Whether any enabled rule looks at duration or tags, which are only known
+ * once the audio headers have been read
+ */
+export function needsAudioHeaders(rules: UploadRule[]): boolean {
+  return rules.some(rule => rule.enabled !== false && (
+    rule.match.minDuration !== undefined || rule.match.maxDuration !== undefined || rule.match.tags !== undefined
+  ));
+}
+
+/**
+ * Highest-priority enabled rule whose conditions all hold for the file
+ */
+export function matchRule(rules: UploadRule[], facts: UploadFacts): UploadRule | null {
+  const ordered = rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => rule.enabled !== false)
+    .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index);
+
+  for (const { rule } of ordered) {
+    if (matches(rule.match, facts)) return rule;
+  }
+  return null;
+}
+
+/**
+ * Fill in a target template. Returns null when it needs {date} and there is none.
+ */
+export function renderTarget(template: string, variables: TargetVariables): string | null {
+  let missing = false;
+  const rendered = template.replace(/\{(\w+)\}/g, (token, name: keyof TargetVariables) => {
+    const value = variables[name];
+    if (value === undefined) missing = true;
+    return value ?? token;
+  });
+  return missing ? null : rendered;
+}
+
+export function usesDate(template: string): boolean {
+  return /\{(date|month|day)\}/.test(template);
+}
+
+function matches(match: RuleMatch, facts: UploadFacts): boolean {
+  const name = facts.name;
+  const ext = name.includes('.') ? name.substring(name.lastIndexOf('.')).toLowerCase() : '';
+
+  if (match.name && !globToRegExp(match.name).test(name)) return false;
+  if (match.nameRegex && !new RegExp(match.nameRegex, 'i').test(name)) return false;
+  if (match.extensions && !match.extensions.some(e => e.toLowerCase() === ext)) return false;
+
+  if (match.minSize !== undefined && !(facts.size !== undefined && facts.size >= match.minSize)) return false;
+  if (match.maxSize !== undefined && !(facts.size !== undefined && facts.size <= match.maxSize)) return false;
+  if (match.minDuration !== undefined && !(facts.duration !== undefined && facts.duration >= match.minDuration)) return false;
+  if (match.maxDuration !== undefined && !(facts.duration !== undefined && facts.duration <= match.maxDuration)) return false;
+
+  for (const [tag, pattern] of Object.entries(match.tags || {})) {
+    const value = facts.tags?.[tag];
+    if (value === undefined || !new RegExp(pattern, 'i').test(value)) return false;
+  }
+
+  if (match.uploaders && !(facts.uploader && match.uploaders.includes(facts.uploader))) return false;
+
+  return true;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// The whole rule set is one record, so saving replaces it in a single write
+const RULES_KEY = 'rules';
+const ruleSets = stateCollection<UploadRule[]>('upload-rules', {
+  file: 'upload-rules.json',
+  convert: data => ({ [RULES_KEY]: data as UploadRule[] })
+});
+
+/**
+ * Rule set used by process-uploads. Until someone saves rules the defaults apply.
+ */
+class UploadRuleStore {
+  async getRules(): Promise<{ rules: UploadRule[]; isDefault: boolean }> {
+    const rules = await ruleSets.get(RULES_KEY);
+    if (rules === undefined) {
+      // No custom rules saved yet
+      return { rules: DEFAULT_UPLOAD_RULES, isDefault: true };
+    }
+
+    const errors = validateRules(rules);
+    if (errors.length > 0) {
+      console.error('Ignoring invalid saved upload rules:', errors);
+      return { rules: DEFAULT_UPLOAD_RULES, isDefault: true };
+    }
+    return { rules, isDefault: false };
+  }
+
+  /**
+   * Replace the rule set. Returns validation errors instead of saving when there are any.
+   */
+  async saveRules(rules: unknown): Promise<string[]> {
+    const errors = validateRules(rules);
+    if (errors.length === 0) {
+      await ruleSets.set(RULES_KEY, rules as UploadRule[]);
+    }
+    return errors;
+  }
+
+  async resetRules(): Promise<void> {
+    await ruleSets.delete(RULES_KEY);
+  }
+}
+
+export const uploadRuleStore = new UploadRuleStore();
@@ -0,0 +1,46 @@
+import { MUSIC_ACTIVE_YEAR } from './config';
+import { StorageProvider } from './storage';
+import { NotFoundError } from './storage-errors';
+
+// Top-level folders under MUSIC_BASE_PATH that are split into year folders
+export const YEAR_SPLIT_FOLDERS = ['Songs', 'Song Ideas', 'Live Recordings', 'Lyrics', 'Sheet Music', 'Media'];
+
+const YEAR_FOLDER_PATTERN = /^\d{4}$/;
+
+/**
+ * Year of a recording date in any of the forms the organizers produce
+ * (YYYY.MM.DD, YYYY-MM-DD, or a YYYYMMDD_ file name prefix), or null
+ */
+export function yearFromDate(date: string | null | undefined): string | null {
+  const match = date?.match(/^(\d{4})[.-]?(\d{2})[.-]?(\d{2})(?:$|[_-])/);
+  if (!match) return null;
+
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31 ? match[1] : null;
+}
+
+/**
+ * Year folder a file dated `date` belongs in. MUSIC_ACTIVE_YEAR is only used
+ * when the date is unknown.
+ */
+export function yearFolderFor(date: string | null | undefined): string {
+  return yearFromDate(date) || MUSIC_ACTIVE_YEAR;
+}
+
+/**
+ * Names of the year folders directly under `parentPath`, oldest first
+ */
+export async function listYearFolders(storage: StorageProvider, parentPath: string): Promise<string[]> {
+  try {
+    const entries = await storage.listFiles(parentPath);
+    return entries
+      .filter(entry => entry['.tag'] === 'folder' && YEAR_FOLDER_PATTERN.test(entry.name))
+      .map(folder => folder.name)
+      .sort();
+  } catch (error) {
+    // The category has no year folders yet
+    if (error instanceof NotFoundError) return [];
+    throw error;
+  }
+}
@@ -0,0 +1,88 @@
+#!/bin/bash
+
+# Local stand-in for Dropbox's webhook calls: verification challenge plus
+# signed (and deliberately mis-signed) change notifications.
+#
+# Usage: ./test-webhook.sh [account_id]
+# Reads DROPBOX_CLIENT_SECRET from the environment or .env.local.
+
+echo "============================================"
+echo "Testing Dropbox Webhook"
+echo "============================================"
+
+# Colors for output
+GREEN='\033[0;32m'
+RED='\033[0;31m'
+YELLOW='\033[1;33m'
+NC='\033[0m' # No Color
+
+WEBHOOK_URL="${WEBHOOK_URL:-http://localhost:3001/api/dropbox/webhook}"
+ACCOUNT_ID="${1:-dbid:fake-account}"
+
+if [ -z "$DROPBOX_CLIENT_SECRET" ] && [ -f .env.local ]; then
+    DROPBOX_CLIENT_SECRET=$(grep '^DROPBOX_CLIENT_SECRET=' .env.local | cut -d'=' -f2-)
+fi
+
+if [ -z "$DROPBOX_CLIENT_SECRET" ]; then
+    echo -e "${RED}✗ DROPBOX_CLIENT_SECRET is not set${NC}"
+    exit 1
+fi
+
+echo ""
+echo -e "${YELLOW}Step 1: Verification challenge${NC}"
+echo "----------------------------------------"
+
+challenge="roadie-$(date +%s)"
+response=$(curl -s "$WEBHOOK_URL?challenge=$challenge")
+
+if [ "$response" = "$challenge" ]; then
+    echo -e "${GREEN}✓ Challenge echoed back${NC}"
+else
+    echo -e "${RED}✗ Expected '$challenge', got '$response'${NC}"
+    exit 1
+fi
+
+echo ""
+echo -e "${YELLOW}Step 2: Signed notification for $ACCOUNT_ID${NC}"
+echo "----------------------------------------"
+
+body="{\"list_folder\": {\"accounts\": [\"$ACCOUNT_ID\"]}, \"delta\": {\"users\": [12345]}}"
+signature=$(printf '%s' "$body" | openssl dgst -sha256 -hmac "$DROPBOX_CLIENT_SECRET" | sed 's/^.* //')
+
+status=$(curl -s -o /tmp/roadie-webhook-response -w '%{http_code}' -X POST "$WEBHOOK_URL" \
+    -H "Content-Type: application/json" \
+    -H "X-Dropbox-Signature: $signature" \
+    -d "$body")
+
+if [ "$status" = "200" ]; then
+    echo -e "${GREEN}✓ Notification accepted${NC}: $(cat /tmp/roadie-webhook-response)"
+else
+    echo -e "${RED}✗ Expected 200, got $status${NC}: $(cat /tmp/roadie-webhook-response)"
+    exit 1
+fi
+
+echo ""
+echo -e "${YELLOW}Step 3: Notification with a bad signature${NC}"
+echo "----------------------------------------"
+
+status=$(curl -s -o /dev/null -w '%{http_code}' -X POST "$WEBHOOK_URL" \
+    -H "Content-Type: application/json" \
+    -H "X-Dropbox-Signature: 0000" \
+    -d "$body")
+
+if [ "$status" = "403" ]; then
+    echo -e "${GREEN}✓ Bad signature rejected${NC}"
+else
+    echo -e "${RED}✗ Expected 403, got $status${NC}"
+    exit 1
+fi
+
+rm -f /tmp/roadie-webhook-response
+
+echo ""
+echo "Queued jobs run in the background; check the backend log or"
+echo "GET $WEBHOOK_URL (signed in) for their status."
+echo ""
+echo "============================================"
+echo "Test complete"
+echo "============================================"